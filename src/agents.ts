@@ -6,7 +6,8 @@
  * @license Apache-2.0
  */
 
-import { AgentEventHandlers, ManifestOptions, ToOptions } from './types';
+import { AgentEventHandlers, BotAgentOptions, Clock, FloorReasonToken, InviteDecision, ManifestOptions, ToOptions } from './types';
+import { DialogEvent } from './dialog-event';
 import { Envelope, Manifest, Conversation, Sender } from './envelope';
 import {
   Event,
@@ -14,21 +15,49 @@ import {
   ContextEvent,
   InviteEvent,
   UninviteEvent,
+  DeclineInviteEvent,
+  ByeEvent,
   GetManifestsEvent,
   PublishManifestsEvent,
+  RequestFloorEvent,
   GrantFloorEvent,
   RevokeFloorEvent,
-  isUtteranceEvent,
-  isContextEvent,
-  isInviteEvent,
-  isUninviteEvent,
-  isByeEvent,
-  isGetManifestsEvent,
-  isRequestFloorEvent,
-  isGrantFloorEvent,
-  isRevokeFloorEvent
+  YieldFloorEvent
 } from './events';
-import { createValidationError, hasRequiredProperties } from './utils';
+import { eventTypeRegistry } from './event-registry';
+import { EnvelopeBuilder } from './envelope-builder';
+import { FloorPolicy, FloorRequest, FloorState, FirstComeFloorPolicy } from './floor-policy';
+import { TimeoutTracker, systemClock } from './timers';
+import { createValidationError, generateUUID } from './utils';
+
+/**
+ * Reason token sent when a conversant is revoked or uninvited after a timeout
+ */
+const TIMED_OUT: FloorReasonToken = '@timedOut';
+
+/**
+ * Reason tokens sent when a bot declines an invite
+ */
+const UNAVAILABLE: FloorReasonToken = '@unavailable';
+const OUT_OF_DOMAIN: FloorReasonToken = '@outOfDomain';
+
+/**
+ * Classes of the event types defined by the specification
+ */
+const EVENT_CLASSES: Readonly<Record<string, new (...args: any[]) => Event>> = {
+  utterance: UtteranceEvent,
+  context: ContextEvent,
+  invite: InviteEvent,
+  uninvite: UninviteEvent,
+  declineInvite: DeclineInviteEvent,
+  bye: ByeEvent,
+  getManifests: GetManifestsEvent,
+  publishManifests: PublishManifestsEvent,
+  requestFloor: RequestFloorEvent,
+  grantFloor: GrantFloorEvent,
+  revokeFloor: RevokeFloorEvent,
+  yieldFloor: YieldFloorEvent
+};
 
 /**
  * Interface for event metadata used in agent processing
@@ -38,10 +67,134 @@ interface EventMetadata {
   addressedToMe: boolean;
 }
 
+/**
+ * Handler arguments by event type for OpenFloorAgent.on()
+ * `envelope` handlers see every inbound envelope before its events are dispatched;
+ * the other handlers see each event addressed to the agent, in envelope order.
+ * Event types registered with `eventTypeRegistry` are added by augmenting this interface:
+ *
+ * ```typescript
+ * declare module '@openfloor/protocol' {
+ *   interface AgentEventMap { handoffSummary: HandoffSummaryEvent }
+ * }
+ * ```
+ */
+export interface AgentEventMap {
+  envelope: Envelope;
+  utterance: UtteranceEvent;
+  context: ContextEvent;
+  invite: InviteEvent;
+  uninvite: UninviteEvent;
+  declineInvite: DeclineInviteEvent;
+  bye: ByeEvent;
+  getManifests: GetManifestsEvent;
+  publishManifests: PublishManifestsEvent;
+  requestFloor: RequestFloorEvent;
+  grantFloor: GrantFloorEvent;
+  revokeFloor: RevokeFloorEvent;
+  yieldFloor: YieldFloorEvent;
+}
+
+/**
+ * Context passed to agent event handlers while an envelope is processed
+ */
+export interface AgentEventContext {
+  /** Agent processing the envelope */
+  readonly agent: OpenFloorAgent;
+  /** Envelope being processed */
+  readonly inEnvelope: Envelope;
+  /** Response envelope returned by processEnvelope(), holding the replies so far */
+  readonly outEnvelope: Envelope;
+  /** Add events to the response envelope */
+  reply(...events: Event[]): void;
+}
+
+/**
+ * Handler registered with OpenFloorAgent.on()
+ */
+export type AgentEventHandler<T> = (event: T, context: AgentEventContext) => void | Promise<void>;
+
+/**
+ * An envelope addressed to a single conversant by a floor manager
+ */
+export interface EnvelopeDelivery {
+  /** Manifest of the conversant receiving the envelope */
+  recipient: Manifest;
+  /** Envelope containing only the events the recipient may see */
+  envelope: Envelope;
+}
+
+/**
+ * Outcome of sending an envelope delivery through a transport
+ */
+export interface DeliveryResult extends EnvelopeDelivery {
+  /** Response envelope returned by the recipient, if the delivery succeeded */
+  response?: Envelope;
+  /** Error raised by the transport, if the delivery failed */
+  error?: unknown;
+}
+
+/**
+ * Transport used by a floor manager to send envelopes to conversants
+ * AgentClient implements this interface
+ */
+export interface EnvelopeTransport {
+  send(envelope: Envelope, target: Manifest): Promise<Envelope>;
+}
+
+/**
+ * Configuration options for a floor manager
+ */
+export interface FloorManagerOptions {
+  /** Transport used by dispatchEnvelope() to send deliveries */
+  transport?: EnvelopeTransport;
+  /** Policy arbitrating requestFloor events (defaults to FirstComeFloorPolicy) */
+  policy?: FloorPolicy;
+  /** Milliseconds a conversant may hold the floor before it is revoked with `@timedOut` */
+  floorTimeout?: number;
+  /** Clock used for timeouts (defaults to the system clock) */
+  clock?: Clock;
+  /** Receives the floor control events produced when a timeout expires */
+  onTimeout?: (events: readonly Event[]) => void;
+}
+
+/**
+ * State a bot agent keeps for each conversation it takes part in
+ */
+export interface BotConversationState {
+  /** Conversation the state belongs to */
+  readonly conversation: Conversation;
+  /** Whether the bot has accepted an invite to the conversation */
+  joined: boolean;
+  /** Whether the bot holds the floor in the conversation */
+  hasFloor: boolean;
+  /** Context events received in the latest envelope of the conversation */
+  context: ContextEvent[];
+  /** The bot's persistentState, as last received in the conversation's conversants */
+  persistentState: Record<string, unknown>;
+  /** Clock time of the latest envelope of the conversation */
+  lastActivity: number;
+}
+
+/**
+ * Configuration options for a convener agent
+ */
+export interface ConvenerAgentOptions extends BotAgentOptions {
+  /** Milliseconds a granted conversant may hold the floor before it is revoked with `@timedOut` */
+  floorTimeout?: number;
+  /** Milliseconds an invited agent has to respond before it is uninvited with `@timedOut` */
+  inviteTimeout?: number;
+  /** Receives the revokeFloor and uninvite events produced when a timeout expires */
+  onTimeout?: (events: readonly Event[]) => void;
+}
+
 /**
  * Base class for Open Floor Protocol agents
  * Provides event handling infrastructure and basic agent behaviors
  * 
+ * Handlers registered with on() are awaited one at a time, in registration order,
+ * and an error thrown by a handler rejects processEnvelope().
+ * 
  * @example
  * ```typescript
  * class MyAgent extends OpenFloorAgent {
@@ -50,14 +203,15 @@ interface EventMetadata {
  *     this.on('utterance', this.handleUtterance.bind(this));
  *   }
  * 
- *   async handleUtterance(event, envelope, outEnvelope) {
- *     // Handle utterance event
+ *   async handleUtterance(event: UtteranceEvent, context: AgentEventContext) {
+ *     context.reply(new YieldFloorEvent({ reason: '@complete' }));
  *   }
  * }
  * ```
  */
-export abstract class OpenFloorAgent extends EventTarget {
+export abstract class OpenFloorAgent {
   protected readonly _manifest: Manifest;
+  private _handlers = new Map<string, ReadonlyArray<AgentEventHandler<any>>>();
 
   /**
    * Creates a new OpenFloorAgent instance
@@ -65,8 +219,6 @@ export abstract class OpenFloorAgent extends EventTarget {
    * @throws Error if manifest is invalid
    */
   constructor(manifest: ManifestOptions) {
-    super();
-    
     if (!manifest) {
       throw new Error(createValidationError(
         'OpenFloorAgent.manifest', 
@@ -107,46 +259,44 @@ export abstract class OpenFloorAgent extends EventTarget {
    * @returns Promise resolving to response envelope
    */
   async processEnvelope(inEnvelope: Envelope): Promise<Envelope> {
-    // Create response envelope with same schema, conversation, and this agent as sender
-    const outEnvelope = new Envelope({
-      schema: { version: inEnvelope.schema.version, ...(inEnvelope.schema.url ? { url: inEnvelope.schema.url } : {}) },
-      conversation: {
-        id: inEnvelope.conversation.id,
-        ...(inEnvelope.conversation.conversants && inEnvelope.conversation.conversants.length > 0
-          ? {
-              conversants: inEnvelope.conversation.conversants.map(c => {
-                const obj = c.toObject();
-                if (!obj.identification || typeof obj.identification !== 'object' || !hasRequiredProperties(obj.identification, ['speakerUri', 'serviceUrl', 'organization', 'conversationalName', 'synopsis'])) {
-                  throw new Error('Conversant.identification is missing required fields');
-                }
-                const idObj = obj.identification as Record<string, unknown>;
-                return {
-                  identification: {
-                    speakerUri: idObj.speakerUri as string,
-                    serviceUrl: idObj.serviceUrl as string,
-                    organization: idObj.organization as string,
-                    conversationalName: idObj.conversationalName as string,
-                    synopsis: idObj.synopsis as string,
-                    ...(idObj.department !== undefined ? { department: idObj.department as string } : {}),
-                    ...(idObj.role !== undefined ? { role: idObj.role as string } : {})
-                  },
-                  ...(obj.persistentState !== undefined ? { persistentState: obj.persistentState as Record<string, unknown> } : {})
-                };
-              })
-            }
-          : {})
-      },
-      sender: {
-        speakerUri: this.speakerUri,
-        serviceUrl: this.serviceUrl
+    // Response envelope with same schema, conversation, and this agent as sender,
+    // rebuilt from the replies whenever it is read after a reply
+    const replies = EnvelopeBuilder.replyTo(inEnvelope).from(this._manifest);
+    let outEnvelope: Envelope | undefined;
+
+    const context: AgentEventContext = {
+      agent: this,
+      inEnvelope,
+      get outEnvelope() {
+        if (!outEnvelope) outEnvelope = replies.build({ validate: false });
+        return outEnvelope;
       },
-      events: []
-    });
+      reply: (...events) => {
+        replies.event(...events);
+        outEnvelope = undefined;
+      }
+    };
+
+    await this.dispatchAgentEvent('onEnvelope', { inEnvelope, outEnvelope: context.outEnvelope });
+    await this._emit('envelope', inEnvelope, context);
 
-    // Dispatch envelope event (use a valid key from AgentEventHandlers, e.g., 'onEnvelope')
-    await this.dispatchAgentEvent('onEnvelope', { inEnvelope, outEnvelope });
+    for (const [event, metadata] of this.addMetadata(inEnvelope.events)) {
+      // Handlers only see events of the class they are typed against
+      if (metadata.addressedToMe && isTypedEvent(event)) {
+        await this._emit(event.eventType, event, context);
+      }
+    }
 
-    return outEnvelope;
+    return context.outEnvelope;
+  }
+
+  /**
+   * Await each handler registered for an event type, in registration order
+   */
+  private async _emit(eventType: string, payload: unknown, context: AgentEventContext): Promise<void> {
+    for (const handler of this._handlers.get(eventType) ?? []) {
+      await handler(payload, context);
+    }
   }
 
   /**
@@ -168,22 +318,33 @@ export abstract class OpenFloorAgent extends EventTarget {
   }
 
   /**
-   * Dispatch an agent-specific event
+   * Dispatch an agent-specific event to handlers registered under a legacy
+   * AgentEventHandlers name, wrapped in a CustomEvent
    * @param eventType - Type of event to dispatch
    * @param detail - Event detail data
    */
   protected async dispatchAgentEvent(eventType: string, detail: any): Promise<void> {
-    const event = new CustomEvent(`agent:${eventType}`, { detail });
-    this.dispatchEvent(event);
+    for (const handler of this._handlers.get(eventType) ?? []) {
+      await (handler as (event: CustomEvent) => unknown)(new CustomEvent(`agent:${eventType}`, { detail }));
+    }
   }
 
   /**
    * Add an event handler for a specific event type
    * @param eventType - Type of event to handle
-   * @param handler - Handler function
+   * @param handler - Handler called with the typed event and the processing context
+   */
+  on<K extends keyof AgentEventMap>(eventType: K, handler: AgentEventHandler<AgentEventMap[K]>): void;
+  /**
+   * Add an event handler under a legacy AgentEventHandlers name
+   * `onEnvelope` handlers receive a CustomEvent whose detail holds `inEnvelope` and `outEnvelope`;
+   * the other names are aliases of the AgentEventMap types (`onUtterance` is `utterance`).
+   * @deprecated Use the AgentEventMap event types
    */
-  on(eventType: keyof AgentEventHandlers, handler: (...args: any[]) => Promise<void>): void {
-    this.addEventListener(`agent:${eventType}`, handler as EventListener);
+  on(eventType: keyof AgentEventHandlers, handler: (...args: any[]) => Promise<void>): void;
+  on(eventType: string, handler: AgentEventHandler<any>): void {
+    const key = handlerKey(eventType);
+    this._handlers.set(key, [...(this._handlers.get(key) ?? []), handler]);
   }
 
   /**
@@ -191,14 +352,45 @@ export abstract class OpenFloorAgent extends EventTarget {
    * @param eventType - Type of event
    * @param handler - Handler function to remove
    */
-  off(eventType: keyof AgentEventHandlers, handler: (...args: any[]) => Promise<void>): void {
-    this.removeEventListener(`agent:${eventType}`, handler as EventListener);
+  off<K extends keyof AgentEventMap>(eventType: K, handler: AgentEventHandler<AgentEventMap[K]>): void;
+  /** @deprecated Use the AgentEventMap event types */
+  off(eventType: keyof AgentEventHandlers, handler: (...args: any[]) => Promise<void>): void;
+  off(eventType: string, handler: AgentEventHandler<any>): void {
+    const key = handlerKey(eventType);
+    const handlers = (this._handlers.get(key) ?? []).filter(h => h !== handler);
+    if (handlers.length > 0) {
+      this._handlers.set(key, handlers);
+    } else {
+      this._handlers.delete(key);
+    }
   }
 }
 
+/**
+ * Map a legacy AgentEventHandlers name to the event type its handlers are stored under
+ * `onEnvelope` keeps its own CustomEvent-based dispatch.
+ */
+function handlerKey(eventType: string): string {
+  if (eventType === 'onEnvelope' || !/^on[A-Z]/.test(eventType)) return eventType;
+  return eventType.charAt(2).toLowerCase() + eventType.slice(3);
+}
+
+/**
+ * Check that an event is an instance of the class its handlers are typed against,
+ * as opposed to a plain Event that merely carries the event type
+ */
+function isTypedEvent(event: Event): boolean {
+  const eventClass = EVENT_CLASSES[event.eventType];
+  if (eventClass) return event instanceof eventClass;
+  const definition = eventTypeRegistry.get(event.eventType);
+  return !definition || definition.isEvent(event);
+}
+
 /**
  * Bot agent implementation providing default behaviors per specification Section 2.1
- * Handles conversation state and implements minimal required behaviors
+ * Handles conversation state and implements minimal required behaviors.
+ * Subclasses replace the replies by overriding the protected hooks
+ * (respondToUtterance, acceptInvite, leaveConversation, respondToGetManifests).
  * 
  * @example
  * ```typescript
@@ -216,175 +408,368 @@ export abstract class OpenFloorAgent extends EventTarget {
  * ```
  */
 export class BotAgent extends OpenFloorAgent {
-  private _currentContext: ContextEvent[] = [];
-  private _activeConversation: Conversation | null = null;
-  private _hasFloor: boolean = false;
+  private _conversations = new Map<string, BotConversationState>();
+  private _currentConversationId: string | null = null;
+  private readonly _maxConversations: number;
+  private readonly _idleTimeout: number | null;
+  private readonly _clock: Clock;
+  private readonly _options: BotAgentOptions;
+  private readonly _declined = new WeakSet<Envelope>();
 
   /**
    * Creates a new BotAgent instance
    * @param manifest - Agent manifest
+   * @param options - Bot options
    */
-  constructor(manifest: ManifestOptions) {
+  constructor(manifest: ManifestOptions, options: BotAgentOptions = {}) {
     super(manifest);
+    this._maxConversations = options.maxConversations ?? Infinity;
+    this._idleTimeout = options.idleTimeout ?? null;
+    this._clock = options.clock ?? systemClock;
+    this._options = { ...options };
     this._setupEventHandlers();
   }
 
   /**
-   * Get current conversation state
+   * Get the conversation of the latest envelope, if the bot has joined it
    */
   get activeConversation(): Conversation | null {
-    return this._activeConversation;
+    const state = this._currentState();
+    return state?.joined ? state.conversation : null;
   }
 
   /**
-   * Check if agent currently has the floor
+   * Check if agent has the floor in the conversation of the latest envelope
    */
   get hasFloor(): boolean {
-    return this._hasFloor;
+    return this._currentState()?.hasFloor ?? false;
   }
 
   /**
-   * Get current context events
+   * Get context events of the latest envelope
    */
   get currentContext(): readonly ContextEvent[] {
-    return [...this._currentContext];
+    return [...(this._currentState()?.context ?? [])];
+  }
+
+  /**
+   * Get IDs of the conversations the bot is tracking
+   */
+  get conversationIds(): readonly string[] {
+    return Array.from(this._conversations.keys());
+  }
+
+  /**
+   * Get the state kept for a conversation
+   * @param conversationId - Conversation ID
+   * @returns The conversation state, or undefined if the conversation is not tracked
+   */
+  getConversation(conversationId: string): BotConversationState | undefined {
+    return this._conversations.get(conversationId);
+  }
+
+  /**
+   * Forget conversations that have received no envelopes for longer than the idle timeout
+   * Called automatically before each envelope is processed.
+   * @returns IDs of the evicted conversations
+   */
+  evictIdleConversations(): string[] {
+    if (this._idleTimeout === null) return [];
+
+    const cutoff = this._clock.now() - this._idleTimeout;
+    const evicted: string[] = [];
+    for (const [id, state] of this._conversations) {
+      if (state.lastActivity <= cutoff) {
+        this._conversations.delete(id);
+        evicted.push(id);
+      }
+    }
+    return evicted;
   }
 
   /**
    * Set up default event handlers
    */
   private _setupEventHandlers(): void {
-    this.on('onEnvelope', this._handleEnvelope.bind(this));
+    this.on('envelope', this._handleEnvelope.bind(this));
+    this.on('invite', this._handleInvite.bind(this));
+    this.on('utterance', async (event, context) => {
+      // No reply in conversations the bot declined to join in this envelope
+      if (!this._declined.has(context.inEnvelope)) {
+        await this.respondToUtterance(event, context);
+      }
+    });
+    this.on('context', (event, context) => { this._stateOf(context)?.context.push(event); });
+    this.on('uninvite', (event, context) => this.leaveConversation(event, context));
+    this.on('grantFloor', (_event, context) => this._setFloor(context, true));
+    this.on('revokeFloor', (_event, context) => this._setFloor(context, false));
+    this.on('getManifests', (event, context) => this.respondToGetManifests(event, context));
+    // Other events are ignored per spec Section 2.1
   }
 
   /**
-   * Main envelope processing logic
+   * Main envelope processing logic, run before the envelope's events are handled
+   * Envelopes for conversations the bot has not joined are handled without keeping state;
+   * a conversation only takes one of the bot's slots once an invite to it is accepted.
    */
-  private async _handleEnvelope(event: CustomEvent): Promise<void> {
-    const { inEnvelope, outEnvelope } = event.detail;
-    
-    // Clear current context
-    this._currentContext = [];
+  private _handleEnvelope(inEnvelope: Envelope): void {
+    this.evictIdleConversations();
+    this._currentConversationId = inEnvelope.conversation.id;
 
-    // Check for conversation conflicts
-    if (this._activeConversation && 
-        this._activeConversation.id !== inEnvelope.conversation.id) {
-      throw new Error('Bot is already in a different conversation');
-    }
+    const state = this._conversations.get(inEnvelope.conversation.id);
+    if (state) this._refreshState(state, inEnvelope);
+  }
 
-    // Filter events addressed to this agent
-    const eventsWithMetadata = this.addMetadata(inEnvelope.events);
-    const myEvents = eventsWithMetadata.filter(([, metadata]) => metadata.addressedToMe);
+  /**
+   * Reset the per-envelope state of a conversation and load the bot's persistent state
+   * from the envelope's conversants list
+   */
+  private _refreshState(state: BotConversationState, inEnvelope: Envelope): void {
+    const self = inEnvelope.conversation.conversants.find(c => c.identification.speakerUri === this.speakerUri);
+    if (self) state.persistentState = { ...self.persistentState };
 
-    // Process events in order
-    for (const [eventObj] of myEvents) {
-      await this._handleEvent(eventObj, inEnvelope, outEnvelope);
-    }
+    state.context = [];
+    state.lastActivity = this._clock.now();
   }
 
   /**
-   * Handle individual events based on type
-   */
-  private async _handleEvent(event: Event, inEnvelope: Envelope, outEnvelope: Envelope): Promise<void> {
-    if (isInviteEvent(event)) {
-      await this._handleInvite(event, inEnvelope, outEnvelope);
-    } else if (isUtteranceEvent(event)) {
-      await this._handleUtterance(event, inEnvelope, outEnvelope);
-    } else if (isContextEvent(event)) {
-      await this._handleContext(event, inEnvelope, outEnvelope);
-    } else if (isUninviteEvent(event)) {
-      await this._handleUninvite(event, inEnvelope, outEnvelope);
-    } else if (isGrantFloorEvent(event)) {
-      await this._handleGrantFloor(event, inEnvelope, outEnvelope);
-    } else if (isRevokeFloorEvent(event)) {
-      await this._handleRevokeFloor(event, inEnvelope, outEnvelope);
-    } else if (isGetManifestsEvent(event)) {
-      await this._handleGetManifests(event, inEnvelope, outEnvelope);
-    }
-    // Other events are ignored per spec Section 2.1
+   * Whether the bot can take part in a conversation without going over its maximum
+   */
+  private _hasRoomFor(conversationId: string): boolean {
+    const { size } = this._conversations;
+    return this._conversations.has(conversationId) || size < this._maxConversations ||
+      (this._options.evictLeastRecent === true && size > 0);
   }
 
   /**
-   * Handle invite events - accept invitation and automatically grant floor
+   * Start keeping state for the conversation of an envelope, forgetting the least
+   * recently active conversation first if the bot is at its maximum
    */
-  private async _handleInvite(event: InviteEvent, inEnvelope: Envelope, outEnvelope: Envelope): Promise<void> {
-    // Accept invitation
-    this._activeConversation = new Conversation({ id: inEnvelope.conversation.id });
-    
-    // Automatically grant floor (per spec)
-    await this._handleGrantFloor(
-      new GrantFloorEvent({
-        reason: 'Automatic floor grant as a result of invitation'
-      }),
-      inEnvelope,
-      outEnvelope
-    );
+  private _trackConversation(inEnvelope: Envelope): BotConversationState {
+    const { id } = inEnvelope.conversation;
+    if (this._conversations.size >= this._maxConversations) this._evictLeastRecent();
+
+    const state: BotConversationState = {
+      conversation: new Conversation({ id }),
+      joined: false,
+      hasFloor: false,
+      context: [],
+      persistentState: {},
+      lastActivity: 0
+    };
+    this._refreshState(state, inEnvelope);
+    this._conversations.set(id, state);
+    return state;
   }
 
   /**
-   * Handle grant floor events
+   * Forget the least recently active conversation
    */
-  private async _handleGrantFloor(event: GrantFloorEvent, inEnvelope: Envelope, outEnvelope: Envelope): Promise<void> {
-    this._hasFloor = true;
+  private _evictLeastRecent(): void {
+    let leastRecent: BotConversationState | undefined;
+    for (const state of this._conversations.values()) {
+      if (!leastRecent || state.lastActivity < leastRecent.lastActivity) leastRecent = state;
+    }
+    if (leastRecent) this._conversations.delete(leastRecent.conversation.id);
+  }
+
+  private _currentState(): BotConversationState | undefined {
+    return this._currentConversationId !== null ? this._conversations.get(this._currentConversationId) : undefined;
+  }
+
+  private _stateOf(context: AgentEventContext): BotConversationState | undefined {
+    return this._conversations.get(context.inEnvelope.conversation.id);
+  }
+
+  private _setFloor(context: AgentEventContext, hasFloor: boolean): void {
+    const state = this._stateOf(context);
+    if (state) state.hasFloor = hasFloor;
   }
 
   /**
-   * Handle revoke floor events
+   * Accept or decline an invite as decided by decideInvite()
    */
-  private async _handleRevokeFloor(event: RevokeFloorEvent, inEnvelope: Envelope, outEnvelope: Envelope): Promise<void> {
-    this._hasFloor = false;
+  private async _handleInvite(event: InviteEvent, context: AgentEventContext): Promise<void> {
+    const decision = await this.decideInvite(event, context);
+    if (decision.accept) {
+      await this.acceptInvite(event, context);
+    } else {
+      this._declined.add(context.inEnvelope);
+      // A conversation the bot never joined should not keep a slot
+      const state = this._stateOf(context);
+      if (state && !state.joined) this._conversations.delete(context.inEnvelope.conversation.id);
+      await this.declineInvite(event, context, decision.reason);
+    }
   }
 
   /**
-   * Handle utterance events - provide default response
-   * Subclasses should override this method to provide meaningful responses
+   * Decide whether to accept an invite
+   * The default declines with `@unavailable` when the bot is at its maximum number of
+   * conversations or the inviter is not an allowed convener, and with `@outOfDomain`
+   * when the invite's utterances and context do not match the manifest (if enabled).
+   * Subclasses may override this to add their own rules.
+   * 
+   * @param event - Invite received
+   * @param context - Processing context
+   * @returns Whether to accept the invite, and the reason when declining
    */
-  private async _handleUtterance(event: UtteranceEvent, inEnvelope: Envelope, outEnvelope: Envelope): Promise<void> {
-    const responseEvent = new UtteranceEvent({
-      dialogEvent: {
-        speakerUri: this.speakerUri,
-        features: {
-          text: {
-            mimeType: 'text/plain',
-            tokens: [{ value: "Sorry! I'm a simple bot that has not been programmed to do anything yet." }]
-          }
-        }
+  protected async decideInvite(event: InviteEvent, context: AgentEventContext): Promise<InviteDecision> {
+    const { allowedConveners, matchLanguages, matchCapabilities } = this._options;
+
+    if (!this._hasRoomFor(context.inEnvelope.conversation.id)) {
+      return { accept: false, reason: UNAVAILABLE };
+    }
+    if (allowedConveners && !allowedConveners.includes(context.inEnvelope.sender.speakerUri)) {
+      return { accept: false, reason: UNAVAILABLE };
+    }
+
+    const dialogEvents = dialogEventsOf(context.inEnvelope);
+    const capabilities = this._manifest.capabilities;
+
+    if (matchLanguages) {
+      const supported = capabilities.flatMap(c => c.languages ?? []).map(primaryLanguage);
+      const used = dialogEvents.flatMap(d => Array.from(d.features.values(), f => f.lang))
+        .filter((lang): lang is string => lang !== undefined);
+      if (supported.length > 0 && used.some(lang => !supported.includes(primaryLanguage(lang)))) {
+        return { accept: false, reason: OUT_OF_DOMAIN };
       }
-    });
+    }
+
+    if (matchCapabilities) {
+      const keyphrases = capabilities.flatMap(c => c.keyphrases).map(k => k.toLowerCase());
+      const text = dialogEvents.map(textOf).join(' ').toLowerCase();
+      if (keyphrases.length > 0 && text.trim() !== '' && !keyphrases.some(k => text.includes(k))) {
+        return { accept: false, reason: OUT_OF_DOMAIN };
+      }
+    }
 
-    // Add to output envelope (mutate the events array)
-    (outEnvelope as any)._events = [...outEnvelope.events, responseEvent];
+    return { accept: true };
   }
 
   /**
-   * Handle context events - store context for future use
+   * Join the conversation in response to an invite and take the floor, as the
+   * specification requires of invited agents
+   * Subclasses may override this to add behavior; call super.acceptInvite() to keep the bookkeeping.
+   * @param event - Invite being accepted
+   * @param context - Processing context
    */
-  private async _handleContext(event: ContextEvent, inEnvelope: Envelope, outEnvelope: Envelope): Promise<void> {
-    this._currentContext.push(event);
+  protected async acceptInvite(event: InviteEvent, context: AgentEventContext): Promise<void> {
+    const state = this._stateOf(context) ?? this._trackConversation(context.inEnvelope);
+    state.joined = true;
+    state.hasFloor = true;
   }
 
   /**
-   * Handle uninvite events - leave conversation
+   * Decline an invite by replying with a declineInvite event to the inviter
+   * The bot does not join the conversation.
+   * @param event - Invite being declined
+   * @param context - Processing context
+   * @param reason - Reason for declining (should include reason token, e.g. '@unavailable')
    */
-  private async _handleUninvite(event: UninviteEvent, inEnvelope: Envelope, outEnvelope: Envelope): Promise<void> {
-    this._activeConversation = null;
-    this._hasFloor = false;
+  protected async declineInvite(event: InviteEvent, context: AgentEventContext, reason?: string): Promise<void> {
+    const { speakerUri, serviceUrl } = context.inEnvelope.sender;
+    const to: ToOptions = { speakerUri };
+    if (serviceUrl !== undefined) to.serviceUrl = serviceUrl;
+
+    const options: { to?: ToOptions; reason?: string } = { to };
+    if (reason !== undefined) options.reason = reason;
+    context.reply(new DeclineInviteEvent(options));
   }
 
   /**
-   * Handle getManifests events - return own manifest
+   * Leave the conversation in response to an uninvite, forgetting its state
+   * Subclasses may override this to add behavior; call super.leaveConversation() to keep the bookkeeping.
+   * @param event - Uninvite received
+   * @param context - Processing context
    */
-  private async _handleGetManifests(event: GetManifestsEvent, inEnvelope: Envelope, outEnvelope: Envelope): Promise<void> {
-    const responseEvent = new PublishManifestsEvent({
+  protected async leaveConversation(event: UninviteEvent, context: AgentEventContext): Promise<void> {
+    this._conversations.delete(context.inEnvelope.conversation.id);
+  }
+
+  /**
+   * Respond to an utterance addressed to this bot
+   * The default reply states that the bot has not been programmed yet;
+   * subclasses should override this method to provide meaningful responses.
+   * 
+   * @param event - Utterance received
+   * @param context - Processing context; use context.reply() to respond
+   * 
+   * @example
+   * ```typescript
+   * class EchoBot extends BotAgent {
+   *   protected async respondToUtterance(event: UtteranceEvent, context: AgentEventContext) {
+   *     const text = event.dialogEvent.features.get('text')?.tokens[0]?.value;
+   *     context.reply(this.createUtterance(`You said: ${text}`));
+   *   }
+   * }
+   * ```
+   */
+  protected async respondToUtterance(event: UtteranceEvent, context: AgentEventContext): Promise<void> {
+    context.reply(this.createUtterance("Sorry! I'm a simple bot that has not been programmed to do anything yet."));
+  }
+
+  /**
+   * Respond to a getManifests event by publishing this bot's manifest
+   * @param event - getManifests event received
+   * @param context - Processing context
+   */
+  protected async respondToGetManifests(event: GetManifestsEvent, context: AgentEventContext): Promise<void> {
+    context.reply(new PublishManifestsEvent({
       servicingManifests: [this._manifest.toObject() as any],
       discoveryManifests: []
-    });
+    }));
+  }
 
-    // Add to output envelope
-    (outEnvelope as any)._events = [...outEnvelope.events, responseEvent];
+  /**
+   * Create a plain text utterance spoken by this bot
+   * @param text - Text of the utterance
+   * @param to - Optional addressee
+   * @returns UtteranceEvent that can be added to a response
+   */
+  protected createUtterance(text: string, to?: ToOptions): UtteranceEvent {
+    return new UtteranceEvent({
+      dialogEvent: {
+        id: generateUUID(),
+        speakerUri: this.speakerUri,
+        span: { startTime: new Date() },
+        features: {
+          text: {
+            mimeType: 'text/plain',
+            tokens: [{ value: text }]
+          }
+        }
+      },
+      ...(to !== undefined ? { to } : {})
+    });
   }
 }
 
+/**
+ * Collect the dialog events of the utterance and context events in an envelope
+ * Events that were not hydrated into their classes carry no dialog events and are skipped.
+ */
+function dialogEventsOf(envelope: Envelope): DialogEvent[] {
+  return envelope.events.flatMap(event => {
+    if (event instanceof UtteranceEvent) return event.dialogEvent ? [event.dialogEvent] : [];
+    if (event instanceof ContextEvent) return [...event.dialogHistory ?? []];
+    return [];
+  });
+}
+
+/**
+ * Join the token values of a dialog event's text feature
+ */
+function textOf(dialogEvent: DialogEvent): string {
+  return (dialogEvent.features.get('text')?.tokens ?? []).map(token => String(token.value)).join(' ');
+}
+
+/**
+ * Primary subtag of a language tag, e.g. `en` for `en-US`
+ */
+function primaryLanguage(tag: string): string {
+  return tag.split('-')[0]!.toLowerCase();
+}
+
 /**
  * Floor manager agent implementation per specification Section 2.2
  * Manages multi-party conversations and event forwarding
@@ -398,19 +783,35 @@ export class BotAgent extends OpenFloorAgent {
  *     organization: 'Example Corp',
  *     conversationalName: 'Floor Manager'
  *   }
- * });
+ * }, { transport: new AgentClient({ timeout: 5000 }) });
+ * 
+ * floorManager.addConversant(weatherBotManifest);
+ * const results = await floorManager.dispatchEnvelope(inEnvelope);
  * ```
  */
 export class FloorManager extends OpenFloorAgent {
   private _activeConversants = new Map<string, Manifest>();
   private _currentSpeaker: string | null = null;
+  private _previousSpeaker: string | null = null;
+  private _floorQueue: FloorRequest[] = [];
+  private readonly _transport: EnvelopeTransport | null;
+  private readonly _policy: FloorPolicy;
+  private readonly _floorTimeout: number | null;
+  private readonly _floorTimer: TimeoutTracker<string>;
+  private readonly _onTimeout: ((events: readonly Event[]) => void) | null;
 
   /**
    * Creates a new FloorManager instance
    * @param manifest - Floor manager manifest
+   * @param options - Floor manager options
    */
-  constructor(manifest: ManifestOptions) {
+  constructor(manifest: ManifestOptions, options: FloorManagerOptions = {}) {
     super(manifest);
+    this._transport = options.transport ?? null;
+    this._policy = options.policy ?? new FirstComeFloorPolicy();
+    this._floorTimeout = options.floorTimeout ?? null;
+    this._floorTimer = new TimeoutTracker(options.clock);
+    this._onTimeout = options.onTimeout ?? null;
     this._setupEventHandlers();
   }
 
@@ -428,46 +829,216 @@ export class FloorManager extends OpenFloorAgent {
     return Array.from(this._activeConversants.keys());
   }
 
+  /**
+   * Get milliseconds the current speaker has held the floor
+   * Only tracked when a floor timeout is configured; null otherwise.
+   */
+  get floorHeldFor(): number | null {
+    return this._currentSpeaker !== null ? this._floorTimer.elapsed(this._currentSpeaker) : null;
+  }
+
+  /**
+   * Get requests waiting for the floor, in arrival order
+   */
+  get floorQueue(): readonly FloorRequest[] {
+    return [...this._floorQueue];
+  }
+
   /**
    * Set up floor manager event handlers
    */
   private _setupEventHandlers(): void {
-    this.on('onEnvelope', this._handleEnvelope.bind(this));
+    this.on('envelope', this._handleEnvelope.bind(this));
   }
 
   /**
-   * Floor manager envelope processing - forwards events as appropriate
+   * Floor manager envelope processing - applies floor management rules
+   * Floor control events decided by the policy are added to the response envelope,
+   * which the host should route with dispatchEnvelope() like any other envelope.
+   * Forwarding to other conversants is done by routeEnvelope() and dispatchEnvelope()
    */
-  private async _handleEnvelope(event: CustomEvent): Promise<void> {
-    const { inEnvelope, outEnvelope } = event.detail;
-
-    // Process each event for forwarding logic
+  private async _handleEnvelope(inEnvelope: Envelope, context: AgentEventContext): Promise<void> {
     for (const eventObj of inEnvelope.events) {
-      await this._forwardEvent(eventObj, inEnvelope, outEnvelope);
+      context.reply(...this._handleFloorEvent(eventObj, inEnvelope));
     }
   }
 
   /**
-   * Forward events according to their targeting and floor management rules
+   * Update conversation state according to floor management events
+   * @returns Floor control events to send in response
    */
-  private async _forwardEvent(event: Event, inEnvelope: Envelope, outEnvelope: Envelope): Promise<void> {
-    if (isByeEvent(event)) {
-      // Remove agent from active conversants
-      const senderUri = inEnvelope.sender.speakerUri;
-      this._activeConversants.delete(senderUri);
-      if (this._currentSpeaker === senderUri) {
-        this._currentSpeaker = null;
+  private _handleFloorEvent(event: Event, inEnvelope: Envelope): Event[] {
+    const senderUri = inEnvelope.sender.speakerUri;
+
+    // Floor events are distinguished by eventType: their classes are structurally identical
+    switch (event.eventType) {
+      case 'bye':
+        // Remove agent from active conversants and pass the floor on
+        this._activeConversants.delete(senderUri);
+        this._withdrawRequest(senderUri);
+        return this._currentSpeaker === senderUri ? this._releaseFloor() : [];
+      case 'requestFloor':
+        return this._requestFloor(senderUri, event.reason);
+      case 'yieldFloor':
+        this._withdrawRequest(senderUri);
+        return this._currentSpeaker === senderUri ? this._releaseFloor() : [];
+      case 'grantFloor': {
+        const targetUri = event.to?.speakerUri;
+        if (targetUri === undefined || !this._policy.mayGrant?.(senderUri)) return [];
+
+        // The approved grantFloor event itself reaches the target through routing
+        this._withdrawRequest(targetUri);
+        const revoked = this._revokeHolder(targetUri);
+        this._setSpeaker(targetUri);
+        return revoked;
       }
-    } else if (isRequestFloorEvent(event)) {
-      // Grant floor automatically (minimal implementation)
-      const grantEvent = new GrantFloorEvent({
-        to: { speakerUri: inEnvelope.sender.speakerUri }
+    }
+    return [];
+  }
+
+  /**
+   * Apply the floor policy to a request for the floor
+   */
+  private _requestFloor(speakerUri: string, reason: string | undefined): Event[] {
+    if (this._currentSpeaker === speakerUri || this._floorQueue.some(r => r.speakerUri === speakerUri)) {
+      return [];
+    }
+
+    const request: FloorRequest = { speakerUri };
+    const manifest = this._activeConversants.get(speakerUri);
+    if (manifest !== undefined) request.manifest = manifest;
+    if (reason !== undefined) request.reason = reason;
+
+    switch (this._policy.onRequest(request, this._floorState())) {
+      case 'grant':
+        if (this._currentSpeaker !== null) break;
+        return this._grantFloor(speakerUri);
+      case 'override':
+        return [...this._revokeHolder(speakerUri), ...this._grantFloor(speakerUri)];
+    }
+
+    this._floorQueue.push(request);
+    return [];
+  }
+
+  /**
+   * Free the floor and grant it to the request chosen by the policy, if any
+   */
+  private _releaseFloor(): Event[] {
+    this._setSpeaker(null);
+
+    const request = this._policy.next(this._floorState());
+    if (!request) return [];
+
+    this._withdrawRequest(request.speakerUri);
+    return this._grantFloor(request.speakerUri);
+  }
+
+  /**
+   * Revoke the floor from the current holder with `@override`, unless it is the given speaker
+   */
+  private _revokeHolder(speakerUri: string): Event[] {
+    const holder = this._currentSpeaker;
+    if (holder === null || holder === speakerUri) return [];
+    return [new RevokeFloorEvent({ to: { speakerUri: holder }, reason: '@override' })];
+  }
+
+  private _grantFloor(speakerUri: string): Event[] {
+    this._setSpeaker(speakerUri);
+    return [new GrantFloorEvent({ to: { speakerUri } })];
+  }
+
+  private _setSpeaker(speakerUri: string | null): void {
+    if (this._currentSpeaker !== null) {
+      this._floorTimer.cancel(this._currentSpeaker);
+      this._previousSpeaker = this._currentSpeaker;
+    }
+    this._currentSpeaker = speakerUri;
+
+    if (speakerUri !== null && this._floorTimeout !== null) {
+      this._floorTimer.start(speakerUri, this._floorTimeout, () => this._floorTimedOut(speakerUri));
+    }
+  }
+
+  /**
+   * Revoke the floor from a speaker that held it too long and pass it on
+   */
+  private _floorTimedOut(speakerUri: string): void {
+    if (this._currentSpeaker !== speakerUri) return;
+
+    const events = [
+      new RevokeFloorEvent({ to: { speakerUri }, reason: TIMED_OUT }),
+      ...this._releaseFloor()
+    ];
+    this._onTimeout?.(events);
+  }
+
+  private _withdrawRequest(speakerUri: string): void {
+    this._floorQueue = this._floorQueue.filter(r => r.speakerUri !== speakerUri);
+  }
+
+  private _floorState(): FloorState {
+    return {
+      holder: this._currentSpeaker,
+      previousHolder: this._previousSpeaker,
+      queue: [...this._floorQueue],
+      conversants: Array.from(this._activeConversants.values())
+    };
+  }
+
+  /**
+   * Fan an envelope out into one envelope per active conversant
+   * The sender of the envelope receives nothing, and private events are only
+   * delivered to the conversant they are addressed to. Conversants left with
+   * no events to receive are skipped.
+   * 
+   * @param envelope - Envelope to route
+   * @returns One delivery per conversant that has events to receive
+   */
+  routeEnvelope(envelope: Envelope): EnvelopeDelivery[] {
+    const deliveries: EnvelopeDelivery[] = [];
+    const envelopeData = envelope.toObject();
+
+    for (const [speakerUri, manifest] of this._activeConversants) {
+      if (speakerUri === envelope.sender.speakerUri) continue;
+
+      const events = envelope.events.filter(event => !event.to?.private || isAddressedTo(event, manifest));
+      if (events.length === 0) continue;
+
+      deliveries.push({
+        recipient: manifest,
+        // The envelope was already accepted, including any extension events and fields
+        envelope: Envelope.fromObject({
+          ...envelopeData,
+          events: events.map(event => event.toObject())
+        }, { preserveUnknown: true })
       });
-      (outEnvelope as any)._events = [...outEnvelope.events, grantEvent];
-      this._currentSpeaker = inEnvelope.sender.speakerUri;
     }
 
-    (outEnvelope as any)._events = [...outEnvelope.events, event];
+    return deliveries;
+  }
+
+  /**
+   * Route an envelope and send each delivery through the configured transport
+   * Deliveries are sent concurrently; a failed delivery does not affect the others.
+   * 
+   * @param envelope - Envelope to route
+   * @returns Promise resolving to the outcome of every delivery
+   * @throws Error if no transport was configured
+   */
+  async dispatchEnvelope(envelope: Envelope): Promise<DeliveryResult[]> {
+    const transport = this._transport;
+    if (!transport) {
+      throw new Error('FloorManager.dispatchEnvelope requires a transport');
+    }
+
+    return Promise.all(this.routeEnvelope(envelope).map(async (delivery): Promise<DeliveryResult> => {
+      try {
+        return { ...delivery, response: await transport.send(delivery.envelope, delivery.recipient) };
+      } catch (error) {
+        return { ...delivery, error };
+      }
+    }));
   }
 
   /**
@@ -484,12 +1055,21 @@ export class FloorManager extends OpenFloorAgent {
    */
   removeConversant(speakerUri: string): void {
     this._activeConversants.delete(speakerUri);
+    this._withdrawRequest(speakerUri);
     if (this._currentSpeaker === speakerUri) {
-      this._currentSpeaker = null;
+      this._setSpeaker(null);
     }
   }
 }
 
+/**
+ * Check whether an event's `to` field addresses the agent with the given manifest
+ */
+function isAddressedTo(event: Event, manifest: Manifest): boolean {
+  const { speakerUri, serviceUrl } = manifest.identification;
+  return !!event.to && (event.to.speakerUri === speakerUri || event.to.serviceUrl === serviceUrl);
+}
+
 /**
  * Convener agent with special privileges for managing multi-party conversations
  * Extends BotAgent with floor management capabilities
@@ -503,19 +1083,87 @@ export class FloorManager extends OpenFloorAgent {
  *     organization: 'Example Corp',
  *     conversationalName: 'Convener'
  *   }
- * });
+ * }, { floorTimeout: 30000, onTimeout: events => sendEvents(events) });
  * 
- * await convener.grantFloor('tag:example.com,2025:agent1');
+ * const grant = convener.grantFloor('tag:example.com,2025:agent1');
  * ```
  */
 export class ConvenerAgent extends BotAgent {
+  private readonly _floorTimeout: number | null;
+  private readonly _inviteTimeout: number | null;
+  private readonly _floorTimers: TimeoutTracker<string>;
+  private readonly _inviteTimers: TimeoutTracker<string>;
+  private readonly _onTimeout: ((events: readonly Event[]) => void) | null;
+  private _pendingInvites = new Map<string, ToOptions>();
+
+  /**
+   * Creates a new ConvenerAgent instance
+   * @param manifest - Agent manifest
+   * @param options - Convener options
+   */
+  constructor(manifest: ManifestOptions, options: ConvenerAgentOptions = {}) {
+    super(manifest, options);
+    this._floorTimeout = options.floorTimeout ?? null;
+    this._inviteTimeout = options.inviteTimeout ?? null;
+    this._floorTimers = new TimeoutTracker(options.clock);
+    this._inviteTimers = new TimeoutTracker(options.clock);
+    this._onTimeout = options.onTimeout ?? null;
+    this.on('envelope', this._trackResponses.bind(this));
+    this.on('declineInvite', (event, context) => this.inviteDeclined(event, context));
+  }
+
+  /**
+   * Get service URLs of invited agents that have not responded yet
+   */
+  get pendingInvites(): readonly string[] {
+    return Array.from(this._pendingInvites.keys());
+  }
+
+  /**
+   * Cancel the timeouts of agents that have responded, yielded the floor or left
+   */
+  private _trackResponses(inEnvelope: Envelope): void {
+    const { speakerUri, serviceUrl } = inEnvelope.sender;
+
+    for (const [inviteUrl, to] of this._pendingInvites) {
+      if (inviteUrl === serviceUrl || (to.speakerUri !== undefined && to.speakerUri === speakerUri)) {
+        this._cancelInvite(inviteUrl);
+      }
+    }
+
+    if (inEnvelope.events.some(e => e.eventType === 'yieldFloor' || e.eventType === 'bye')) {
+      this._floorTimers.cancel(speakerUri);
+    }
+  }
+
+  private _cancelInvite(serviceUrl: string): void {
+    this._inviteTimers.cancel(serviceUrl);
+    this._pendingInvites.delete(serviceUrl);
+  }
+
+  /**
+   * React to an invited agent declining its invite
+   * The invite is no longer pending when this is called; the declining agent is
+   * the sender of `context.inEnvelope`. The default does nothing.
+   * @param event - declineInvite event received
+   * @param context - Processing context
+   */
+  protected async inviteDeclined(event: DeclineInviteEvent, context: AgentEventContext): Promise<void> {}
+
   /**
    * Grant the floor to a specific agent
+   * Starts the floor timeout for the agent, if one is configured.
    * @param speakerUri - URI of agent to grant floor to
    * @param reason - Optional reason for granting floor
    * @returns GrantFloorEvent that can be sent
    */
   grantFloor(speakerUri: string, reason?: string): GrantFloorEvent {
+    if (this._floorTimeout !== null) {
+      this._floorTimers.start(speakerUri, this._floorTimeout, () => {
+        this._onTimeout?.([this.revokeFloor(speakerUri, TIMED_OUT)]);
+      });
+    }
+
     const options: { to?: ToOptions; reason?: string } = { to: { speakerUri } };
     if (reason !== undefined) options.reason = reason;
     return new GrantFloorEvent(options);
@@ -528,6 +1176,8 @@ export class ConvenerAgent extends BotAgent {
    * @returns RevokeFloorEvent that can be sent
    */
   revokeFloor(speakerUri: string, reason?: string): RevokeFloorEvent {
+    this._floorTimers.cancel(speakerUri);
+
     const options: { to?: ToOptions; reason?: string } = { to: { speakerUri } };
     if (reason !== undefined) options.reason = reason;
     return new RevokeFloorEvent(options);
@@ -540,6 +1190,11 @@ export class ConvenerAgent extends BotAgent {
    * @returns UninviteEvent that can be sent
    */
   uninviteAgent(speakerUri: string, reason?: string): UninviteEvent {
+    this._floorTimers.cancel(speakerUri);
+    for (const [inviteUrl, to] of this._pendingInvites) {
+      if (to.speakerUri === speakerUri) this._cancelInvite(inviteUrl);
+    }
+
     const options: { to?: ToOptions; reason?: string } = { to: { speakerUri } };
     if (reason !== undefined) options.reason = reason;
     return new UninviteEvent(options);
@@ -547,6 +1202,7 @@ export class ConvenerAgent extends BotAgent {
 
   /**
    * Invite an agent to join the conversation
+   * Tracks the invite as pending and starts the invite timeout, if one is configured.
    * @param serviceUrl - Service URL of agent to invite
    * @param speakerUri - Optional specific speaker URI
    * @param reason - Optional reason for invitation
@@ -555,8 +1211,17 @@ export class ConvenerAgent extends BotAgent {
   inviteAgent(serviceUrl: string, speakerUri?: string, reason?: string): InviteEvent {
     const to: ToOptions = { serviceUrl };
     if (speakerUri !== undefined) to.speakerUri = speakerUri;
+
+    this._pendingInvites.set(serviceUrl, to);
+    if (this._inviteTimeout !== null) {
+      this._inviteTimers.start(serviceUrl, this._inviteTimeout, () => {
+        this._pendingInvites.delete(serviceUrl);
+        this._onTimeout?.([new UninviteEvent({ to: { ...to }, reason: TIMED_OUT })]);
+      });
+    }
+
     const options: { to?: ToOptions; reason?: string } = { to };
     if (reason !== undefined) options.reason = reason;
     return new InviteEvent(options);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Base event and event targeting classes for the Open Floor Protocol
+ * Kept separate from the envelope module so typed event subclasses can extend Event
+ * while the envelope hydrates them without a circular class dependency
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import {
+    ToOptions,
+    BaseEventOptions,
+    ExtensionEventOptions,
+    ParseOptions,
+    JsonSerializable
+  } from './types';
+  import { appendExtensions } from './utils';
+  import { eventTypeRegistry } from './event-registry';
+  import { toCodec, eventCodec } from './codecs';
+  
+  /**
+   * Represents targeting information for events (who the event is addressed to)
+   * 
+   * @example
+   * ```typescript
+   * // Address to specific agent
+   * const to1 = new To({
+   *   speakerUri: 'tag:example.com,2025:agent1'
+   * });
+   * 
+   * // Private message to specific service
+   * const to2 = new To({
+   *   serviceUrl: 'https://example.com/agent',
+   *   private: true
+   * });
+   * ```
+   */
+  export class To implements JsonSerializable {
+    readonly speakerUri?: string;
+    readonly serviceUrl?: string;
+    readonly private: boolean;
+    /** Properties not defined by the specification */
+    readonly extensions: Readonly<Record<string, unknown>>;
+  
+    /**
+     * Creates a new To instance
+     * @param options - To configuration options
+     * @throws Error if neither speakerUri nor serviceUrl is provided
+     */
+    constructor(options: ToOptions) {
+      const { speakerUri, serviceUrl, private: isPrivate, extensions = {} } = options;
+      if (!speakerUri && !serviceUrl) {
+        throw new Error('To requires at least speakerUri or serviceUrl');
+      }
+      if (speakerUri !== undefined) this.speakerUri = speakerUri;
+      if (serviceUrl !== undefined) this.serviceUrl = serviceUrl;
+      this.private = !!isPrivate;
+      this.extensions = Object.freeze({ ...extensions });
+    }
+  
+    toObject(): Record<string, unknown> {
+      const result: Record<string, unknown> = {};
+  
+      if (this.speakerUri) {
+        result.speakerUri = this.speakerUri;
+      }
+      if (this.serviceUrl) {
+        result.serviceUrl = this.serviceUrl;
+      }
+      if (this.private) {
+        result.private = this.private;
+      }
+  
+      return appendExtensions(result, this.extensions);
+    }
+  
+    toJSON(): string {
+      return JSON.stringify(this.toObject());
+    }
+  
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): To {
+      return new To(toCodec.decode(data, parseOptions));
+    }
+  }
+  
+  /**
+   * Base class for all Open Floor Protocol events
+   * 
+   * @example
+   * ```typescript
+   * const event = new Event({
+   *   eventType: 'utterance',
+   *   to: { speakerUri: 'tag:example.com,2025:agent1' },
+   *   reason: 'User query',
+   *   parameters: { dialogEvent: {...} }
+   * });
+   * ```
+   */
+  export class Event implements JsonSerializable {
+    readonly eventType: string;
+    readonly to?: To;
+    readonly reason?: string;
+    readonly parameters: Record<string, unknown>;
+    /** Properties not defined by the specification */
+    readonly extensions: Readonly<Record<string, unknown>>;
+  
+    /**
+     * Creates a new Event instance
+     * @param options - Event configuration options
+     * @throws Error if eventType is missing or invalid
+     */
+    constructor(options: BaseEventOptions) {
+      if (!options.eventType || !this.acceptsEventType(options.eventType)) {
+        throw new Error(`Invalid eventType: ${options.eventType}`);
+      }
+      const { eventType, to, reason, parameters, extensions = {} } = options;
+      this.eventType = eventType as string;
+      if (to !== undefined) this.to = new To(to);
+      if (reason !== undefined) this.reason = reason;
+      this.parameters = parameters ? { ...parameters } : {};
+      this.extensions = Object.freeze({ ...extensions });
+    }
+  
+    /**
+     * Whether instances of this class may carry an event type
+     * @param eventType - Event type passed to the constructor
+     */
+    protected acceptsEventType(eventType: string): boolean {
+      return eventTypeRegistry.isKnown(eventType);
+    }
+  
+    toObject(): Record<string, unknown> {
+      const result: Record<string, unknown> = { eventType: this.eventType };
+  
+      if (this.to) {
+        result.to = this.to.toObject();
+      }
+      if (this.reason) {
+        result.reason = this.reason;
+      }
+      if (Object.keys(this.parameters).length > 0) {
+        result.parameters = { ...this.parameters };
+      }
+  
+      return appendExtensions(result, this.extensions);
+    }
+  
+    toJSON(): string {
+      return JSON.stringify(this.toObject());
+    }
+  
+    /**
+     * Creates an Event from its serialized form
+     * @param data - Serialized event
+     * @param parseOptions - With `preserveUnknown`, event types that are neither defined by the
+     *   specification nor registered are returned as an ExtensionEvent instead of being rejected
+     */
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): Event {
+      const options = eventCodec.decode(data, parseOptions);
+      return eventTypeRegistry.isKnown(options.eventType)
+        ? new Event(options as BaseEventOptions)
+        : new ExtensionEvent(options);
+    }
+  }
+  
+  /**
+   * An event whose type is not defined by the specification, such as a partner's
+   * experimental event. Created when parsing with `preserveUnknown`; its parameters
+   * are kept as they were received.
+   * 
+   * @example
+   * ```typescript
+   * const event = new ExtensionEvent({
+   *   eventType: 'x-acme-handoff',
+   *   parameters: { queue: 'billing' }
+   * });
+   * ```
+   */
+  export class ExtensionEvent extends Event {
+    /**
+     * Creates a new ExtensionEvent instance
+     * @param options - ExtensionEvent configuration options
+     */
+    constructor(options: ExtensionEventOptions) {
+      super(options as BaseEventOptions);
+    }
+  
+    protected acceptsEventType(eventType: string): boolean {
+      return eventType.length > 0;
+    }
+  }
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview HTTP client for the Open Floor Protocol
+ * Sends envelopes to an agent's serviceUrl and parses the response payload
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import { AgentClientOptions, AgentRequestOptions } from './types';
+import { Envelope, Identification, Manifest, Payload } from './envelope';
+
+const DEFAULT_RETRY_DELAY = 500;
+
+/**
+ * Error for failed attempts that may succeed when retried
+ */
+class RetryableError extends Error {}
+
+/**
+ * HTTP client that delivers envelopes to remote agents using fetch
+ * Retries network errors, timeouts and 5xx responses with exponential backoff.
+ * Runtimes without a global fetch (Node.js before 18) must pass one in the options.
+ *
+ * @example
+ * ```typescript
+ * const client = new AgentClient({
+ *   timeout: 5000,
+ *   retries: 2,
+ *   headers: { Authorization: 'Bearer token' }
+ * });
+ *
+ * const response = await client.send(envelope, weatherBotManifest);
+ * for (const event of response.events) {
+ *   if (isUtteranceEvent(event)) console.log(event.dialogEvent);
+ * }
+ * ```
+ */
+export class AgentClient {
+  private readonly _options: AgentClientOptions;
+  private readonly _fetch: typeof fetch;
+
+  /**
+   * Creates a new AgentClient instance
+   * @param options - Client configuration options
+   * @throws Error if no fetch is given and the runtime has no global fetch
+   */
+  constructor(options: AgentClientOptions = {}) {
+    // Browsers require the global fetch to be called with globalThis as its receiver
+    const fetchImpl = options.fetch ?? (typeof globalThis.fetch === 'function' ? globalThis.fetch.bind(globalThis) : undefined);
+    if (!fetchImpl) {
+      throw new Error('AgentClient requires a fetch implementation: pass options.fetch on runtimes without a global fetch');
+    }
+    this._options = { ...options };
+    this._fetch = fetchImpl;
+  }
+
+  /**
+   * Send an envelope to an agent and return its response envelope
+   * Events in the response are hydrated into their typed event classes
+   *
+   * @param envelope - Envelope to send
+   * @param target - Manifest or identification of the receiving agent
+   * @param options - Per-request options
+   * @returns Promise resolving to the agent's response envelope
+   * @throws Error if the request fails after all retries, is aborted, or the response is not a valid payload
+   */
+  async send(envelope: Envelope, target: Manifest | Identification, options: AgentRequestOptions = {}): Promise<Envelope> {
+    const identification = target instanceof Manifest ? target.identification : target;
+    const { retries = 0, retryDelay = DEFAULT_RETRY_DELAY } = this._options;
+    const body = envelope.toPayload().toJSON();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const text = await this._post(identification.serviceUrl, body, options);
+        return Payload.fromJSON(text).openFloor;
+      } catch (error) {
+        if (!(error instanceof RetryableError) || attempt >= retries) {
+          throw error;
+        }
+        await delay(retryDelay * 2 ** attempt, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Perform a single POST attempt and return the response body
+   */
+  private async _post(url: string, body: string, options: AgentRequestOptions): Promise<string> {
+    const { signal } = options;
+    throwIfAborted(signal);
+
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort(abortReason(signal));
+    signal?.addEventListener('abort', onAbort);
+    let timedOut = false;
+    const timer = this._options.timeout !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, this._options.timeout)
+      : undefined;
+
+    try {
+      let response: Response;
+      let text: string;
+      try {
+        response = await this._fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
+            ...this._options.headers,
+            ...options.headers
+          },
+          body,
+          signal: controller.signal
+        });
+        text = await response.text();
+      } catch (error) {
+        if (timedOut) {
+          throw new RetryableError(`Request to ${url} timed out after ${this._options.timeout}ms`);
+        }
+        if (signal?.aborted) {
+          throw error;
+        }
+        throw new RetryableError(`Request to ${url} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      if (response.status >= 500) {
+        throw new RetryableError(`Agent at ${url} responded with ${response.status}: ${text}`);
+      }
+      if (!response.ok) {
+        throw new Error(`Agent at ${url} responded with ${response.status}: ${text}`);
+      }
+      return text;
+    } finally {
+      if (timer !== undefined) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/**
+ * Wait for the given number of milliseconds, rejecting early if the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(abortReason(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Throw the abort reason if the signal has aborted
+ * Stands in for AbortSignal.throwIfAborted(), which Node.js only has since 17.3.
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortReason(signal);
+}
+
+/**
+ * Reason a signal aborted with, or an AbortError on runtimes whose signals carry no reason
+ */
+function abortReason(signal?: AbortSignal): unknown {
+  if (signal?.reason !== undefined) return signal.reason;
+  const error = new Error('This operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,378 @@
+/**
+ * @fileoverview Codecs between the serialized and constructor forms of Open Floor models
+ * Every model class parses and copies itself through these codecs, so required fields,
+ * error messages and the handling of unknown properties are the same on every path
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import {
+  SchemaOptions,
+  IdentificationOptions,
+  SupportedLayersOptions,
+  CapabilityOptions,
+  ManifestOptions,
+  ConversantOptions,
+  ConversationOptions,
+  SenderOptions,
+  ToOptions,
+  ExtensionEventOptions,
+  EnvelopeOptions,
+  PayloadOptions,
+  ParseOptions
+} from './types';
+import type {
+  Schema,
+  Identification,
+  SupportedLayers,
+  Capability,
+  Manifest,
+  Conversant,
+  Conversation,
+  Sender,
+  Envelope,
+  Payload
+} from './envelope';
+import type { To, Event } from './base-event';
+import { hasRequiredProperties, unknownProperties } from './utils';
+import { eventTypeRegistry } from './event-registry';
+
+/**
+ * Converts between the serialized form of a model and its constructor options
+ * `decode` checks the fields required to construct the model; the constructor
+ * validates their values.
+ */
+export interface Codec<T, O> {
+  /**
+   * Convert a serialized object into constructor options
+   * @param data - Serialized object, as produced by `toObject()`
+   * @param parseOptions - `preserveUnknown` keeps unknown properties as extensions;
+   *   `strict: false` skips malformed array entries instead of failing
+   * @throws Error if required fields are missing
+   */
+  decode(data: Record<string, unknown>, parseOptions?: ParseOptions): O;
+  /**
+   * Convert an instance into options that construct an equal instance
+   */
+  encode(value: T): O;
+}
+
+/**
+ * Fields that events of every type share
+ */
+export type EventBaseOptions = Pick<ExtensionEventOptions, 'to' | 'reason' | 'extensions'>;
+
+const IDENTIFICATION_REQUIRED = ['speakerUri', 'serviceUrl', 'organization', 'conversationalName', 'synopsis'];
+
+export const schemaCodec: Codec<Schema, SchemaOptions> = {
+  decode(data, parseOptions = {}) {
+    if (!hasRequiredProperties(data, ['version'])) {
+      throw new Error('Schema requires version');
+    }
+    return {
+      version: data.version as string,
+      ...(data.url !== undefined ? { url: data.url as string } : {}),
+      ...preserved(data, ['version', 'url'], parseOptions)
+    };
+  },
+  encode(schema) {
+    return {
+      version: schema.version,
+      ...(schema.url ? { url: schema.url } : {}),
+      ...extensionsOf(schema.extensions)
+    };
+  }
+};
+
+export const identificationCodec: Codec<Identification, IdentificationOptions> = {
+  decode(data, parseOptions = {}) {
+    if (!hasRequiredProperties(data, IDENTIFICATION_REQUIRED)) {
+      throw new Error('Identification requires speakerUri, serviceUrl, organization, conversationalName, and synopsis');
+    }
+    return {
+      speakerUri: data.speakerUri as string,
+      serviceUrl: data.serviceUrl as string,
+      organization: data.organization as string,
+      conversationalName: data.conversationalName as string,
+      synopsis: data.synopsis as string,
+      ...(data.department !== undefined ? { department: data.department as string } : {}),
+      ...(data.role !== undefined ? { role: data.role as string } : {}),
+      ...preserved(data, [...IDENTIFICATION_REQUIRED, 'department', 'role'], parseOptions)
+    };
+  },
+  encode(identification) {
+    return {
+      speakerUri: identification.speakerUri,
+      serviceUrl: identification.serviceUrl,
+      organization: identification.organization as string,
+      conversationalName: identification.conversationalName as string,
+      synopsis: identification.synopsis as string,
+      ...(identification.department !== undefined ? { department: identification.department } : {}),
+      ...(identification.role !== undefined ? { role: identification.role } : {}),
+      ...extensionsOf(identification.extensions)
+    };
+  }
+};
+
+export const supportedLayersCodec: Codec<SupportedLayers, SupportedLayersOptions> = {
+  decode(data) {
+    return {
+      ...(Array.isArray(data.input) ? { input: data.input as string[] } : {}),
+      ...(Array.isArray(data.output) ? { output: data.output as string[] } : {})
+    };
+  },
+  encode(supportedLayers) {
+    return { input: [...supportedLayers.input], output: [...supportedLayers.output] };
+  }
+};
+
+export const capabilityCodec: Codec<Capability, CapabilityOptions> = {
+  decode(data) {
+    if (!hasRequiredProperties(data, ['keyphrases', 'descriptions'])) {
+      throw new Error('Capability requires keyphrases and descriptions');
+    }
+    return {
+      keyphrases: data.keyphrases as string[],
+      descriptions: data.descriptions as string[],
+      ...(data.languages !== undefined ? { languages: data.languages as string[] } : {}),
+      ...(isObject(data.supportedLayers) ? { supportedLayers: supportedLayersCodec.decode(data.supportedLayers) } : {})
+    };
+  },
+  encode(capability) {
+    return {
+      keyphrases: [...capability.keyphrases],
+      descriptions: [...capability.descriptions],
+      ...(capability.languages ? { languages: [...capability.languages] } : {}),
+      supportedLayers: supportedLayersCodec.encode(capability.supportedLayers)
+    };
+  }
+};
+
+export const manifestCodec: Codec<Manifest, ManifestOptions> = {
+  decode(data, parseOptions = {}) {
+    if (!hasRequiredProperties(data, ['identification', 'capabilities'])) {
+      throw new Error('Manifest requires identification and capabilities');
+    }
+    return {
+      identification: identificationCodec.decode(data.identification as Record<string, unknown>, parseOptions),
+      capabilities: decodeEach(data.capabilities, capabilityCodec, parseOptions)
+    };
+  },
+  encode(manifest) {
+    return {
+      identification: identificationCodec.encode(manifest.identification),
+      capabilities: manifest.capabilities.map(capabilityCodec.encode)
+    };
+  }
+};
+
+export const conversantCodec: Codec<Conversant, ConversantOptions> = {
+  decode(data, parseOptions = {}) {
+    if (!hasRequiredProperties(data, ['identification'])) {
+      throw new Error('Conversant requires identification');
+    }
+    return {
+      identification: identificationCodec.decode(data.identification as Record<string, unknown>, parseOptions),
+      ...(data.persistentState !== undefined ? { persistentState: data.persistentState as Record<string, unknown> } : {}),
+      ...preserved(data, ['identification', 'persistentState'], parseOptions)
+    };
+  },
+  encode(conversant) {
+    return {
+      identification: identificationCodec.encode(conversant.identification),
+      ...(Object.keys(conversant.persistentState).length > 0 ? { persistentState: { ...conversant.persistentState } } : {}),
+      ...extensionsOf(conversant.extensions)
+    };
+  }
+};
+
+export const conversationCodec: Codec<Conversation, ConversationOptions> = {
+  decode(data, parseOptions = {}) {
+    if (!hasRequiredProperties(data, ['id'])) {
+      throw new Error('Conversation requires id');
+    }
+    return {
+      id: data.id as string,
+      ...(Array.isArray(data.conversants) ? { conversants: decodeEach(data.conversants, conversantCodec, parseOptions) } : {}),
+      ...preserved(data, ['id', 'conversants'], parseOptions)
+    };
+  },
+  encode(conversation) {
+    return {
+      id: conversation.id,
+      ...(conversation.conversants.length > 0 ? { conversants: conversation.conversants.map(conversantCodec.encode) } : {}),
+      ...extensionsOf(conversation.extensions)
+    };
+  }
+};
+
+export const senderCodec: Codec<Sender, SenderOptions> = {
+  decode(data, parseOptions = {}) {
+    if (!hasRequiredProperties(data, ['speakerUri'])) {
+      throw new Error('Sender requires speakerUri');
+    }
+    return {
+      speakerUri: data.speakerUri as string,
+      ...(data.serviceUrl !== undefined ? { serviceUrl: data.serviceUrl as string } : {}),
+      ...preserved(data, ['speakerUri', 'serviceUrl'], parseOptions)
+    };
+  },
+  encode(sender) {
+    return {
+      speakerUri: sender.speakerUri,
+      ...(sender.serviceUrl ? { serviceUrl: sender.serviceUrl } : {}),
+      ...extensionsOf(sender.extensions)
+    };
+  }
+};
+
+export const toCodec: Codec<To, ToOptions> = {
+  decode(data, parseOptions = {}) {
+    if (!data.speakerUri && !data.serviceUrl) {
+      throw new Error('To requires at least speakerUri or serviceUrl');
+    }
+    return {
+      ...(data.speakerUri !== undefined ? { speakerUri: data.speakerUri as string } : {}),
+      ...(data.serviceUrl !== undefined ? { serviceUrl: data.serviceUrl as string } : {}),
+      ...(data.private !== undefined ? { private: data.private as boolean } : {}),
+      ...preserved(data, ['speakerUri', 'serviceUrl', 'private'], parseOptions)
+    };
+  },
+  encode(to) {
+    return {
+      ...(to.speakerUri !== undefined ? { speakerUri: to.speakerUri } : {}),
+      ...(to.serviceUrl !== undefined ? { serviceUrl: to.serviceUrl } : {}),
+      ...(to.private ? { private: true } : {}),
+      ...extensionsOf(to.extensions)
+    };
+  }
+};
+
+/**
+ * Codec for events of any type; typed events keep their parameters as serialized data
+ * Event types that are neither defined by the specification nor registered are
+ * rejected unless unknown properties are preserved.
+ */
+export const eventCodec: Codec<Event, ExtensionEventOptions> = {
+  decode(data, parseOptions = {}) {
+    if (!hasRequiredProperties(data, ['eventType'])) {
+      throw new Error('Event requires eventType');
+    }
+    const eventType = data.eventType as string;
+    if (!eventTypeRegistry.isKnown(eventType) && !parseOptions.preserveUnknown) {
+      throw new Error('Invalid eventType');
+    }
+    const { to, reason, extensions } = decodeEventBase(data, parseOptions);
+    return {
+      eventType,
+      ...(to !== undefined ? { to } : {}),
+      ...(reason !== undefined ? { reason } : {}),
+      ...(isObject(data.parameters) ? { parameters: data.parameters } : {}),
+      ...(extensions !== undefined ? { extensions } : {})
+    };
+  },
+  encode(event) {
+    return {
+      eventType: event.eventType,
+      ...(event.to ? { to: toCodec.encode(event.to) } : {}),
+      ...(event.reason ? { reason: event.reason } : {}),
+      parameters: event.parameters,
+      ...extensionsOf(event.extensions)
+    };
+  }
+};
+
+export const envelopeCodec: Codec<Envelope, EnvelopeOptions> = {
+  decode(data, parseOptions = {}) {
+    if (!hasRequiredProperties(data, ['schema', 'conversation', 'sender', 'events'])) {
+      throw new Error('Envelope requires schema, conversation, sender, and events');
+    }
+    return {
+      schema: schemaCodec.decode(data.schema as Record<string, unknown>, parseOptions),
+      conversation: conversationCodec.decode(data.conversation as Record<string, unknown>, parseOptions),
+      sender: senderCodec.decode(data.sender as Record<string, unknown>, parseOptions),
+      events: decodeEach(data.events, eventCodec, parseOptions),
+      ...preserved(data, ['schema', 'conversation', 'sender', 'events'], parseOptions)
+    };
+  },
+  encode(envelope) {
+    return {
+      schema: schemaCodec.encode(envelope.schema),
+      conversation: conversationCodec.encode(envelope.conversation),
+      sender: senderCodec.encode(envelope.sender),
+      events: envelope.events.map(eventCodec.encode),
+      ...extensionsOf(envelope.extensions)
+    };
+  }
+};
+
+export const payloadCodec: Codec<Payload, PayloadOptions> = {
+  decode(data, parseOptions = {}) {
+    if (!hasRequiredProperties(data, ['openFloor'])) {
+      throw new Error('Payload requires openFloor');
+    }
+    return { openFloor: envelopeCodec.decode(data.openFloor as Record<string, unknown>, parseOptions) };
+  },
+  encode(payload) {
+    return { openFloor: envelopeCodec.encode(payload.openFloor) };
+  }
+};
+
+/**
+ * Decode the fields that events of every type share
+ * Typed events decode their parameters themselves and use this for the rest.
+ * @param data - Serialized event
+ * @param parseOptions - Parse options
+ */
+export function decodeEventBase(data: Record<string, unknown>, parseOptions: ParseOptions = {}): EventBaseOptions {
+  const options: EventBaseOptions = {};
+  if (isObject(data.to)) options.to = toCodec.decode(data.to, parseOptions);
+  if (typeof data.reason === 'string') options.reason = data.reason;
+  const extensions = preserved(data, ['eventType', 'to', 'reason', 'parameters'], parseOptions);
+  if (extensions.extensions) options.extensions = extensions.extensions;
+  return options;
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Decode the entries of an array, skipping malformed entries unless parsing is strict
+ */
+function decodeEach<O>(items: unknown, codec: Codec<any, O>, parseOptions: ParseOptions): O[] {
+  if (!Array.isArray(items)) return [];
+
+  const decoded: O[] = [];
+  for (const item of items) {
+    try {
+      decoded.push(codec.decode(isObject(item) ? item : {}, parseOptions));
+    } catch (error) {
+      if (parseOptions.strict !== false) throw error;
+    }
+  }
+  return decoded;
+}
+
+/**
+ * Options holding the unknown properties of serialized data, if they are preserved and there are any
+ */
+function preserved(
+  data: Record<string, unknown>,
+  knownProps: readonly string[],
+  parseOptions: ParseOptions
+): { extensions?: Record<string, unknown> } {
+  const extensions = parseOptions.preserveUnknown ? unknownProperties(data, knownProps) : undefined;
+  return extensions ? { extensions } : {};
+}
+
+/**
+ * Options holding the extensions of an instance, if it has any
+ */
+function extensionsOf(extensions: Readonly<Record<string, unknown>>): { extensions?: Record<string, unknown> } {
+  return Object.keys(extensions).length > 0 ? { extensions: { ...extensions } } : {};
+}
@@ -0,0 +1,310 @@
+/**
+ * @fileoverview Streaming of dialog events that are still being produced
+ * Producers emit deltas that add or revise tokens under the id of one dialog event,
+ * and accumulators merge the deltas back into that dialog event
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import {
+  SpanOptions,
+  TokenOptions,
+  FeatureOptions,
+  FeatureDelta,
+  DialogEventDelta,
+  DialogEventProducerOptions
+} from './types';
+import { DialogEvent, createFeature } from './dialog-event';
+import { generateUUID } from './utils';
+
+/**
+ * Merges the deltas of one dialog event into a DialogEvent
+ * Deltas may arrive out of order: later deltas wait until the missing ones arrive, and
+ * repeated deltas are ignored. Until the final delta, `snapshot()` returns the interim
+ * dialog event, which is a complete dialog event that can be shown or sent as is.
+ *
+ * @example
+ * ```typescript
+ * const accumulator = new DialogEventAccumulator();
+ * socket.on('delta', delta => {
+ *   accumulator.push(delta);
+ *   showInterimText(accumulator.snapshot());
+ *   if (accumulator.done) send(new UtteranceEvent({ dialogEvent: accumulator.result().toObject() as any }));
+ * });
+ * ```
+ */
+export class DialogEventAccumulator {
+  private _id?: string;
+  private _next = 0;
+  private _done = false;
+  private readonly _pending = new Map<number, DialogEventDelta>();
+  private _speakerUri?: string;
+  private _span: SpanOptions = {};
+  private _previousId?: string;
+  private _context?: string;
+  private readonly _features = new Map<string, FeatureOptions>();
+
+  /**
+   * Creates a new DialogEventAccumulator instance
+   * @param id - Id of the dialog event to accept deltas for (default: the id of the first delta)
+   */
+  constructor(id?: string) {
+    if (id !== undefined) this._id = id;
+  }
+
+  /**
+   * Id of the dialog event, once known
+   */
+  get id(): string | undefined {
+    return this._id;
+  }
+
+  /**
+   * Whether the first delta has been applied
+   */
+  get started(): boolean {
+    return this._next > 0;
+  }
+
+  /**
+   * Whether the final delta has been applied
+   */
+  get done(): boolean {
+    return this._done;
+  }
+
+  /**
+   * Add a delta, applying it and any waiting deltas that follow it
+   * @param delta - Delta of the dialog event
+   * @throws Error if the delta belongs to another dialog event, arrives after the final
+   * delta, or cannot be applied
+   */
+  push(delta: DialogEventDelta): void {
+    if (this._id !== undefined && delta.id !== this._id) {
+      throw new Error(`Delta for dialog event ${delta.id} pushed to the accumulator of ${this._id}`);
+    }
+    this._id = delta.id;
+    if (delta.sequence < this._next) {
+      return;
+    }
+    if (this._done) {
+      throw new Error(`Dialog event ${delta.id} is already final`);
+    }
+    if (!Number.isInteger(delta.sequence)) {
+      throw new Error(`Invalid delta sequence: ${delta.sequence}`);
+    }
+
+    this._pending.set(delta.sequence, delta);
+    for (let next = this._pending.get(this._next); next && !this._done; next = this._pending.get(this._next)) {
+      this._pending.delete(this._next);
+      this._apply(next);
+      this._next++;
+    }
+  }
+
+  /**
+   * The dialog event as far as it has been produced
+   * @throws Error if the first delta has not been applied yet
+   */
+  snapshot(): DialogEvent {
+    if (!this.started) {
+      throw new Error('No delta of the dialog event has been applied yet');
+    }
+    return new DialogEvent({
+      id: this._id!,
+      speakerUri: this._speakerUri!,
+      span: this._span,
+      features: Object.fromEntries(this._features),
+      ...(this._previousId !== undefined ? { previousId: this._previousId } : {}),
+      ...(this._context !== undefined ? { context: this._context } : {})
+    });
+  }
+
+  /**
+   * The final dialog event
+   * @throws Error if the final delta has not been applied yet
+   */
+  result(): DialogEvent {
+    if (!this._done) {
+      throw new Error('The dialog event is still being produced');
+    }
+    return this.snapshot();
+  }
+
+  /**
+   * Apply the next delta in sequence
+   */
+  private _apply(delta: DialogEventDelta): void {
+    if (this._next === 0 && !delta.speakerUri) {
+      throw new Error('The first delta of a dialog event requires speakerUri');
+    }
+
+    // Check all features before changing anything, so a rejected delta leaves no trace
+    const features = Object.entries(delta.features ?? {}).map(([name, featureDelta]) => {
+      const feature = applyFeatureDelta(name, this._features.get(name), featureDelta);
+      // Same rules as snapshot(), which hydrates the features by MIME type
+      createFeature(feature);
+      return [name, feature] as const;
+    });
+
+    if (delta.speakerUri !== undefined) this._speakerUri = delta.speakerUri;
+    if (delta.span !== undefined) this._span = { ...this._span, ...delta.span };
+    if (delta.previousId !== undefined) this._previousId = delta.previousId;
+    if (delta.context !== undefined) this._context = delta.context;
+    for (const [name, feature] of features) {
+      this._features.set(name, feature);
+    }
+    if (delta.final) this._done = true;
+  }
+}
+
+/**
+ * Produces a dialog event incrementally, as deltas for a DialogEventAccumulator
+ * Each method returns the delta it emits and passes it to `onDelta`. The first delta
+ * carries the speaker, span and references of the dialog event.
+ *
+ * @example
+ * ```typescript
+ * const producer = new DialogEventProducer({ speakerUri, onDelta: delta => socket.emit('delta', delta) });
+ * producer.appendTokens('text', [{ value: 'Book a' }]);
+ * producer.reviseTokens('text', 0, [{ value: 'Book a table', confidence: 0.9 }]);
+ * producer.finish({ endTime: new Date() });
+ * ```
+ */
+export class DialogEventProducer {
+  readonly id: string;
+  private readonly _accumulator: DialogEventAccumulator;
+  private readonly _header: Omit<DialogEventDelta, 'id' | 'sequence'>;
+  private readonly _onDelta?: (delta: DialogEventDelta) => void;
+  private readonly _featureNames = new Set<string>();
+  private _sequence = 0;
+
+  /**
+   * Creates a new DialogEventProducer instance
+   * @param options - Dialog event properties; the id defaults to a new UUID and the span to one starting now
+   */
+  constructor(options: DialogEventProducerOptions) {
+    const { id = generateUUID(), speakerUri, span = { startTime: new Date() }, previousId, context, onDelta } = options;
+    if (!speakerUri) throw new Error('DialogEventProducer.speakerUri is required');
+    this.id = id;
+    this._accumulator = new DialogEventAccumulator(id);
+    this._header = { speakerUri, span };
+    if (previousId !== undefined) this._header.previousId = previousId;
+    if (context !== undefined) this._header.context = context;
+    if (onDelta !== undefined) this._onDelta = onDelta;
+  }
+
+  /**
+   * Whether the final delta has been emitted
+   */
+  get done(): boolean {
+    return this._accumulator.done;
+  }
+
+  /**
+   * Add tokens after the last token of a feature
+   * @param featureName - Name of the feature (e.g. "text")
+   * @param tokens - Tokens to add
+   * @param feature - Feature properties; the MIME type defaults to text/plain for a new feature
+   */
+  appendTokens(featureName: string, tokens: TokenOptions[], feature: Omit<FeatureDelta, 'tokens' | 'replaceFrom'> = {}): DialogEventDelta {
+    return this._emit({ features: { [featureName]: this._featureDelta(featureName, { ...feature, tokens }) } });
+  }
+
+  /**
+   * Replace the tokens of a feature from an index on, such as the unstable end of a hypothesis
+   * @param featureName - Name of the feature
+   * @param fromIndex - Index of the first token to replace
+   * @param tokens - Tokens replacing those from the index on
+   */
+  reviseTokens(featureName: string, fromIndex: number, tokens: TokenOptions[]): DialogEventDelta {
+    return this._emit({ features: { [featureName]: this._featureDelta(featureName, { tokens, replaceFrom: fromIndex }) } });
+  }
+
+  /**
+   * Replace the alternates of a feature
+   * @param featureName - Name of the feature
+   * @param alternates - Alternative interpretations of the feature
+   */
+  reviseAlternates(featureName: string, alternates: TokenOptions[][]): DialogEventDelta {
+    return this._emit({ features: { [featureName]: this._featureDelta(featureName, { alternates }) } });
+  }
+
+  /**
+   * Emit the final delta
+   * @param span - Span properties to set, such as the end time
+   */
+  finish(span?: SpanOptions): DialogEventDelta {
+    return this._emit({ ...(span !== undefined ? { span } : {}), final: true });
+  }
+
+  /**
+   * The dialog event as far as it has been produced
+   */
+  snapshot(): DialogEvent {
+    if (this._accumulator.started) {
+      return this._accumulator.snapshot();
+    }
+    const preview = new DialogEventAccumulator(this.id);
+    preview.push({ id: this.id, sequence: 0, ...this._header });
+    return preview.snapshot();
+  }
+
+  /**
+   * Add the MIME type to the first delta of a feature
+   */
+  private _featureDelta(featureName: string, delta: FeatureDelta): FeatureDelta {
+    return this._featureNames.has(featureName) || delta.mimeType !== undefined ? delta : { mimeType: 'text/plain', ...delta };
+  }
+
+  /**
+   * Number, apply and publish a delta
+   * @throws Error if the final delta has already been emitted
+   */
+  private _emit(changes: Omit<DialogEventDelta, 'id' | 'sequence'>): DialogEventDelta {
+    if (this.done) {
+      throw new Error(`Dialog event ${this.id} is already final`);
+    }
+    const delta: DialogEventDelta = {
+      id: this.id,
+      sequence: this._sequence,
+      ...(this._sequence === 0 ? this._header : {}),
+      ...changes
+    };
+    if (this._sequence === 0 && changes.span !== undefined) {
+      delta.span = { ...this._header.span, ...changes.span };
+    }
+    this._accumulator.push(delta);
+    this._sequence++;
+    for (const featureName of Object.keys(changes.features ?? {})) {
+      this._featureNames.add(featureName);
+    }
+    this._onDelta?.(delta);
+    return delta;
+  }
+}
+
+/**
+ * Feature options after applying a delta to a feature
+ * @throws Error if a new feature has no MIME type or tokens are replaced past the end
+ */
+function applyFeatureDelta(name: string, feature: FeatureOptions | undefined, delta: FeatureDelta): FeatureOptions {
+  const mimeType = delta.mimeType ?? feature?.mimeType;
+  if (!mimeType) {
+    throw new Error(`The first delta of feature "${name}" requires mimeType`);
+  }
+
+  const tokens = feature?.tokens ?? [];
+  const from = delta.replaceFrom ?? tokens.length;
+  if (!Number.isInteger(from) || from < 0 || from > tokens.length) {
+    throw new Error(`Feature "${name}" has ${tokens.length} tokens, cannot replace from ${from}`);
+  }
+
+  const result: FeatureOptions = { ...feature, mimeType, tokens: [...tokens.slice(0, from), ...delta.tokens ?? []] };
+  if (delta.alternates !== undefined) result.alternates = delta.alternates;
+  if (delta.lang !== undefined) result.lang = delta.lang;
+  if (delta.encoding !== undefined) result.encoding = delta.encoding;
+  if (delta.tokenSchema !== undefined) result.tokenSchema = delta.tokenSchema;
+  return result;
+}
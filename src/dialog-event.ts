@@ -11,6 +11,13 @@ import {
     TokenOptions,
     FeatureOptions,
     TextFeatureOptions,
+    SsmlFeatureOptions,
+    HtmlFeatureOptions,
+    AudioClipOptions,
+    AudioFeatureOptions,
+    ImageFeatureOptions,
+    NBestHypothesisOptions,
+    NBestFeatureOptions,
     DialogEventOptions,
     JsonSerializable
   } from './types';
@@ -20,8 +27,27 @@ import {
     resolveJsonPath,
     isValidConfidence,
     isValidEncoding,
-    createValidationError
+    createValidationError,
+    isValidUrl,
+    findSsmlError,
+    markupToText
   } from './utils';
+  import { TokenLinkGraph } from './token-links';
+  
+  /**
+   * Converts a span time value to a Date, accepting the serialized ISO 8601 form
+   * that nested fromObject() conversions hand back to the constructors
+   */
+  function toDate(value: Date | string | undefined): Date | undefined {
+    return typeof value === 'string' ? new Date(value) : value;
+  }
+  
+  /**
+   * Converts a span offset to milliseconds, accepting the serialized ISO 8601 duration form
+   */
+  function toMilliseconds(value: number | string | undefined): number | undefined {
+    return typeof value === 'string' ? parseIsoDuration(value) : value;
+  }
   
   /**
    * Represents a time span for a dialog event or token according to the Open Floor specification.
@@ -48,7 +74,10 @@ import {
      * @throws Error if invalid combination of time parameters is provided
      */
     constructor(options: SpanOptions = {}) {
-      const { startTime, startOffset, endTime, endOffset } = options;
+      const startTime = toDate(options.startTime);
+      const startOffset = toMilliseconds(options.startOffset);
+      const endTime = toDate(options.endTime);
+      const endOffset = toMilliseconds(options.endOffset);
       
       if (!startTime && startOffset === undefined) {
         this.startTime = new Date();
@@ -265,21 +294,17 @@ import {
      * Resolves JSON Path links within a dialog event to find linked values
      * @param dialogEvent - The parent dialog event to search within
      * @returns Array of [path, value] pairs for matched links
+     * @throws JsonPathError if a link is not a valid JSON Path expression
      */
     getLinkedValues(dialogEvent: DialogEvent): Array<[string, unknown]> {
       const values: Array<[string, unknown]> = [];
       const featuresDict = Object.fromEntries(
-        Object.entries(dialogEvent.features).map(([key, feature]) => [key, feature.toObject()])
+        Array.from(dialogEvent.features, ([key, feature]) => [key, feature.toObject()])
       );
       
       for (const linkPath of this.links) {
-        try {
-          const results = resolveJsonPath(linkPath, featuresDict);
-          for (const result of results) {
-            values.push([linkPath, result]);
-          }
-        } catch (error) {
-          console.warn(`Failed to resolve JSON path "${linkPath}":`, error);
+        for (const result of resolveJsonPath(linkPath, featuresDict)) {
+          values.push([linkPath, result]);
         }
       }
       
@@ -378,6 +403,7 @@ import {
   
     /**
      * Creates a Feature instance from a dictionary with nested object conversion
+     * The instance is of the feature class matching the MIME type, such as SsmlFeature.
      */
     static fromObject(data: Record<string, unknown>): Feature {
       const options: FeatureOptions = {
@@ -394,7 +420,80 @@ import {
         ...(data.encoding !== undefined ? { encoding: data.encoding as string } : {}),
         ...(data.tokenSchema !== undefined ? { tokenSchema: data.tokenSchema as string } : {})
       };
-      return new Feature(options);
+      return createFeature(options);
+    }
+  
+    /**
+     * Creates a feature from an n-best list, such as the results of a speech recognizer
+     * The most confident hypothesis becomes the primary tokens and the others the alternates, best first.
+     * @param hypotheses - Hypotheses in the order of the recognizer
+     * @param options - Feature properties; the MIME type defaults to text/plain
+     * @throws Error if the list is empty or a hypothesis has neither text nor tokens
+     *
+     * @example
+     * ```typescript
+     * const feature = Feature.fromNBest([
+     *   { text: 'book a cable', confidence: 0.41 },
+     *   { text: 'book a table', confidence: 0.92 }
+     * ], { lang: 'en-US' });
+     * feature.tokens[0]?.value; // "book a table"
+     * ```
+     */
+    static fromNBest(hypotheses: NBestHypothesisOptions[], options: NBestFeatureOptions = {}): Feature {
+      if (hypotheses.length === 0) {
+        throw new Error('Feature.fromNBest requires at least one hypothesis');
+      }
+      const ranked = hypotheses
+        .map((hypothesis, index) => nBestTokens(hypothesis, index))
+        .sort((a, b) => rankConfidence(meanConfidence(b)) - rankConfidence(meanConfidence(a)));
+      const { mimeType = 'text/plain', ...rest } = options;
+      return createFeature({ ...rest, mimeType, tokens: ranked[0]!, alternates: ranked.slice(1) });
+    }
+  
+    /**
+     * The primary tokens followed by the alternates, as hypotheses in stored order
+     */
+    getHypotheses(): FeatureHypothesis[] {
+      return [this.tokens, ...this.alternates].map((tokens, index) => {
+        const hypothesis: FeatureHypothesis = { tokens, text: joinText(tokens.map(token => token.value)) };
+        const confidence = meanConfidence(tokens);
+        if (index > 0) hypothesis.alternate = index - 1;
+        if (confidence !== undefined) hypothesis.confidence = confidence;
+        return hypothesis;
+      });
+    }
+  
+    /**
+     * The hypotheses ordered by confidence, most confident first
+     * Hypotheses without a confidence come last, and ties keep the stored order.
+     * @param n - Number of hypotheses to return (default: all)
+     */
+    getNBest(n?: number): FeatureHypothesis[] {
+      if (n !== undefined && !(Number.isInteger(n) && n >= 0)) {
+        throw new Error(createValidationError('Feature.getNBest n', n, 'a non-negative integer'));
+      }
+      const ranked = this.getHypotheses().sort((a, b) => rankConfidence(b.confidence) - rankConfidence(a.confidence));
+      return n === undefined ? ranked : ranked.slice(0, n);
+    }
+  
+    /**
+     * Creates a copy of the feature with an alternate as its primary tokens
+     * The former primary tokens become the first alternate and the other alternates keep their order.
+     * Token links into this feature are not rewritten.
+     * @param index - Index of the alternate to promote
+     * @throws Error if there is no alternate at the index
+     */
+    promoteAlternate(index: number): Feature {
+      const hypotheses = [this.tokens, ...this.alternates];
+      if (!Number.isInteger(index) || index < 0 || index >= this.alternates.length) {
+        throw new Error(`Feature has ${this.alternates.length} alternates, cannot promote alternate ${index}`);
+      }
+      const [promoted] = hypotheses.splice(index + 1, 1);
+      return Feature.fromObject({
+        ...this.toObject(),
+        tokens: promoted!.map(token => token.toObject()),
+        alternates: hypotheses.map(tokens => tokens.map(token => token.toObject()))
+      });
     }
   }
   
@@ -433,6 +532,181 @@ import {
         ...rest
       });
     }
+  
+    /**
+     * The string values of the tokens, separated by spaces
+     */
+    get text(): string {
+      return joinText(this.tokens.map(token => token.value));
+    }
+  }
+  
+  /**
+   * Speech Synthesis Markup Language feature (application/ssml+xml).
+   * New instances check that every token value is a well-formed SSML document with a `<speak>`
+   * root element; features parsed from dialog events are kept as sent, fragments included.
+   * 
+   * @example
+   * ```typescript
+   * const ssml = new SsmlFeature({ values: ['<speak>Hello <break time="300ms"/> world</speak>'] });
+   * ssml.text; // "Hello world"
+   * ```
+   */
+  export class SsmlFeature extends Feature {
+    /**
+     * Creates a new SsmlFeature instance
+     * @param options - SsmlFeature configuration options; parsed features are not validated,
+     *   so that SSML fragments sent by other agents are kept
+     * @throws Error if validated and a token value is not a well-formed SSML document
+     */
+    constructor(options: SsmlFeatureOptions = {}) {
+      const { values, mimeType = 'application/ssml+xml', validate = true, ...rest } = options;
+      const tokens = values ? values.map(value => ({ value })) : rest.tokens || [];
+      
+      super({
+        mimeType,
+        tokens,
+        ...rest
+      });
+      
+      if (!validate) return;
+      this.tokens.forEach((token, index) => {
+        if (token.value === undefined) return;
+        const problem = typeof token.value === 'string' ? findSsmlError(token.value) : 'not a string';
+        if (problem) {
+          throw new Error(`SsmlFeature.tokens[${index}].value is not well-formed SSML: ${problem}`);
+        }
+      });
+    }
+  
+    /**
+     * The text spoken by the SSML documents
+     */
+    get text(): string {
+      return joinText(this.tokens.map(token => typeof token.value === 'string' ? markupToText(token.value) : undefined));
+    }
+  }
+  
+  /**
+   * HTML feature (text/html), for rich text renderings of a dialog event.
+   * 
+   * @example
+   * ```typescript
+   * const html = new HtmlFeature({ values: ['<p>Your table for <b>two</b> is booked</p>'] });
+   * html.text; // "Your table for two is booked"
+   * ```
+   */
+  export class HtmlFeature extends Feature {
+    /**
+     * Creates a new HtmlFeature instance
+     * @param options - HtmlFeature configuration options
+     */
+    constructor(options: HtmlFeatureOptions = {}) {
+      const { values, mimeType = 'text/html', ...rest } = options;
+      const tokens = values ? values.map(value => ({ value })) : rest.tokens || [];
+      
+      super({
+        mimeType,
+        tokens,
+        ...rest
+      });
+    }
+  
+    /**
+     * The text of the HTML fragments, without markup
+     */
+    get text(): string {
+      return joinText(this.tokens.map(token => typeof token.value === 'string' ? markupToText(token.value) : undefined));
+    }
+  }
+  
+  /**
+   * Audio feature (audio/*) referencing recordings by URL.
+   * Clips without a start offset follow the previous clip, so that clips with durations
+   * are aligned on the timeline of the dialog event.
+   * 
+   * @example
+   * ```typescript
+   * const audio = new AudioFeature({
+   *   mimeType: 'audio/wav',
+   *   clips: [
+   *     { url: 'https://example.com/audio/1.wav', duration: 1500 },
+   *     { url: 'https://example.com/audio/2.wav', duration: 800 }
+   *   ]
+   * });
+   * audio.duration; // 2300
+   * ```
+   */
+  export class AudioFeature extends Feature {
+    /**
+     * Creates a new AudioFeature instance
+     * @param options - AudioFeature configuration options; parsed features are not validated,
+     *   so that media sent by other agents is kept
+     * @throws Error if validated and the MIME type is not an audio type or a clip URL is invalid
+     */
+    constructor(options: AudioFeatureOptions) {
+      const { clips, mimeType, validate = true, ...rest } = options;
+      if (validate) checkMediaType('AudioFeature', 'audio', mimeType);
+      
+      super({
+        mimeType,
+        tokens: clips ? alignClips(clips) : rest.tokens || [],
+        ...rest
+      });
+      if (validate) checkValueUrls('AudioFeature', this.tokens);
+    }
+  
+    /**
+     * URLs of the referenced audio
+     */
+    get urls(): string[] {
+      return this.tokens.flatMap(token => token.valueUrl !== undefined ? [token.valueUrl] : []);
+    }
+  
+    /**
+     * Milliseconds from the earliest start offset to the latest end offset of the tokens,
+     * undefined if no token has both offsets
+     */
+    get duration(): number | undefined {
+      const spans = this.tokens.flatMap(token => token.span?.startOffset !== undefined && token.span.endOffset !== undefined ? [token.span] : []);
+      if (spans.length === 0) return undefined;
+      return Math.max(...spans.map(span => span.endOffset!)) - Math.min(...spans.map(span => span.startOffset!));
+    }
+  }
+  
+  /**
+   * Image feature (image/*) referencing images by URL.
+   * 
+   * @example
+   * ```typescript
+   * const image = new ImageFeature({ mimeType: 'image/png', urls: ['https://example.com/menu.png'] });
+   * ```
+   */
+  export class ImageFeature extends Feature {
+    /**
+     * Creates a new ImageFeature instance
+     * @param options - ImageFeature configuration options; parsed features are not validated,
+     *   so that media sent by other agents is kept
+     * @throws Error if validated and the MIME type is not an image type or an image URL is invalid
+     */
+    constructor(options: ImageFeatureOptions) {
+      const { urls, mimeType, validate = true, ...rest } = options;
+      if (validate) checkMediaType('ImageFeature', 'image', mimeType);
+      
+      super({
+        mimeType,
+        tokens: urls ? urls.map(valueUrl => ({ valueUrl })) : rest.tokens || [],
+        ...rest
+      });
+      if (validate) checkValueUrls('ImageFeature', this.tokens);
+    }
+  
+    /**
+     * URLs of the referenced images
+     */
+    get urls(): string[] {
+      return this.tokens.flatMap(token => token.valueUrl !== undefined ? [token.valueUrl] : []);
+    }
   }
   
   /**
@@ -467,6 +741,7 @@ import {
     readonly features: ReadonlyMap<string, Feature>;
     readonly previousId?: string;
     readonly context?: string;
+    private _linkGraph?: TokenLinkGraph;
   
     /**
      * Creates a new DialogEvent instance
@@ -482,7 +757,7 @@ import {
       this.id = id;
       this.speakerUri = speakerUri;
       this.span = new Span(span);
-      this.features = new Map(Object.entries(features).map(([k, v]) => [k, new Feature(v as FeatureOptions)]));
+      this.features = new Map(Object.entries(features).map(([k, v]) => [k, createFeature(v as FeatureOptions)]));
       if (previousId !== undefined) this.previousId = previousId;
       if (context !== undefined) this.context = context;
     }
@@ -517,13 +792,41 @@ import {
       return JSON.stringify(this.toObject());
     }
   
+    /**
+     * Best plain text rendering of the dialog event
+     * Plain text features are preferred over SSML, and SSML over HTML. Among features of
+     * the same type, the feature named "text" comes first.
+     * @returns The text, or undefined if no feature has any
+     */
+    getBestText(): string | undefined {
+      for (const type of [TextFeature, SsmlFeature, HtmlFeature]) {
+        const candidates = Array.from(this.features)
+          .filter((entry): entry is [string, TextFeature | SsmlFeature | HtmlFeature] => entry[1] instanceof type)
+          .sort(([a], [b]) => Number(b === 'text') - Number(a === 'text'));
+        for (const [, feature] of candidates) {
+          if (feature.text) return feature.text;
+        }
+      }
+      return undefined;
+    }
+  
+    /**
+     * Resolves the links of all tokens to the tokens they point at
+     * The graph is built on first use; dialog events are immutable, so it is reused afterwards.
+     * @returns Link graph of the tokens of this dialog event
+     */
+    getLinkGraph(): TokenLinkGraph {
+      this._linkGraph ??= new TokenLinkGraph(this);
+      return this._linkGraph;
+    }
+  
     /**
      * Creates a DialogEvent instance from a dictionary with nested object conversion
      */
     static fromObject(data: Record<string, unknown>): DialogEvent {
       const options: DialogEventOptions = {
         speakerUri: data.speakerUri as string,
-        span: Span.fromObject(data.span as Record<string, unknown>),
+        ...(data.span !== undefined ? { span: Span.fromObject(data.span as Record<string, unknown>) } : {}),
         features: Object.fromEntries(
           Object.entries(data.features as Record<string, unknown>)
             .filter(([_, v]) => {
@@ -544,4 +847,105 @@ import {
   /**
    * Type alias for an array of DialogEvent instances representing conversation history
    */
-  export type DialogHistory = DialogEvent[];
\ No newline at end of file
+  export type DialogHistory = DialogEvent[];
+  
+  /**
+   * One interpretation of a feature: its primary tokens or one of its alternates
+   */
+  export interface FeatureHypothesis {
+    /** Index in the alternates of the feature, undefined for the primary tokens */
+    alternate?: number;
+    /** Tokens of the hypothesis */
+    tokens: readonly Token[];
+    /** Mean confidence of the tokens that have one */
+    confidence?: number;
+    /** String values of the tokens, separated by spaces */
+    text: string;
+  }
+  
+  /**
+   * Creates the feature class matching the MIME type of the options, as parsing does
+   */
+  export function createFeature(options: FeatureOptions): Feature {
+    const mediaType = String(options.mimeType).split(';')[0]!.trim().toLowerCase();
+    if (mediaType === 'text/plain') return new TextFeature(options as TextFeatureOptions);
+    if (mediaType === 'application/ssml+xml') return new SsmlFeature({ ...options as SsmlFeatureOptions, validate: false });
+    if (mediaType === 'text/html') return new HtmlFeature(options as HtmlFeatureOptions);
+    if (mediaType.startsWith('audio/')) return new AudioFeature({ ...options, validate: false });
+    if (mediaType.startsWith('image/')) return new ImageFeature({ ...options, validate: false });
+    return new Feature(options);
+  }
+  
+  /**
+   * Joins the non-empty text values of tokens with spaces
+   */
+  function joinText(values: unknown[]): string {
+    return values.filter((value): value is string => typeof value === 'string' && value !== '').join(' ');
+  }
+  
+  /**
+   * Checks that a MIME type has the expected top-level type, such as "audio" in "audio/wav"
+   */
+  function checkMediaType(className: string, type: string, mimeType: string): void {
+    if (!new RegExp(`^${type}/[\\w.+-]+\\s*(;.*)?$`, 'i').test(mimeType ?? '')) {
+      throw new Error(createValidationError(`${className}.mimeType`, mimeType, `an ${type}/* MIME type`));
+    }
+  }
+  
+  /**
+   * Checks that the tokens referencing media by URL use valid URLs
+   */
+  function checkValueUrls(className: string, tokens: readonly Token[]): void {
+    tokens.forEach((token, index) => {
+      if (token.valueUrl !== undefined && !isValidUrl(token.valueUrl)) {
+        throw new Error(createValidationError(`${className}.tokens[${index}].valueUrl`, token.valueUrl, 'a valid URL'));
+      }
+    });
+  }
+  
+  /**
+   * Converts audio clips to tokens, starting each clip without an offset where the previous one ended
+   */
+  function alignClips(clips: AudioClipOptions[]): TokenOptions[] {
+    let cursor: number | undefined = 0;
+    return clips.map(clip => {
+      const token: TokenOptions = { valueUrl: clip.url };
+      const start = clip.startOffset ?? cursor;
+      if (start !== undefined) {
+        token.span = clip.duration !== undefined
+          ? { startOffset: start, endOffset: start + clip.duration }
+          : { startOffset: start };
+      }
+      cursor = start !== undefined && clip.duration !== undefined ? start + clip.duration : undefined;
+      if (clip.confidence !== undefined) token.confidence = clip.confidence;
+      return token;
+    });
+  }
+  
+  /**
+   * Converts a hypothesis of an n-best list to tokens carrying its confidence
+   */
+  function nBestTokens(hypothesis: NBestHypothesisOptions, index: number): TokenOptions[] {
+    const { text, tokens = text !== undefined ? [{ value: text }] : undefined, confidence } = hypothesis;
+    if (!tokens || tokens.length === 0) {
+      throw new Error(`Feature.fromNBest hypotheses[${index}] requires text or tokens`);
+    }
+    return confidence === undefined
+      ? tokens
+      : tokens.map(token => (token.confidence === undefined ? { ...token, confidence } : token));
+  }
+  
+  /**
+   * Mean confidence of the tokens that have one, undefined if none has
+   */
+  function meanConfidence(tokens: readonly { confidence?: number }[]): number | undefined {
+    const confidences = tokens.flatMap(token => (token.confidence !== undefined ? [token.confidence] : []));
+    return confidences.length > 0 ? confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length : undefined;
+  }
+  
+  /**
+   * Sort key of a confidence, ranking hypotheses without one below all others
+   */
+  function rankConfidence(confidence: number | undefined): number {
+    return confidence ?? -1;
+  }
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Fluent builder for Open Floor Protocol envelopes
+ * Composes envelopes from event instances, typically as replies to an inbound envelope
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import {
+  SchemaOptions,
+  ConversationOptions,
+  SenderOptions,
+  ToOptions,
+  ExtensionEventOptions,
+  EnvelopeBuildOptions
+} from './types';
+import { Envelope, Manifest, Event } from './envelope';
+import { conversationCodec, eventCodec } from './codecs';
+import { DialogEvent } from './dialog-event';
+import { generateUUID } from './utils';
+import { validateEnvelope } from './validation';
+
+/**
+ * Fluent builder for envelopes
+ * Events are added in call order. The sender must be set with `from()` before
+ * `utter()` is called with text, since the utterance is spoken by the sender.
+ *
+ * @example
+ * ```typescript
+ * const response = EnvelopeBuilder.replyTo(inEnvelope)
+ *   .from(manifest)
+ *   .utter('Let me hand you over to billing')
+ *   .grantFloor('tag:example.com,2025:billing')
+ *   .privateTo('tag:example.com,2025:billing')
+ *   .build();
+ * ```
+ */
+export class EnvelopeBuilder {
+  private _schema: SchemaOptions = { version: '1.0.0' };
+  private _conversation?: ConversationOptions;
+  private _sender?: SenderOptions;
+  private _events: ExtensionEventOptions[] = [];
+
+  /**
+   * Start a reply to an envelope, in the same conversation and with the same schema
+   * @param inEnvelope - Envelope being replied to
+   */
+  static replyTo(inEnvelope: Envelope): EnvelopeBuilder {
+    return new EnvelopeBuilder()
+      .schema(inEnvelope.schema.version, inEnvelope.schema.url)
+      .conversation(conversationCodec.encode(inEnvelope.conversation));
+  }
+
+  /**
+   * Set the envelope schema (default: version 1.0.0)
+   * @param version - Envelope specification version
+   * @param url - Schema URL
+   */
+  schema(version: string, url?: string): this {
+    this._schema = url !== undefined ? { version, url } : { version };
+    return this;
+  }
+
+  /**
+   * Set the conversation (default: a new conversation with a generated id)
+   * @param conversation - Conversation id or options
+   */
+  conversation(conversation: string | ConversationOptions): this {
+    this._conversation = typeof conversation === 'string' ? { id: conversation } : conversation;
+    return this;
+  }
+
+  /**
+   * Set the sender
+   * @param sender - Manifest of the sending agent, or sender options
+   */
+  from(sender: Manifest | SenderOptions): this {
+    this._sender = sender instanceof Manifest
+      ? { speakerUri: sender.identification.speakerUri, serviceUrl: sender.identification.serviceUrl }
+      : sender;
+    return this;
+  }
+
+  /**
+   * Add events
+   * @param events - Event instances
+   */
+  event(...events: Event[]): this {
+    this._events.push(...events.map(eventCodec.encode));
+    return this;
+  }
+
+  /**
+   * Add an utterance
+   * @param utterance - Text spoken by the sender, or the dialog event to utter
+   * @param to - Recipient of the utterance
+   * @throws Error if text is given before the sender is set
+   */
+  utter(utterance: string | DialogEvent, to?: string | ToOptions): this {
+    let dialogEvent = utterance;
+    if (typeof dialogEvent === 'string') {
+      if (!this._sender) {
+        throw new Error('EnvelopeBuilder.from() must be called before utter() with text');
+      }
+      dialogEvent = new DialogEvent({
+        id: generateUUID(),
+        speakerUri: this._sender.speakerUri,
+        span: { startTime: new Date() },
+        features: { text: { mimeType: 'text/plain', tokens: [{ value: dialogEvent }] } }
+      });
+    }
+    return this._add('utterance', to, undefined, { dialogEvent: dialogEvent.toObject() });
+  }
+
+  /**
+   * Add an invite event
+   * @param to - Agent to invite
+   */
+  invite(to: string | ToOptions, reason?: string): this {
+    return this._add('invite', to, reason);
+  }
+
+  /**
+   * Add an uninvite event
+   * @param to - Agent to remove from the conversation
+   */
+  uninvite(to: string | ToOptions, reason?: string): this {
+    return this._add('uninvite', to, reason);
+  }
+
+  /**
+   * Add a declineInvite event
+   */
+  declineInvite(reason?: string): this {
+    return this._add('declineInvite', undefined, reason);
+  }
+
+  /**
+   * Add a bye event
+   */
+  bye(reason?: string): this {
+    return this._add('bye', undefined, reason);
+  }
+
+  /**
+   * Add a requestFloor event
+   */
+  requestFloor(reason?: string): this {
+    return this._add('requestFloor', undefined, reason);
+  }
+
+  /**
+   * Add a grantFloor event
+   * @param to - Conversant granted the floor
+   */
+  grantFloor(to: string | ToOptions, reason?: string): this {
+    return this._add('grantFloor', to, reason);
+  }
+
+  /**
+   * Add a revokeFloor event
+   * @param to - Conversant whose floor is revoked
+   */
+  revokeFloor(to: string | ToOptions, reason?: string): this {
+    return this._add('revokeFloor', to, reason);
+  }
+
+  /**
+   * Add a yieldFloor event
+   */
+  yieldFloor(reason?: string): this {
+    return this._add('yieldFloor', undefined, reason);
+  }
+
+  /**
+   * Address the most recently added event privately to a conversant
+   * @param speakerUri - Only conversant that may see the event
+   * @throws Error if no event has been added
+   */
+  privateTo(speakerUri: string): this {
+    const event = this._events[this._events.length - 1];
+    if (!event) {
+      throw new Error('EnvelopeBuilder.privateTo() requires a preceding event');
+    }
+    event.to = { speakerUri, private: true };
+    return this;
+  }
+
+  /**
+   * Build the envelope
+   * @param options - Build options
+   * @returns The envelope
+   * @throws Error if the sender is missing or the envelope fails schema validation
+   */
+  build(options: EnvelopeBuildOptions = {}): Envelope {
+    if (!this._sender) {
+      throw new Error('EnvelopeBuilder requires a sender; call from() before build()');
+    }
+
+    // Events were added as instances or by this builder, so extension events are expected
+    const envelope = new Envelope({
+      schema: this._schema,
+      conversation: this._conversation ?? { id: generateUUID() },
+      sender: this._sender,
+      events: this._events
+    }, { preserveUnknown: true });
+
+    if (options.validate !== false) {
+      const validation = validateEnvelope({ openFloor: envelope.toObject() });
+      if (!validation.valid) {
+        throw new Error(`Envelope failed schema validation: ${validation.errors.join('; ')}`);
+      }
+    }
+    return envelope;
+  }
+
+  /**
+   * Add an event of the specification
+   */
+  private _add(eventType: string, to: string | ToOptions | undefined, reason: string | undefined, parameters?: Record<string, unknown>): this {
+    const event: ExtensionEventOptions = { eventType };
+    if (to !== undefined) event.to = typeof to === 'string' ? { speakerUri: to } : to;
+    if (reason !== undefined) event.reason = reason;
+    if (parameters !== undefined) event.parameters = parameters;
+    this._events.push(event);
+    return this;
+  }
+}
@@ -19,14 +19,32 @@ import {
     BaseEventOptions,
     EnvelopeOptions,
     PayloadOptions,
-    JsonSerializable,
-    EventType
+    ExtensionEventOptions,
+    ParseOptions,
+    JsonSerializable
   } from './types';
   import {
     isValidUri,
     createValidationError,
-    hasRequiredProperties
+    appendExtensions
   } from './utils';
+  import { To, Event, ExtensionEvent } from './base-event';
+  import { createEvent } from './events';
+  import { eventTypeRegistry } from './event-registry';
+  import {
+    schemaCodec,
+    identificationCodec,
+    supportedLayersCodec,
+    capabilityCodec,
+    manifestCodec,
+    conversantCodec,
+    conversationCodec,
+    senderCodec,
+    envelopeCodec,
+    payloadCodec
+  } from './codecs';
+  
+  export { To, Event, ExtensionEvent };
   
   /**
    * Represents schema information for Open Floor protocol messages
@@ -43,6 +61,8 @@ import {
   export class Schema implements JsonSerializable {
     readonly version: string;
     readonly url?: string;
+    /** Properties not defined by the specification */
+    readonly extensions: Readonly<Record<string, unknown>>;
   
     /**
      * Creates a new Schema instance
@@ -51,6 +71,7 @@ import {
     constructor(options: SchemaOptions) {
       this.version = options.version;
       if (options.url !== undefined) this.url = options.url;
+      this.extensions = Object.freeze({ ...options.extensions });
     }
   
     toObject(): Record<string, unknown> {
@@ -58,21 +79,15 @@ import {
       if (this.url) {
         result.url = this.url;
       }
-      return result;
+      return appendExtensions(result, this.extensions);
     }
   
     toJSON(): string {
       return JSON.stringify(this.toObject());
     }
   
-    static fromObject(data: Record<string, unknown>): Schema {
-      if (!hasRequiredProperties(data, ['version'])) {
-        throw new Error('Schema requires version');
-      }
-      return new Schema({
-        version: data.version as string,
-        ...(data.url !== undefined ? { url: data.url as string } : {})
-      });
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): Schema {
+      return new Schema(schemaCodec.decode(data, parseOptions));
     }
   }
   
@@ -98,6 +113,8 @@ import {
     readonly department?: string;
     readonly role?: string;
     readonly synopsis?: string;
+    /** Properties not defined by the specification */
+    readonly extensions: Readonly<Record<string, unknown>>;
   
     /**
      * Creates a new Identification instance
@@ -105,7 +122,7 @@ import {
      * @throws Error if required fields are missing or invalid
      */
     constructor(options: IdentificationOptions) {
-      const { speakerUri, serviceUrl, organization, conversationalName, synopsis, department, role } = options;
+      const { speakerUri, serviceUrl, organization, conversationalName, synopsis, department, role, extensions = {} } = options;
       if (!speakerUri) throw new Error(createValidationError('Identification.speakerUri', speakerUri, 'non-empty string'));
       if (!serviceUrl) throw new Error(createValidationError('Identification.serviceUrl', serviceUrl, 'non-empty string'));
       if (!organization) throw new Error(createValidationError('Identification.organization', organization, 'non-empty string'));
@@ -118,6 +135,7 @@ import {
       this.synopsis = synopsis;
       if (department) this.department = department;
       if (role) this.role = role;
+      this.extensions = Object.freeze({ ...extensions });
     }
   
     toObject(): Record<string, unknown> {
@@ -132,26 +150,15 @@ import {
       if (this.role) result.role = this.role;
       if (this.synopsis) result.synopsis = this.synopsis;
   
-      return result;
+      return appendExtensions(result, this.extensions);
     }
   
     toJSON(): string {
       return JSON.stringify(this.toObject());
     }
   
-    static fromObject(data: Record<string, unknown>): Identification {
-      if (!hasRequiredProperties(data, ['speakerUri', 'serviceUrl', 'organization', 'conversationalName', 'synopsis'])) {
-        throw new Error('Identification requires speakerUri, serviceUrl, organization, conversationalName, and synopsis');
-      }
-      return new Identification({
-        speakerUri: data.speakerUri as string,
-        serviceUrl: data.serviceUrl as string,
-        organization: data.organization as string,
-        conversationalName: data.conversationalName as string,
-        synopsis: data.synopsis as string,
-        ...(data.department !== undefined ? { department: data.department as string } : {}),
-        ...(data.role !== undefined ? { role: data.role as string } : {})
-      });
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): Identification {
+      return new Identification(identificationCodec.decode(data, parseOptions));
     }
   }
   
@@ -191,10 +198,7 @@ import {
     }
   
     static fromObject(data: Record<string, unknown>): SupportedLayers {
-      return new SupportedLayers({
-        input: data.input as string[],
-        output: data.output as string[]
-      });
+      return new SupportedLayers(supportedLayersCodec.decode(data));
     }
   }
   
@@ -255,16 +259,7 @@ import {
     }
   
     static fromObject(data: Record<string, unknown>): Capability {
-      if (!hasRequiredProperties(data, ['keyphrases', 'descriptions'])) {
-        throw new Error('Capability requires keyphrases and descriptions');
-      }
-  
-      return new Capability({
-        keyphrases: data.keyphrases as string[],
-        descriptions: data.descriptions as string[],
-        ...(data.languages !== undefined ? { languages: data.languages as string[] } : {}),
-        ...(data.supportedLayers !== undefined ? { supportedLayers: SupportedLayers.fromObject(data.supportedLayers as Record<string, unknown>).toObject() as SupportedLayersOptions } : {})
-      });
+      return new Capability(capabilityCodec.decode(data));
     }
   }
   
@@ -323,40 +318,8 @@ import {
       return JSON.stringify(this.toObject());
     }
   
-    static fromObject(data: Record<string, unknown>): Manifest {
-      if (!hasRequiredProperties(data, ['identification', 'capabilities'])) {
-        throw new Error('Manifest requires identification and capabilities');
-      }
-      const idObj = data.identification as Record<string, unknown>;
-      if (!hasRequiredProperties(idObj, ['speakerUri', 'serviceUrl', 'organization', 'conversationalName', 'synopsis'])) {
-        throw new Error('Identification requires all required fields');
-      }
-      const capabilitiesArr = Array.isArray(data.capabilities)
-        ? data.capabilities.map(capData => {
-            const capObj = capData as Record<string, unknown>;
-            if (!hasRequiredProperties(capObj, ['keyphrases', 'descriptions'])) {
-              throw new Error('Capability requires keyphrases and descriptions');
-            }
-            return {
-              keyphrases: capObj.keyphrases as string[],
-              descriptions: capObj.descriptions as string[],
-              ...(capObj.languages !== undefined ? { languages: capObj.languages as string[] } : {}),
-              ...(capObj.supportedLayers !== undefined ? { supportedLayers: capObj.supportedLayers as SupportedLayersOptions } : {})
-            } as CapabilityOptions;
-          })
-        : [];
-      return new Manifest({
-        identification: {
-          speakerUri: idObj.speakerUri as string,
-          serviceUrl: idObj.serviceUrl as string,
-          organization: idObj.organization as string,
-          conversationalName: idObj.conversationalName as string,
-          synopsis: idObj.synopsis as string,
-          ...(idObj.department !== undefined ? { department: idObj.department as string } : {}),
-          ...(idObj.role !== undefined ? { role: idObj.role as string } : {})
-        },
-        capabilities: capabilitiesArr
-      });
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): Manifest {
+      return new Manifest(manifestCodec.decode(data, parseOptions));
     }
   }
   
@@ -378,6 +341,8 @@ import {
   export class Conversant implements JsonSerializable {
     readonly identification: Identification;
     readonly persistentState: Record<string, unknown>;
+    /** Properties not defined by the specification */
+    readonly extensions: Readonly<Record<string, unknown>>;
   
     /**
      * Creates a new Conversant instance
@@ -385,7 +350,7 @@ import {
      * @throws Error if identification is missing
      */
     constructor(options: ConversantOptions) {
-      const { identification, persistentState = {} } = options;
+      const { identification, persistentState = {}, extensions = {} } = options;
   
       if (!identification) {
         throw new Error(createValidationError(
@@ -397,6 +362,7 @@ import {
   
       this.identification = new Identification(identification);
       this.persistentState = { ...persistentState };
+      this.extensions = Object.freeze({ ...extensions });
     }
   
     toObject(): Record<string, unknown> {
@@ -408,33 +374,15 @@ import {
         result.persistentState = { ...this.persistentState };
       }
   
-      return result;
+      return appendExtensions(result, this.extensions);
     }
   
     toJSON(): string {
       return JSON.stringify(this.toObject());
     }
   
-    static fromObject(data: Record<string, unknown>): Conversant {
-      if (!hasRequiredProperties(data, ['identification'])) {
-        throw new Error('Conversant requires identification');
-      }
-      const idObj = data.identification as Record<string, unknown>;
-      if (!hasRequiredProperties(idObj, ['speakerUri', 'serviceUrl', 'organization', 'conversationalName', 'synopsis'])) {
-        throw new Error('Identification requires all required fields');
-      }
-      return new Conversant({
-        identification: {
-          speakerUri: idObj.speakerUri as string,
-          serviceUrl: idObj.serviceUrl as string,
-          organization: idObj.organization as string,
-          conversationalName: idObj.conversationalName as string,
-          synopsis: idObj.synopsis as string,
-          ...(idObj.department !== undefined ? { department: idObj.department as string } : {}),
-          ...(idObj.role !== undefined ? { role: idObj.role as string } : {})
-        },
-        ...(data.persistentState !== undefined ? { persistentState: data.persistentState as Record<string, unknown> } : {})
-      });
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): Conversant {
+      return new Conversant(conversantCodec.decode(data, parseOptions));
     }
   }
   
@@ -457,16 +405,19 @@ import {
   export class Conversation implements JsonSerializable {
     readonly id: string;
     readonly conversants: readonly Conversant[];
+    /** Properties not defined by the specification */
+    readonly extensions: Readonly<Record<string, unknown>>;
   
     /**
      * Creates a new Conversation instance
      * @param options - Conversation configuration options
      */
     constructor(options: ConversationOptions) {
-      const { id, conversants = [] } = options;
+      const { id, conversants = [], extensions = {} } = options;
       if (!id) throw new Error('Conversation.id is required');
       this.id = id;
       this.conversants = Object.freeze(conversants.map(conv => new Conversant(conv)));
+      this.extensions = Object.freeze({ ...extensions });
     }
   
     toObject(): Record<string, unknown> {
@@ -476,46 +427,15 @@ import {
         result.conversants = this.conversants.map(conv => conv.toObject());
       }
   
-      return result;
+      return appendExtensions(result, this.extensions);
     }
   
     toJSON(): string {
       return JSON.stringify(this.toObject());
     }
   
-    static fromObject(data: Record<string, unknown>): Conversation {
-      if (!hasRequiredProperties(data, ['id'])) {
-        throw new Error('Conversation requires id');
-      }
-      let conversantsArr: ConversantOptions[] | undefined = undefined;
-      if (Array.isArray(data.conversants)) {
-        conversantsArr = data.conversants.map(convData => {
-          const convObj = convData as Record<string, unknown>;
-          if (!hasRequiredProperties(convObj, ['identification'])) {
-            throw new Error('Conversant requires identification');
-          }
-          const idObj = convObj.identification as Record<string, unknown>;
-          if (!hasRequiredProperties(idObj, ['speakerUri', 'serviceUrl', 'organization', 'conversationalName', 'synopsis'])) {
-            throw new Error('Identification requires all required fields');
-          }
-          return {
-            identification: {
-              speakerUri: idObj.speakerUri as string,
-              serviceUrl: idObj.serviceUrl as string,
-              organization: idObj.organization as string,
-              conversationalName: idObj.conversationalName as string,
-              synopsis: idObj.synopsis as string,
-              ...(idObj.department !== undefined ? { department: idObj.department as string } : {}),
-              ...(idObj.role !== undefined ? { role: idObj.role as string } : {})
-            },
-            ...(convObj.persistentState !== undefined ? { persistentState: convObj.persistentState as Record<string, unknown> } : {})
-          };
-        });
-      }
-      return new Conversation({
-        id: data.id as string,
-        ...(conversantsArr ? { conversants: conversantsArr } : {})
-      });
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): Conversation {
+      return new Conversation(conversationCodec.decode(data, parseOptions));
     }
   }
   
@@ -533,6 +453,8 @@ import {
   export class Sender implements JsonSerializable {
     readonly speakerUri: string;
     readonly serviceUrl?: string;
+    /** Properties not defined by the specification */
+    readonly extensions: Readonly<Record<string, unknown>>;
   
     /**
      * Creates a new Sender instance
@@ -540,7 +462,7 @@ import {
      * @throws Error if speakerUri is missing or invalid
      */
     constructor(options: SenderOptions) {
-      const { speakerUri, serviceUrl } = options;
+      const { speakerUri, serviceUrl, extensions = {} } = options;
   
       if (!speakerUri) {
         throw new Error(createValidationError(
@@ -560,6 +482,7 @@ import {
   
       this.speakerUri = speakerUri;
       if (serviceUrl !== undefined) this.serviceUrl = serviceUrl;
+      this.extensions = Object.freeze({ ...extensions });
     }
   
     toObject(): Record<string, unknown> {
@@ -569,172 +492,15 @@ import {
         result.serviceUrl = this.serviceUrl;
       }
   
-      return result;
+      return appendExtensions(result, this.extensions);
     }
   
     toJSON(): string {
       return JSON.stringify(this.toObject());
     }
   
-    static fromObject(data: Record<string, unknown>): Sender {
-      if (!hasRequiredProperties(data, ['speakerUri'])) {
-        throw new Error('Sender requires speakerUri');
-      }
-  
-      return new Sender({
-        speakerUri: data.speakerUri as string,
-        ...(data.serviceUrl !== undefined ? { serviceUrl: data.serviceUrl as string } : {})
-      });
-    }
-  }
-  
-  /**
-   * Represents targeting information for events (who the event is addressed to)
-   * 
-   * @example
-   * ```typescript
-   * // Address to specific agent
-   * const to1 = new To({
-   *   speakerUri: 'tag:example.com,2025:agent1'
-   * });
-   * 
-   * // Private message to specific service
-   * const to2 = new To({
-   *   serviceUrl: 'https://example.com/agent',
-   *   private: true
-   * });
-   * ```
-   */
-  export class To implements JsonSerializable {
-    readonly speakerUri?: string;
-    readonly serviceUrl?: string;
-    readonly private: boolean;
-  
-    /**
-     * Creates a new To instance
-     * @param options - To configuration options
-     * @throws Error if neither speakerUri nor serviceUrl is provided
-     */
-    constructor(options: ToOptions) {
-      const { speakerUri, serviceUrl, private: isPrivate } = options;
-      if (!speakerUri && !serviceUrl) {
-        throw new Error('To requires at least speakerUri or serviceUrl');
-      }
-      if (speakerUri !== undefined) this.speakerUri = speakerUri;
-      if (serviceUrl !== undefined) this.serviceUrl = serviceUrl;
-      this.private = !!isPrivate;
-    }
-  
-    toObject(): Record<string, unknown> {
-      const result: Record<string, unknown> = {};
-  
-      if (this.speakerUri) {
-        result.speakerUri = this.speakerUri;
-      }
-      if (this.serviceUrl) {
-        result.serviceUrl = this.serviceUrl;
-      }
-      if (this.private) {
-        result.private = this.private;
-      }
-  
-      return result;
-    }
-  
-    toJSON(): string {
-      return JSON.stringify(this.toObject());
-    }
-  
-    static fromObject(data: Record<string, unknown>): To {
-      if (!data.speakerUri && !data.serviceUrl) {
-        throw new Error('To requires at least speakerUri or serviceUrl');
-      }
-      return new To({
-        ...(data.speakerUri !== undefined ? { speakerUri: data.speakerUri as string } : {}),
-        ...(data.serviceUrl !== undefined ? { serviceUrl: data.serviceUrl as string } : {}),
-        ...(data.private !== undefined ? { private: data.private as boolean } : {})
-      });
-    }
-  }
-  
-  /**
-   * Base class for all Open Floor Protocol events
-   * 
-   * @example
-   * ```typescript
-   * const event = new Event({
-   *   eventType: 'utterance',
-   *   to: { speakerUri: 'tag:example.com,2025:agent1' },
-   *   reason: 'User query',
-   *   parameters: { dialogEvent: {...} }
-   * });
-   * ```
-   */
-  export class Event implements JsonSerializable {
-    readonly eventType: string;
-    readonly to?: To;
-    readonly reason?: string;
-    readonly parameters: Record<string, unknown>;
-  
-    /**
-     * Creates a new Event instance
-     * @param options - Event configuration options
-     * @throws Error if eventType is missing or invalid
-     */
-    constructor(options: BaseEventOptions) {
-      const allowedEventTypes = [
-        'utterance', 'context', 'invite', 'uninvite', 'declineInvite', 'bye',
-        'getManifests', 'publishManifests', 'requestFloor', 'grantFloor', 'revokeFloor', 'yieldFloor'
-      ];
-      if (!options.eventType || !allowedEventTypes.includes(options.eventType)) {
-        throw new Error(`Invalid eventType: ${options.eventType}`);
-      }
-      const { eventType, to, reason, parameters } = options;
-      this.eventType = eventType as string;
-      if (to !== undefined) this.to = new To(to);
-      if (reason !== undefined) this.reason = reason;
-      this.parameters = parameters ? { ...parameters } : {};
-    }
-  
-    toObject(): Record<string, unknown> {
-      const result: Record<string, unknown> = { eventType: this.eventType };
-  
-      if (this.to) {
-        result.to = this.to.toObject();
-      }
-      if (this.reason) {
-        result.reason = this.reason;
-      }
-      if (Object.keys(this.parameters).length > 0) {
-        result.parameters = { ...this.parameters };
-      }
-  
-      return result;
-    }
-  
-    toJSON(): string {
-      return JSON.stringify(this.toObject());
-    }
-  
-    static fromObject(data: Record<string, unknown>): Event {
-      if (!hasRequiredProperties(data, ['eventType'])) {
-        throw new Error('Event requires eventType');
-      }
-      const eventTypeValue = data.eventType as string;
-      const validEventTypes = [
-        'utterance', 'context', 'invite', 'uninvite', 'declineInvite', 'bye',
-        'getManifests', 'publishManifests', 'requestFloor', 'grantFloor', 'revokeFloor', 'yieldFloor'
-      ];
-      if (!validEventTypes.includes(eventTypeValue)) {
-        throw new Error('Invalid eventType');
-      }
-      const options: BaseEventOptions = {
-        eventType: eventTypeValue as EventType,
-        ...(data.to && typeof data.to === 'object' ? { to: To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions } : {}),
-        ...(data.reason !== undefined ? { reason: data.reason as string } : {}),
-        ...(data.parameters !== undefined ? { parameters: data.parameters as Record<string, unknown> } : {})
-      };
-      return new Event(options);
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): Sender {
+      return new Sender(senderCodec.decode(data, parseOptions));
     }
   }
   
@@ -759,14 +525,17 @@ import {
     readonly conversation: Conversation;
     readonly sender: Sender;
     readonly events: readonly Event[];
+    /** Properties not defined by the specification */
+    readonly extensions: Readonly<Record<string, unknown>>;
   
     /**
      * Creates a new Envelope instance
      * @param options - Envelope configuration options
+     * @param parseOptions - With `preserveUnknown`, events of unknown types become ExtensionEvents
      * @throws Error if required fields are missing
      */
-    constructor(options: EnvelopeOptions) {
-      const { schema, conversation, sender, events } = options;
+    constructor(options: EnvelopeOptions, parseOptions: ParseOptions = {}) {
+      const { schema, conversation, sender, events, extensions = {} } = options;
       if (!schema) throw new Error('Envelope.schema is required');
       if (!conversation) throw new Error('Envelope.conversation is required');
       if (!sender) throw new Error('Envelope.sender is required');
@@ -774,16 +543,24 @@ import {
       this.schema = new Schema(schema);
       this.conversation = new Conversation(conversation);
       this.sender = new Sender(sender);
-      this.events = Object.freeze(events.map(eventOpts => new Event(eventOpts)));
+      this.events = Object.freeze(events.flatMap(eventOpts => {
+        try {
+          return [hydrateEvent(eventOpts, parseOptions)];
+        } catch (error) {
+          if (parseOptions.strict !== false) throw error;
+          return [];
+        }
+      }));
+      this.extensions = Object.freeze({ ...extensions });
     }
   
     toObject(): Record<string, unknown> {
-      return {
+      return appendExtensions({
         schema: this.schema.toObject(),
         conversation: this.conversation.toObject(),
         sender: this.sender.toObject(),
         events: this.events.map(event => event.toObject())
-      };
+      }, this.extensions);
     }
   
     toJSON(): string {
@@ -794,98 +571,38 @@ import {
      * Creates a wrapped payload for the envelope (adds openFloor wrapper)
      */
     toPayload(): Payload {
-      return new Payload({
-        openFloor: {
-          schema: { version: this.schema.version, ...(this.schema.url ? { url: this.schema.url } : {}) },
-          conversation: {
-            id: this.conversation.id,
-            ...(this.conversation.conversants && this.conversation.conversants.length > 0
-              ? {
-                  conversants: this.conversation.conversants.map(c => {
-                    const obj = c.toObject();
-                    if (!obj.identification || typeof obj.identification !== 'object' || !hasRequiredProperties(obj.identification, ['speakerUri', 'serviceUrl', 'organization', 'conversationalName', 'synopsis'])) {
-                      throw new Error('Conversant.identification is missing required fields');
-                    }
-                    const idObj = obj.identification as Record<string, unknown>;
-                    return {
-                      identification: {
-                        speakerUri: idObj.speakerUri as string,
-                        serviceUrl: idObj.serviceUrl as string,
-                        organization: idObj.organization as string,
-                        conversationalName: idObj.conversationalName as string,
-                        synopsis: idObj.synopsis as string,
-                        ...(idObj.department !== undefined ? { department: idObj.department as string } : {}),
-                        ...(idObj.role !== undefined ? { role: idObj.role as string } : {})
-                      },
-                      ...(obj.persistentState !== undefined ? { persistentState: obj.persistentState as Record<string, unknown> } : {})
-                    };
-                  })
-                }
-              : {})
-          },
-          sender: { speakerUri: this.sender.speakerUri, ...(this.sender.serviceUrl ? { serviceUrl: this.sender.serviceUrl } : {}) },
-          events: this.events.map(e => {
-            const base: BaseEventOptions = {
-              eventType: e.eventType as EventType,
-              parameters: e.parameters
-            };
-            if (e.to) base.to = e.to.toObject() as ToOptions;
-            if (e.reason) base.reason = e.reason;
-            return base;
-          })
-        }
-      });
+      // The events were already accepted by this envelope, including any extension events
+      return new Payload({ openFloor: envelopeCodec.encode(this) }, { preserveUnknown: true });
     }
   
-    static fromObject(data: Record<string, unknown>): Envelope {
-      if (!hasRequiredProperties(data, ['schema', 'conversation', 'sender', 'events'])) {
-        throw new Error('Envelope requires schema, conversation, sender, and events');
-      }
-      const schemaObj = Schema.fromObject(data.schema as Record<string, unknown>);
-      const conversationObj = Conversation.fromObject(data.conversation as Record<string, unknown>);
-      const senderObj = Sender.fromObject(data.sender as Record<string, unknown>);
-      const eventsArr = Array.isArray(data.events)
-        ? data.events.map(eventData => Event.fromObject(eventData as Record<string, unknown>))
-        : [];
-      return new Envelope({
-        schema: { version: schemaObj.version, ...(schemaObj.url ? { url: schemaObj.url } : {}) },
-        conversation: {
-          id: conversationObj.id,
-          ...(conversationObj.conversants && conversationObj.conversants.length > 0
-            ? {
-                conversants: conversationObj.conversants.map(c => {
-                  const obj = c.toObject();
-                  if (!obj.identification || typeof obj.identification !== 'object' || !hasRequiredProperties(obj.identification, ['speakerUri', 'serviceUrl', 'organization', 'conversationalName', 'synopsis'])) {
-                    throw new Error('Conversant.identification is missing required fields');
-                  }
-                  const idObj = obj.identification as Record<string, unknown>;
-                  return {
-                    identification: {
-                      speakerUri: idObj.speakerUri as string,
-                      serviceUrl: idObj.serviceUrl as string,
-                      organization: idObj.organization as string,
-                      conversationalName: idObj.conversationalName as string,
-                      synopsis: idObj.synopsis as string,
-                      ...(idObj.department !== undefined ? { department: idObj.department as string } : {}),
-                      ...(idObj.role !== undefined ? { role: idObj.role as string } : {})
-                    },
-                    ...(obj.persistentState !== undefined ? { persistentState: obj.persistentState as Record<string, unknown> } : {})
-                  };
-                })
-              }
-            : {})
-        },
-        sender: { speakerUri: senderObj.speakerUri, ...(senderObj.serviceUrl ? { serviceUrl: senderObj.serviceUrl } : {}) },
-        events: eventsArr.map(e => {
-          const base: BaseEventOptions = {
-            eventType: e.eventType as EventType,
-            parameters: e.parameters
-          };
-          if (e.to) base.to = e.to.toObject() as ToOptions;
-          if (e.reason) base.reason = e.reason;
-          return base;
-        })
-      });
+    /**
+     * Creates an Envelope from its serialized form
+     * @param data - Serialized envelope
+     * @param parseOptions - With `preserveUnknown`, unknown properties and event types are kept
+     */
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): Envelope {
+      return new Envelope(envelopeCodec.decode(data, parseOptions), parseOptions);
+    }
+  }
+  
+  /**
+   * Builds the typed event subclass (UtteranceEvent, ContextEvent, ...) for an event.
+   * Event types that are neither defined by the specification nor registered fall back
+   * to a plain Event; events of known types must hydrate, so that an `isUtteranceEvent`
+   * event always has its dialog event.
+   * Events that carry extensions are parsed in preservation mode to keep them.
+   * @throws Error if an event of a known type cannot be hydrated
+   */
+  function hydrateEvent(options: BaseEventOptions | ExtensionEventOptions, parseOptions: ParseOptions): Event {
+    const { extensions, to, ...known } = options;
+    const data: Record<string, unknown> = { ...extensions, ...known, ...(to ? { to: new To(to).toObject() } : {}) };
+    const preserve = extensions !== undefined || to?.extensions !== undefined;
+    const eventParseOptions = preserve ? { ...parseOptions, preserveUnknown: true } : parseOptions;
+    try {
+      return createEvent(data, eventParseOptions);
+    } catch (error) {
+      if (eventTypeRegistry.isKnown(String(data.eventType))) throw error;
+      return Event.fromObject(data, eventParseOptions);
     }
   }
   
@@ -910,12 +627,13 @@ import {
     /**
      * Creates a new Payload instance
      * @param options - Payload configuration options
+     * @param parseOptions - With `preserveUnknown`, events of unknown types become ExtensionEvents
      * @throws Error if openFloor is missing
      */
-    constructor(options: PayloadOptions) {
+    constructor(options: PayloadOptions, parseOptions: ParseOptions = {}) {
       const { openFloor } = options;
       if (!openFloor) throw new Error('Payload.openFloor is required');
-      this.openFloor = new Envelope(openFloor);
+      this.openFloor = new Envelope(openFloor, parseOptions);
     }
   
     toObject(): Record<string, unknown> {
@@ -928,61 +646,22 @@ import {
       return JSON.stringify(this.toObject());
     }
   
-    static fromObject(data: Record<string, unknown>): Payload {
-      if (!hasRequiredProperties(data, ['openFloor'])) {
-        throw new Error('Payload requires openFloor');
-      }
-      const openFloorObj = Envelope.fromObject(data.openFloor as Record<string, unknown>);
-      return new Payload({
-        openFloor: {
-          schema: { version: openFloorObj.schema.version, ...(openFloorObj.schema.url ? { url: openFloorObj.schema.url } : {}) },
-          conversation: {
-            id: openFloorObj.conversation.id,
-            ...(openFloorObj.conversation.conversants && openFloorObj.conversation.conversants.length > 0
-              ? {
-                  conversants: openFloorObj.conversation.conversants.map(c => {
-                    const obj = c.toObject();
-                    if (!obj.identification || typeof obj.identification !== 'object' || !hasRequiredProperties(obj.identification, ['speakerUri', 'serviceUrl', 'organization', 'conversationalName', 'synopsis'])) {
-                      throw new Error('Conversant.identification is missing required fields');
-                    }
-                    const idObj = obj.identification as Record<string, unknown>;
-                    return {
-                      identification: {
-                        speakerUri: idObj.speakerUri as string,
-                        serviceUrl: idObj.serviceUrl as string,
-                        organization: idObj.organization as string,
-                        conversationalName: idObj.conversationalName as string,
-                        synopsis: idObj.synopsis as string,
-                        ...(idObj.department !== undefined ? { department: idObj.department as string } : {}),
-                        ...(idObj.role !== undefined ? { role: idObj.role as string } : {})
-                      },
-                      ...(obj.persistentState !== undefined ? { persistentState: obj.persistentState as Record<string, unknown> } : {})
-                    };
-                  })
-                }
-              : {})
-          },
-          sender: { speakerUri: openFloorObj.sender.speakerUri, ...(openFloorObj.sender.serviceUrl ? { serviceUrl: openFloorObj.sender.serviceUrl } : {}) },
-          events: openFloorObj.events.map(e => {
-            const base: BaseEventOptions = {
-              eventType: e.eventType as EventType,
-              parameters: e.parameters
-            };
-            if (e.to) base.to = e.to.toObject() as ToOptions;
-            if (e.reason) base.reason = e.reason;
-            return base;
-          })
-        }
-      });
+    /**
+     * Creates a Payload from its serialized form
+     * @param data - Serialized payload
+     * @param parseOptions - With `preserveUnknown`, unknown properties and event types are kept
+     */
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): Payload {
+      return new Payload(payloadCodec.decode(data, parseOptions), parseOptions);
     }
   
     /**
      * Creates a Payload from a JSON string
      */
-    static fromJSON(jsonString: string): Payload {
+    static fromJSON(jsonString: string, parseOptions: ParseOptions = {}): Payload {
       try {
         const data = JSON.parse(jsonString);
-        return Payload.fromObject(data);
+        return Payload.fromObject(data, parseOptions);
       } catch (error) {
         throw new Error(`Failed to parse JSON payload: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
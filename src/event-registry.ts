@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Registry of application-defined event types for the Open Floor Protocol
+ * Lets domain events travel in the same envelopes as the events of the specification
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import { EventType, ParseOptions } from './types';
+import type { Event } from './base-event';
+
+/**
+ * Event types defined by the specification
+ */
+export const SPECIFICATION_EVENT_TYPES: readonly EventType[] = [
+  'utterance', 'context', 'invite', 'uninvite', 'declineInvite', 'bye',
+  'getManifests', 'publishManifests', 'requestFloor', 'grantFloor', 'revokeFloor', 'yieldFloor'
+];
+
+/**
+ * Describes an application-defined event type
+ */
+export interface EventTypeDefinition<T extends Event = Event> {
+  /** Value of `eventType` in serialized events */
+  eventType: string;
+  /** Class of the events, usually a subclass of ExtensionEvent */
+  eventClass: abstract new (...args: any[]) => T;
+  /** Creates an event from its serialized form */
+  fromObject(data: Record<string, unknown>, parseOptions: ParseOptions): T;
+  /** JSON Schema that the `parameters` of the events must match */
+  parametersSchema?: Record<string, any>;
+  /** Type guard for the events; defaults to an instanceof check against `eventClass` */
+  isEvent?(event: Event): event is T;
+}
+
+/**
+ * A registered definition, with its type guard filled in
+ */
+type RegisteredEventType = EventTypeDefinition & Required<Pick<EventTypeDefinition, 'isEvent'>>;
+
+/**
+ * Registry of application-defined event types
+ * Registered types are accepted by the Event constructor, hydrated by `createEvent`
+ * and Envelope parsing, validated by `validateEnvelope`, and dispatched to the
+ * handlers that agents register with `on()` under the event type.
+ *
+ * @example
+ * ```typescript
+ * class HandoffSummaryEvent extends ExtensionEvent {
+ *   constructor(options: { summary: string }) {
+ *     super({ eventType: 'handoffSummary', parameters: { summary: options.summary } });
+ *   }
+ *   static fromObject(data: Record<string, unknown>): HandoffSummaryEvent {
+ *     return new HandoffSummaryEvent({ summary: (data.parameters as any).summary });
+ *   }
+ * }
+ *
+ * eventTypeRegistry.register({
+ *   eventType: 'handoffSummary',
+ *   eventClass: HandoffSummaryEvent,
+ *   fromObject: HandoffSummaryEvent.fromObject,
+ *   parametersSchema: { type: 'object', required: ['summary'], properties: { summary: { type: 'string' } } }
+ * });
+ * ```
+ */
+export class EventTypeRegistry {
+  private _definitions = new Map<string, RegisteredEventType>();
+  private _snapshot: readonly EventTypeDefinition[] = Object.freeze([]);
+
+  /**
+   * Get the registered definitions, in registration order
+   * The array is replaced whenever the registry changes, so it can serve as a cache key.
+   */
+  get definitions(): readonly EventTypeDefinition[] {
+    return this._snapshot;
+  }
+
+  /**
+   * Register an event type
+   * @param definition - Event type definition
+   * @throws Error if the event type is empty, defined by the specification or already registered
+   */
+  register<T extends Event>(definition: EventTypeDefinition<T>): void {
+    const { eventType, eventClass } = definition;
+    if (!eventType) {
+      throw new Error('EventTypeRegistry.register requires an eventType');
+    }
+    if ((SPECIFICATION_EVENT_TYPES as readonly string[]).includes(eventType)) {
+      throw new Error(`Event type ${eventType} is defined by the specification`);
+    }
+    if (this._definitions.has(eventType)) {
+      throw new Error(`Event type ${eventType} is already registered`);
+    }
+
+    this._definitions.set(eventType, {
+      ...(definition as unknown as EventTypeDefinition),
+      isEvent: definition.isEvent ?? ((event: Event): event is T => event instanceof eventClass)
+    });
+    this._snapshot = Object.freeze(Array.from(this._definitions.values()));
+  }
+
+  /**
+   * Remove a registered event type
+   * @param eventType - Event type to remove
+   * @returns Whether the event type was registered
+   */
+  unregister(eventType: string): boolean {
+    const removed = this._definitions.delete(eventType);
+    if (removed) {
+      this._snapshot = Object.freeze(Array.from(this._definitions.values()));
+    }
+    return removed;
+  }
+
+  /**
+   * Get the definition of a registered event type
+   * @param eventType - Event type
+   * @returns The definition, with its type guard, or undefined if the type is not registered
+   */
+  get(eventType: string): RegisteredEventType | undefined {
+    return this._definitions.get(eventType);
+  }
+
+  /**
+   * Whether an event type is registered
+   */
+  has(eventType: string): boolean {
+    return this._definitions.has(eventType);
+  }
+
+  /**
+   * Whether an event type is defined by the specification or registered
+   */
+  isKnown(eventType: string): boolean {
+    return (SPECIFICATION_EVENT_TYPES as readonly string[]).includes(eventType) || this._definitions.has(eventType);
+  }
+}
+
+/**
+ * Registry consulted by events, envelopes, validators and agents
+ */
+export const eventTypeRegistry = new EventTypeRegistry();
@@ -13,9 +13,12 @@ import {
     PublishManifestsEventOptions,
     RecommendScope,
     ToOptions,
-    BaseEventOptions
+    BaseEventOptions,
+    ParseOptions
   } from './types';
-  import { Event, To } from './envelope';
+  import { Event } from './base-event';
+  import { decodeEventBase } from './codecs';
+  import { eventTypeRegistry } from './event-registry';
   import { DialogEvent, DialogHistory } from './dialog-event';
   import { Manifest } from './envelope';
   import { createValidationError } from './utils';
@@ -46,7 +49,7 @@ import {
      * @throws Error if dialogEvent is missing
      */
     constructor(options: UtteranceEventOptions) {
-      const { dialogEvent, to, reason } = options;
+      const { dialogEvent, to, reason, extensions } = options;
   
       if (!dialogEvent) {
         throw new Error(createValidationError(
@@ -61,12 +64,13 @@ import {
       const baseOptions: BaseEventOptions = { eventType: 'utterance', parameters: { dialogEvent: dialogEventInstance.toObject() } };
       if (to !== undefined) baseOptions.to = to;
       if (reason !== undefined) baseOptions.reason = reason;
+      if (extensions !== undefined) baseOptions.extensions = extensions;
       super(baseOptions);
   
       this.dialogEvent = dialogEventInstance;
     }
   
-    static fromObject(data: Record<string, unknown>): UtteranceEvent {
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): UtteranceEvent {
       if (!data.parameters || typeof data.parameters !== 'object') {
         throw new Error('UtteranceEvent requires parameters with dialogEvent');
       }
@@ -82,12 +86,7 @@ import {
         ).toObject() as any
       };
   
-      if (data.reason !== undefined) options.reason = data.reason as string;
-      if (data.to && typeof data.to === 'object') {
-        options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      }
-  
-      return new UtteranceEvent(options);
+      return new UtteranceEvent({ ...options, ...decodeEventBase(data, parseOptions) });
     }
   }
   
@@ -116,7 +115,7 @@ import {
      * @param options - ContextEvent configuration options
      */
     constructor(options: ContextEventOptions) {
-      const { dialogHistory = [], to, reason, ...additionalParams } = options;
+      const { dialogHistory = [], to, reason, extensions, ...additionalParams } = options;
   
       const dialogHistoryInstance = dialogHistory.map(eventData => new DialogEvent(eventData));
   
@@ -128,22 +127,21 @@ import {
       const baseOptions: BaseEventOptions = { eventType: 'context', parameters };
       if (to !== undefined) baseOptions.to = to;
       if (reason !== undefined) baseOptions.reason = reason;
+      if (extensions !== undefined) baseOptions.extensions = extensions;
       super(baseOptions);
   
       this.dialogHistory = dialogHistoryInstance;
     }
   
-    static fromObject(data: Record<string, unknown>): ContextEvent {
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): ContextEvent {
       const params = (data.parameters as Record<string, unknown>) || {};
       const options: ContextEventOptions = {
+        ...params,
         dialogHistory: (params.dialogHistory as any[] || []).map(eventData =>
           DialogEvent.fromObject(eventData as Record<string, unknown>).toObject() as any
-        ),
-        ...params
+        )
       };
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      return new ContextEvent(options);
+      return new ContextEvent({ ...options, ...decodeEventBase(data, parseOptions) });
     }
   }
   
@@ -163,18 +161,16 @@ import {
      * Creates a new InviteEvent instance
      * @param options - InviteEvent configuration options
      */
-    constructor(options: { to?: ToOptions; reason?: string } = {}) {
+    constructor(options: { to?: ToOptions; reason?: string; extensions?: Record<string, unknown> } = {}) {
       const baseOptions: BaseEventOptions = { eventType: 'invite', parameters: {} };
       if (options.to !== undefined) baseOptions.to = options.to;
       if (options.reason !== undefined) baseOptions.reason = options.reason;
+      if (options.extensions !== undefined) baseOptions.extensions = options.extensions;
       super(baseOptions);
     }
   
-    static fromObject(data: Record<string, unknown>): InviteEvent {
-      const options: { to?: ToOptions; reason?: string } = {};
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      return new InviteEvent(options);
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): InviteEvent {
+      return new InviteEvent(decodeEventBase(data, parseOptions));
     }
   }
   
@@ -195,18 +191,16 @@ import {
      * Creates a new UninviteEvent instance
      * @param options - UninviteEvent configuration options
      */
-    constructor(options: { to?: ToOptions; reason?: string } = {}) {
+    constructor(options: { to?: ToOptions; reason?: string; extensions?: Record<string, unknown> } = {}) {
       const baseOptions: BaseEventOptions = { eventType: 'uninvite', parameters: {} };
       if (options.to !== undefined) baseOptions.to = options.to;
       if (options.reason !== undefined) baseOptions.reason = options.reason;
+      if (options.extensions !== undefined) baseOptions.extensions = options.extensions;
       super(baseOptions);
     }
   
-    static fromObject(data: Record<string, unknown>): UninviteEvent {
-      const options: { to?: ToOptions; reason?: string } = {};
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      return new UninviteEvent(options);
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): UninviteEvent {
+      return new UninviteEvent(decodeEventBase(data, parseOptions));
     }
   }
   
@@ -227,18 +221,16 @@ import {
      * Creates a new DeclineInviteEvent instance
      * @param options - DeclineInviteEvent configuration options
      */
-    constructor(options: { to?: ToOptions; reason?: string } = {}) {
+    constructor(options: { to?: ToOptions; reason?: string; extensions?: Record<string, unknown> } = {}) {
       const baseOptions: BaseEventOptions = { eventType: 'declineInvite', parameters: {} };
       if (options.to !== undefined) baseOptions.to = options.to;
       if (options.reason !== undefined) baseOptions.reason = options.reason;
+      if (options.extensions !== undefined) baseOptions.extensions = options.extensions;
       super(baseOptions);
     }
   
-    static fromObject(data: Record<string, unknown>): DeclineInviteEvent {
-      const options: { to?: ToOptions; reason?: string } = {};
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      return new DeclineInviteEvent(options);
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): DeclineInviteEvent {
+      return new DeclineInviteEvent(decodeEventBase(data, parseOptions));
     }
   }
   
@@ -258,18 +250,16 @@ import {
      * Creates a new ByeEvent instance
      * @param options - ByeEvent configuration options
      */
-    constructor(options: { to?: ToOptions; reason?: string } = {}) {
+    constructor(options: { to?: ToOptions; reason?: string; extensions?: Record<string, unknown> } = {}) {
       const baseOptions: BaseEventOptions = { eventType: 'bye', parameters: {} };
       if (options.to !== undefined) baseOptions.to = options.to;
       if (options.reason !== undefined) baseOptions.reason = options.reason;
+      if (options.extensions !== undefined) baseOptions.extensions = options.extensions;
       super(baseOptions);
     }
   
-    static fromObject(data: Record<string, unknown>): ByeEvent {
-      const options: { to?: ToOptions; reason?: string } = {};
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      return new ByeEvent(options);
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): ByeEvent {
+      return new ByeEvent(decodeEventBase(data, parseOptions));
     }
   }
   
@@ -293,22 +283,21 @@ import {
      * @param options - GetManifestsEvent configuration options
      */
     constructor(options: GetManifestsEventOptions) {
-      const { recommendScope = 'internal', to, reason } = options;
+      const { recommendScope = 'internal', to, reason, extensions } = options;
   
       const baseOptions: BaseEventOptions = { eventType: 'getManifests', parameters: { recommendScope } };
       if (to !== undefined) baseOptions.to = to;
       if (reason !== undefined) baseOptions.reason = reason;
+      if (extensions !== undefined) baseOptions.extensions = extensions;
       super(baseOptions);
   
       this.recommendScope = recommendScope;
     }
   
-    static fromObject(data: Record<string, unknown>): GetManifestsEvent {
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): GetManifestsEvent {
       const recommendScope = (data.parameters as any)?.recommendScope as RecommendScope ?? 'internal';
       const options: GetManifestsEventOptions = { recommendScope };
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      return new GetManifestsEvent(options);
+      return new GetManifestsEvent({ ...options, ...decodeEventBase(data, parseOptions) });
     }
   }
   
@@ -339,7 +328,7 @@ import {
      * @param options - PublishManifestsEvent configuration options
      */
     constructor(options: PublishManifestsEventOptions) {
-      const { servicingManifests = [], discoveryManifests = [], to, reason } = options;
+      const { servicingManifests = [], discoveryManifests = [], to, reason, extensions } = options;
   
       const servicingInstances = servicingManifests.map(manifest => new Manifest(manifest));
       const discoveryInstances = discoveryManifests.map(manifest => new Manifest(manifest));
@@ -350,21 +339,20 @@ import {
       } };
       if (to !== undefined) baseOptions.to = to;
       if (reason !== undefined) baseOptions.reason = reason;
+      if (extensions !== undefined) baseOptions.extensions = extensions;
       super(baseOptions);
   
       this.servicingManifests = Object.freeze(servicingInstances);
       this.discoveryManifests = Object.freeze(discoveryInstances);
     }
   
-    static fromObject(data: Record<string, unknown>): PublishManifestsEvent {
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): PublishManifestsEvent {
       const params = (data.parameters as Record<string, unknown>) || {};
       const options: PublishManifestsEventOptions = {
         servicingManifests: Array.isArray(params.servicingManifests) ? params.servicingManifests : [],
         discoveryManifests: Array.isArray(params.discoveryManifests) ? params.discoveryManifests : []
       };
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      return new PublishManifestsEvent(options);
+      return new PublishManifestsEvent({ ...options, ...decodeEventBase(data, parseOptions) });
     }
   }
   
@@ -385,18 +373,16 @@ import {
      * Creates a new RequestFloorEvent instance
      * @param options - RequestFloorEvent configuration options
      */
-    constructor(options: { to?: ToOptions; reason?: string } = {}) {
+    constructor(options: { to?: ToOptions; reason?: string; extensions?: Record<string, unknown> } = {}) {
       const baseOptions: BaseEventOptions = { eventType: 'requestFloor', parameters: {} };
       if (options.to !== undefined) baseOptions.to = options.to;
       if (options.reason !== undefined) baseOptions.reason = options.reason;
+      if (options.extensions !== undefined) baseOptions.extensions = options.extensions;
       super(baseOptions);
     }
   
-    static fromObject(data: Record<string, unknown>): RequestFloorEvent {
-      const options: { to?: ToOptions; reason?: string } = {};
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      return new RequestFloorEvent(options);
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): RequestFloorEvent {
+      return new RequestFloorEvent(decodeEventBase(data, parseOptions));
     }
   }
   
@@ -416,18 +402,16 @@ import {
      * Creates a new GrantFloorEvent instance
      * @param options - GrantFloorEvent configuration options
      */
-    constructor(options: { to?: ToOptions; reason?: string } = {}) {
+    constructor(options: { to?: ToOptions; reason?: string; extensions?: Record<string, unknown> } = {}) {
       const baseOptions: BaseEventOptions = { eventType: 'grantFloor', parameters: {} };
       if (options.to !== undefined) baseOptions.to = options.to;
       if (options.reason !== undefined) baseOptions.reason = options.reason;
+      if (options.extensions !== undefined) baseOptions.extensions = options.extensions;
       super(baseOptions);
     }
   
-    static fromObject(data: Record<string, unknown>): GrantFloorEvent {
-      const options: { to?: ToOptions; reason?: string } = {};
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      return new GrantFloorEvent(options);
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): GrantFloorEvent {
+      return new GrantFloorEvent(decodeEventBase(data, parseOptions));
     }
   }
   
@@ -448,18 +432,16 @@ import {
      * Creates a new RevokeFloorEvent instance
      * @param options - RevokeFloorEvent configuration options
      */
-    constructor(options: { to?: ToOptions; reason?: string } = {}) {
+    constructor(options: { to?: ToOptions; reason?: string; extensions?: Record<string, unknown> } = {}) {
       const baseOptions: BaseEventOptions = { eventType: 'revokeFloor', parameters: {} };
       if (options.to !== undefined) baseOptions.to = options.to;
       if (options.reason !== undefined) baseOptions.reason = options.reason;
+      if (options.extensions !== undefined) baseOptions.extensions = options.extensions;
       super(baseOptions);
     }
   
-    static fromObject(data: Record<string, unknown>): RevokeFloorEvent {
-      const options: { to?: ToOptions; reason?: string } = {};
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      return new RevokeFloorEvent(options);
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): RevokeFloorEvent {
+      return new RevokeFloorEvent(decodeEventBase(data, parseOptions));
     }
   }
   
@@ -479,26 +461,27 @@ import {
      * Creates a new YieldFloorEvent instance
      * @param options - YieldFloorEvent configuration options
      */
-    constructor(options: { to?: ToOptions; reason?: string } = {}) {
+    constructor(options: { to?: ToOptions; reason?: string; extensions?: Record<string, unknown> } = {}) {
       const baseOptions: BaseEventOptions = { eventType: 'yieldFloor', parameters: {} };
       if (options.to !== undefined) baseOptions.to = options.to;
       if (options.reason !== undefined) baseOptions.reason = options.reason;
+      if (options.extensions !== undefined) baseOptions.extensions = options.extensions;
       super(baseOptions);
     }
   
-    static fromObject(data: Record<string, unknown>): YieldFloorEvent {
-      const options: { to?: ToOptions; reason?: string } = {};
-      if (data.to && typeof data.to === 'object') options.to = To.fromObject(data.to as Record<string, unknown>).toObject() as ToOptions;
-      if (typeof data.reason === 'string') options.reason = data.reason;
-      return new YieldFloorEvent(options);
+    static fromObject(data: Record<string, unknown>, parseOptions: ParseOptions = {}): YieldFloorEvent {
+      return new YieldFloorEvent(decodeEventBase(data, parseOptions));
     }
   }
   
   /**
    * Event factory function to create appropriate event instances from generic event data
-   * Automatically determines the correct event class based on eventType
+   * Automatically determines the correct event class based on eventType, including
+   * the event types registered with `eventTypeRegistry`
    * 
    * @param data - Raw event data object
+   * @param parseOptions - With `preserveUnknown`, unknown properties are kept and
+   *   unknown event types are returned as an ExtensionEvent
    * @returns Appropriate Event instance
    * @throws Error if eventType is unknown
    * 
@@ -511,36 +494,40 @@ import {
    * const event = createEvent(eventData); // Returns UtteranceEvent instance
    * ```
    */
-  export function createEvent(data: Record<string, unknown>): Event {
+  export function createEvent(data: Record<string, unknown>, parseOptions: ParseOptions = {}): Event {
     const eventType = data.eventType as string;
   
     switch (eventType) {
       case 'utterance':
-        return UtteranceEvent.fromObject(data);
+        return UtteranceEvent.fromObject(data, parseOptions);
       case 'context':
-        return ContextEvent.fromObject(data);
+        return ContextEvent.fromObject(data, parseOptions);
       case 'invite':
-        return InviteEvent.fromObject(data);
+        return InviteEvent.fromObject(data, parseOptions);
       case 'uninvite':
-        return UninviteEvent.fromObject(data);
+        return UninviteEvent.fromObject(data, parseOptions);
       case 'declineInvite':
-        return DeclineInviteEvent.fromObject(data);
+        return DeclineInviteEvent.fromObject(data, parseOptions);
       case 'bye':
-        return ByeEvent.fromObject(data);
+        return ByeEvent.fromObject(data, parseOptions);
       case 'getManifests':
-        return GetManifestsEvent.fromObject(data);
+        return GetManifestsEvent.fromObject(data, parseOptions);
       case 'publishManifests':
-        return PublishManifestsEvent.fromObject(data);
+        return PublishManifestsEvent.fromObject(data, parseOptions);
       case 'requestFloor':
-        return RequestFloorEvent.fromObject(data);
+        return RequestFloorEvent.fromObject(data, parseOptions);
       case 'grantFloor':
-        return GrantFloorEvent.fromObject(data);
+        return GrantFloorEvent.fromObject(data, parseOptions);
       case 'revokeFloor':
-        return RevokeFloorEvent.fromObject(data);
+        return RevokeFloorEvent.fromObject(data, parseOptions);
       case 'yieldFloor':
-        return YieldFloorEvent.fromObject(data);
-      default:
+        return YieldFloorEvent.fromObject(data, parseOptions);
+      default: {
+        const definition = eventTypeRegistry.get(eventType);
+        if (definition) return definition.fromObject(data, parseOptions);
+        if (parseOptions.preserveUnknown) return Event.fromObject(data, parseOptions);
         throw new Error(`Unknown event type: ${eventType}`);
+      }
     }
   }
   
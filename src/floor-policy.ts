@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Floor control policies for the Open Floor Protocol
+ * Decide how a floor manager arbitrates requestFloor events between conversants
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import { Manifest } from './envelope';
+
+/**
+ * A pending request for the conversational floor
+ */
+export interface FloorRequest {
+  /** Speaker URI of the requesting conversant */
+  speakerUri: string;
+  /** Manifest of the requesting conversant, if it is a known conversant */
+  manifest?: Manifest;
+  /** Reason given in the requestFloor event */
+  reason?: string;
+}
+
+/**
+ * Snapshot of the floor state handed to a policy
+ */
+export interface FloorState {
+  /** Speaker URI of the current floor holder */
+  holder: string | null;
+  /** Speaker URI of the conversant that held the floor before the current holder */
+  previousHolder: string | null;
+  /** Requests waiting for the floor, in arrival order */
+  queue: readonly FloorRequest[];
+  /** Active conversants, in the order they joined */
+  conversants: readonly Manifest[];
+}
+
+/**
+ * What a floor manager should do with a new request for the floor
+ * - `grant`: grant the floor to the requester now
+ * - `override`: revoke the floor from the holder with `@override`, then grant it to the requester
+ * - `queue`: hold the request until the policy selects it from the queue
+ */
+export type FloorDecision = 'grant' | 'override' | 'queue';
+
+/**
+ * Strategy used by a floor manager to arbitrate the floor
+ * Policies should be deterministic: the same state must always produce the same decision.
+ */
+export interface FloorPolicy {
+  /**
+   * Decide what to do with a new request for the floor
+   * @param request - The new request
+   * @param state - Current floor state (the request is not yet in the queue)
+   */
+  onRequest(request: FloorRequest, state: FloorState): FloorDecision;
+
+  /**
+   * Choose the queued request to grant when the floor becomes free
+   * @param state - Current floor state
+   * @returns The request to grant, or null to leave the floor free
+   */
+  next(state: FloorState): FloorRequest | null;
+
+  /**
+   * Whether a conversant may grant the floor by sending a grantFloor event
+   * Policies that do not implement this never accept grants from conversants.
+   * @param speakerUri - Speaker URI of the sender of the grantFloor event
+   */
+  mayGrant?(speakerUri: string): boolean;
+}
+
+/**
+ * Grants a free floor immediately and queues requests in arrival order
+ *
+ * @example
+ * ```typescript
+ * const floorManager = new FloorManager(manifest, { policy: new FirstComeFloorPolicy() });
+ * ```
+ */
+export class FirstComeFloorPolicy implements FloorPolicy {
+  onRequest(_request: FloorRequest, state: FloorState): FloorDecision {
+    return state.holder === null ? 'grant' : 'queue';
+  }
+
+  next(state: FloorState): FloorRequest | null {
+    return state.queue[0] ?? null;
+  }
+}
+
+/**
+ * Configuration options for a priority floor policy
+ */
+export interface PriorityFloorPolicyOptions {
+  /** Priority by manifest `identification.role` */
+  roles?: Record<string, number>;
+  /** Priority by manifest `identification.department` */
+  departments?: Record<string, number>;
+  /** Whether a request with a strictly higher priority than the holder overrides the holder */
+  preempt?: boolean;
+}
+
+/**
+ * Orders requests by a priority derived from the requester's manifest
+ * A conversant's priority is the sum of its role and department priorities
+ * (0 when not listed). Equal priorities are served in arrival order.
+ *
+ * @example
+ * ```typescript
+ * const policy = new PriorityFloorPolicy({
+ *   roles: { supervisor: 10, assistant: 1 },
+ *   departments: { emergency: 5 },
+ *   preempt: true
+ * });
+ * ```
+ */
+export class PriorityFloorPolicy implements FloorPolicy {
+  private readonly _options: PriorityFloorPolicyOptions;
+
+  /**
+   * Creates a new PriorityFloorPolicy instance
+   * @param options - Priority configuration
+   */
+  constructor(options: PriorityFloorPolicyOptions = {}) {
+    this._options = { ...options };
+  }
+
+  /**
+   * Compute the priority of a conversant from its manifest
+   * @param manifest - Conversant manifest
+   * @returns Priority (higher is served first)
+   */
+  priorityOf(manifest: Manifest | undefined): number {
+    const { role, department } = manifest?.identification ?? {};
+    return (role !== undefined ? this._options.roles?.[role] ?? 0 : 0) +
+      (department !== undefined ? this._options.departments?.[department] ?? 0 : 0);
+  }
+
+  onRequest(request: FloorRequest, state: FloorState): FloorDecision {
+    if (state.holder === null) return 'grant';
+    if (!this._options.preempt) return 'queue';
+
+    const holder = state.conversants.find(m => m.identification.speakerUri === state.holder);
+    return this.priorityOf(request.manifest) > this.priorityOf(holder) ? 'override' : 'queue';
+  }
+
+  next(state: FloorState): FloorRequest | null {
+    let best: FloorRequest | null = null;
+    for (const request of state.queue) {
+      if (best === null || this.priorityOf(request.manifest) > this.priorityOf(best.manifest)) {
+        best = request;
+      }
+    }
+    return best;
+  }
+}
+
+/**
+ * Hands a freed floor to the next waiting conversant in joining order,
+ * starting after the conversant that last held it
+ *
+ * @example
+ * ```typescript
+ * const floorManager = new FloorManager(manifest, { policy: new RoundRobinFloorPolicy() });
+ * ```
+ */
+export class RoundRobinFloorPolicy implements FloorPolicy {
+  onRequest(_request: FloorRequest, state: FloorState): FloorDecision {
+    return state.holder === null ? 'grant' : 'queue';
+  }
+
+  next(state: FloorState): FloorRequest | null {
+    if (state.queue.length === 0) return null;
+
+    const order = state.conversants.map(m => m.identification.speakerUri);
+    const last = state.holder ?? state.previousHolder;
+    const start = last !== null ? order.indexOf(last) + 1 : 0;
+
+    for (let i = 0; i < order.length; i++) {
+      const speakerUri = order[(start + i) % order.length];
+      const request = state.queue.find(r => r.speakerUri === speakerUri);
+      if (request) return request;
+    }
+
+    // Requests from conversants that are not in the rotation are served last
+    return state.queue[0] ?? null;
+  }
+}
+
+/**
+ * Queues every request until a convener grants the floor with a grantFloor event
+ *
+ * @example
+ * ```typescript
+ * const policy = new ConvenerApprovalFloorPolicy('tag:example.com,2025:convener');
+ * ```
+ */
+export class ConvenerApprovalFloorPolicy implements FloorPolicy {
+  /**
+   * Creates a new ConvenerApprovalFloorPolicy instance
+   * @param convenerUri - Speaker URI of the convener whose grants are honoured
+   */
+  constructor(readonly convenerUri: string) {}
+
+  onRequest(): FloorDecision {
+    return 'queue';
+  }
+
+  next(): FloorRequest | null {
+    return null;
+  }
+
+  mayGrant(speakerUri: string): boolean {
+    return speakerUri === this.convenerUri;
+  }
+}
@@ -20,8 +20,21 @@ export type {
   SenderOptions,
   ToOptions,
   BaseEventOptions,
+  ExtensionEventOptions,
   EnvelopeOptions,
   PayloadOptions,
+  ParseOptions,
+  EnvelopeBuildOptions,
+  SsmlFeatureOptions,
+  HtmlFeatureOptions,
+  AudioClipOptions,
+  AudioFeatureOptions,
+  ImageFeatureOptions,
+  NBestHypothesisOptions,
+  NBestFeatureOptions,
+  FeatureDelta,
+  DialogEventDelta,
+  DialogEventProducerOptions,
   JsonSerializable,
   EventType,
   UtteranceEventOptions,
@@ -31,7 +44,23 @@ export type {
   RecommendScope,
   FloorReasonToken,
   AgentEventHandlers,
-  ValidationResult
+  BotAgentOptions,
+  InviteDecision,
+  AgentServerOptions,
+  AgentClientOptions,
+  AgentRequestOptions,
+  Clock,
+  ValidationResult,
+  ValidationErrorCode,
+  ValidationErrorDetail,
+  SchemaCompiler,
+  SchemaCompilerError,
+  CompiledSchema,
+  SemanticRuleId,
+  SemanticSeverity,
+  SemanticIssue,
+  SemanticValidationResult,
+  SemanticValidationOptions
 } from './types';
 
 // Utility functions
@@ -44,10 +73,14 @@ export {
   isValidUrl,
   isValidConfidence,
   isValidEncoding,
+  findSsmlError,
+  markupToText,
   deepClone,
   hasRequiredProperties,
   createValidationError
 } from './utils';
+export { JsonPath, JsonPathError } from './json-path';
+export type { JsonPathNode } from './json-path';
 
 // Dialog Event classes and types
 export {
@@ -55,9 +88,16 @@ export {
   Token,
   Feature,
   TextFeature,
+  SsmlFeature,
+  HtmlFeature,
+  AudioFeature,
+  ImageFeature,
   DialogEvent
 } from './dialog-event';
-export type { DialogHistory } from './dialog-event';
+export type { DialogHistory, FeatureHypothesis } from './dialog-event';
+export { TokenLinkGraph } from './token-links';
+export { DialogEventProducer, DialogEventAccumulator } from './dialog-event-stream';
+export type { TokenReference, TokenLink } from './token-links';
 
 // Envelope and Manifest classes
 export {
@@ -71,9 +111,37 @@ export {
   Sender,
   To,
   Event,
+  ExtensionEvent,
   Envelope,
   Payload
 } from './envelope';
+export { EnvelopeBuilder } from './envelope-builder';
+
+// Codecs between serialized objects and constructor options
+export {
+  schemaCodec,
+  identificationCodec,
+  supportedLayersCodec,
+  capabilityCodec,
+  manifestCodec,
+  conversantCodec,
+  conversationCodec,
+  senderCodec,
+  toCodec,
+  eventCodec,
+  envelopeCodec,
+  payloadCodec,
+  decodeEventBase
+} from './codecs';
+export type { Codec, EventBaseOptions } from './codecs';
+
+// Application-defined event types
+export {
+  EventTypeRegistry,
+  eventTypeRegistry,
+  SPECIFICATION_EVENT_TYPES
+} from './event-registry';
+export type { EventTypeDefinition } from './event-registry';
 
 // Event classes and utilities
 export {
@@ -111,6 +179,37 @@ export {
   FloorManager,
   ConvenerAgent
 } from './agents';
+export type {
+  AgentEventMap,
+  AgentEventContext,
+  AgentEventHandler,
+  BotConversationState,
+  EnvelopeDelivery,
+  DeliveryResult,
+  EnvelopeTransport,
+  FloorManagerOptions,
+  ConvenerAgentOptions
+} from './agents';
+export { systemClock } from './timers';
+
+// Floor control policies
+export {
+  FirstComeFloorPolicy,
+  PriorityFloorPolicy,
+  RoundRobinFloorPolicy,
+  ConvenerApprovalFloorPolicy
+} from './floor-policy';
+export type {
+  FloorPolicy,
+  FloorRequest,
+  FloorState,
+  FloorDecision,
+  PriorityFloorPolicyOptions
+} from './floor-policy';
+
+// HTTP transport
+export { createAgentRequestListener } from './server';
+export { AgentClient } from './client';
 
 // Validation functions and schemas
 export {
@@ -120,8 +219,18 @@ export {
   validateDialogEventEnhanced,
   validateManifestEnhanced,
   validateEnvelopeEnhanced,
+  SimpleValidator,
   EnhancedValidator
 } from './validation';
+export {
+  SchemaRegistry,
+  createBundledSchemaRegistry,
+  defaultSchemaRegistry,
+  CONVERSATION_ENVELOPE_SCHEMA_ID,
+  DIALOG_EVENT_SCHEMA_ID,
+  ASSISTANT_MANIFEST_SCHEMA_ID
+} from './schema-registry';
+export { validateSemantics, FLOOR_REASON_TOKENS } from './semantics';
 
 // Version information
 export const VERSION = '0.0.1';
@@ -276,17 +385,12 @@ export function createSimpleEnvelope(options: {
 }): Envelope {
   const { conversationId, senderUri, senderServiceUrl, events = [], schemaVersion = '1.0.0', schemaUrl } = options;
 
-  const schema = schemaUrl ? { version: schemaVersion, url: schemaUrl } : { version: schemaVersion };
-  const conversation = { id: conversationId ?? generateUUID() };
-  const sender: any = { speakerUri: senderUri };
-  if (senderServiceUrl !== undefined) sender.serviceUrl = senderServiceUrl;
-
-  return new Envelope({
-    schema,
-    conversation,
-    sender,
-    events: events.map(event => event.toObject() as any)
-  });
+  return new EnvelopeBuilder()
+    .schema(schemaVersion, schemaUrl)
+    .conversation(conversationId ?? generateUUID())
+    .from(senderServiceUrl !== undefined ? { speakerUri: senderUri, serviceUrl: senderServiceUrl } : { speakerUri: senderUri })
+    .event(...events)
+    .build({ validate: false });
 }
 
 /**
@@ -378,6 +482,10 @@ import {
   Token, 
   Feature, 
   TextFeature, 
+  SsmlFeature, 
+  HtmlFeature, 
+  AudioFeature, 
+  ImageFeature, 
   DialogEvent 
 } from './dialog-event';
 
@@ -396,6 +504,8 @@ import {
   Payload 
 } from './envelope';
 
+import { EnvelopeBuilder } from './envelope-builder';
+
 import { 
   OpenFloorAgent, 
   BotAgent, 
@@ -414,6 +524,10 @@ export default {
   Token,
   Feature,
   TextFeature,
+  SsmlFeature,
+  HtmlFeature,
+  AudioFeature,
+  ImageFeature,
   DialogEvent,
   Schema,
   Identification,
@@ -427,6 +541,7 @@ export default {
   Event,
   Envelope,
   Payload,
+  EnvelopeBuilder,
   
   // Event classes
   UtteranceEvent,
@@ -0,0 +1,942 @@
+/**
+ * @fileoverview JSONPath (RFC 9535) for the Open Floor Protocol
+ * Compiles and evaluates the JSONPath expressions that dialog event tokens use to
+ * link to values in other features, with the `substring()` extension of the Dialog Event specification
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+/**
+ * Maximum number of compiled expressions kept by JsonPath.compile()
+ */
+const CACHE_SIZE = 500;
+
+/**
+ * Largest integer allowed in an expression (I-JSON range)
+ */
+const MAX_INTEGER = Number.MAX_SAFE_INTEGER;
+
+/**
+ * The `substring()` extension, which may only end an expression
+ */
+const SUBSTRING = /^\.substring\((\d+),(\d+)\)$/;
+
+/**
+ * Error raised for an expression that is not valid JSONPath
+ */
+export class JsonPathError extends Error {
+  /**
+   * @param expression - The invalid expression
+   * @param position - Offset of the invalid character in the expression
+   * @param reason - What is wrong at that position
+   */
+  constructor(
+    readonly expression: string,
+    readonly position: number,
+    readonly reason: string
+  ) {
+    super(`Invalid JSONPath ${JSON.stringify(expression)} at position ${position}: ${reason}`);
+    this.name = 'JsonPathError';
+  }
+}
+
+/**
+ * A compiled JSONPath expression
+ * Expressions are parsed once and can be evaluated against any number of values.
+ * Compiling checks the full RFC 9535 grammar and the types of function arguments,
+ * so evaluation itself never fails.
+ *
+ * @example
+ * ```typescript
+ * const path = JsonPath.compile('$.text.tokens[?@.confidence > 0.5].value');
+ * path.query(features); // Values of the confident tokens
+ *
+ * JsonPath.compile('$.text.tokens[0].value.substring(0,5)').query(features); // ["Hello"]
+ * ```
+ */
+export class JsonPath {
+  private static readonly _cache = new Map<string, JsonPath>();
+
+  private constructor(
+    readonly expression: string,
+    private readonly _query: Query,
+    private readonly _substring?: readonly [number, number]
+  ) {}
+
+  /**
+   * Compile an expression, reusing the result of earlier compilations of the same expression
+   * @param expression - JSONPath expression, starting with `$`
+   * @returns The compiled expression
+   * @throws JsonPathError if the expression is not valid JSONPath
+   */
+  static compile(expression: string): JsonPath {
+    const cached = JsonPath._cache.get(expression);
+    if (cached) {
+      // Move to the end, so the least recently used expression is evicted first
+      JsonPath._cache.delete(expression);
+      JsonPath._cache.set(expression, cached);
+      return cached;
+    }
+
+    const { query, substring } = new Parser(expression).parse();
+    const path = new JsonPath(expression, query, substring);
+    JsonPath._cache.set(expression, path);
+    if (JsonPath._cache.size > CACHE_SIZE) {
+      JsonPath._cache.delete(JsonPath._cache.keys().next().value!);
+    }
+    return path;
+  }
+
+  /**
+   * Remove all compiled expressions from the cache
+   */
+  static clearCache(): void {
+    JsonPath._cache.clear();
+  }
+
+  /**
+   * Normalized path of a location (RFC 9535 section 2.7), such as `$['text']['tokens'][0]`
+   * @param location - Member names and array indices from the root
+   */
+  static normalize(location: readonly (string | number)[]): string {
+    return '$' + location
+      .map(step => typeof step === 'number' ? `[${step}]` : `['${step.replace(/[\u0000-\u001f'\\]/g, escapeName)}']`)
+      .join('');
+  }
+
+  /**
+   * Select values from a JSON value
+   * @param data - Value to query
+   * @returns Selected values in document order
+   */
+  query(data: unknown): unknown[] {
+    return this.locate(data).map(node => node.value);
+  }
+
+  /**
+   * Select values from a JSON value together with their locations
+   * With the `substring()` extension, the location is that of the whole string.
+   * @param data - Value to query
+   * @returns Selected nodes in document order
+   */
+  locate(data: unknown): JsonPathNode[] {
+    const nodes = evaluateQuery(this._query, data, data);
+    if (!this._substring) {
+      return nodes;
+    }
+    const [start, end] = this._substring;
+    return nodes
+      .filter((node): node is JsonPathNode & { value: string } => typeof node.value === 'string')
+      .map(node => ({ value: node.value.substring(start, end), location: node.location }));
+  }
+}
+
+/**
+ * A value selected by a JSONPath expression
+ */
+export interface JsonPathNode {
+  /** The selected value */
+  value: unknown;
+  /** Member names and array indices leading from the root to the value */
+  location: readonly (string | number)[];
+}
+
+// Syntax tree of compiled expressions
+
+interface Query {
+  root: '$' | '@';
+  segments: Segment[];
+}
+
+interface Segment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+type Selector =
+  | { kind: 'name'; name: string }
+  | { kind: 'wildcard' }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start?: number; end?: number; step?: number }
+  | { kind: 'filter'; expression: LogicalExpression };
+
+type LogicalExpression =
+  | { kind: 'or'; operands: LogicalExpression[] }
+  | { kind: 'and'; operands: LogicalExpression[] }
+  | { kind: 'not'; operand: LogicalExpression }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: Operand; right: Operand }
+  | { kind: 'test'; operand: QueryOperand | CallOperand };
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+interface QueryOperand {
+  kind: 'query';
+  query: Query;
+  singular: boolean;
+}
+
+interface CallOperand {
+  kind: 'call';
+  name: string;
+  args: Operand[];
+}
+
+type Operand =
+  | { kind: 'literal'; value: unknown }
+  | QueryOperand
+  | CallOperand
+  | { kind: 'logical'; expression: LogicalExpression };
+
+/**
+ * Types of function parameters and results (RFC 9535 section 2.4.1)
+ */
+type FunctionType = 'value' | 'logical' | 'nodes';
+
+/**
+ * Absence of a value, as opposed to a JSON null
+ */
+const NOTHING: unique symbol = Symbol('nothing');
+
+interface FunctionDefinition {
+  parameters: FunctionType[];
+  result: FunctionType;
+  evaluate(args: unknown[]): unknown;
+}
+
+/**
+ * Function extensions defined by RFC 9535
+ */
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  length: {
+    parameters: ['value'],
+    result: 'value',
+    evaluate: ([value]) => {
+      if (typeof value === 'string') return Array.from(value).length;
+      if (Array.isArray(value)) return value.length;
+      if (isObject(value)) return Object.keys(value).length;
+      return NOTHING;
+    }
+  },
+  count: {
+    parameters: ['nodes'],
+    result: 'value',
+    evaluate: ([nodes]) => (nodes as unknown[]).length
+  },
+  match: {
+    parameters: ['value', 'value'],
+    result: 'logical',
+    evaluate: ([value, pattern]) => matches(value, pattern, true)
+  },
+  search: {
+    parameters: ['value', 'value'],
+    result: 'logical',
+    evaluate: ([value, pattern]) => matches(value, pattern, false)
+  },
+  value: {
+    parameters: ['nodes'],
+    result: 'value',
+    evaluate: ([nodes]) => (nodes as unknown[]).length === 1 ? (nodes as unknown[])[0] : NOTHING
+  }
+};
+
+/**
+ * Recursive descent parser for the grammar of RFC 9535 (appendix A)
+ */
+class Parser {
+  private _position = 0;
+
+  constructor(private readonly _expression: string) {}
+
+  parse(): { query: Query; substring?: readonly [number, number] } {
+    if (this._peek() !== '$') {
+      this._fail('expected "$" at the start of the expression');
+    }
+    const query = this._query();
+    const substring = this._substring();
+    if (this._position < this._expression.length) {
+      this._fail(`unexpected ${JSON.stringify(this._peek())}`);
+    }
+    return substring ? { query, substring } : { query };
+  }
+
+  /**
+   * Trailing `.substring(start,end)` of the Dialog Event specification
+   */
+  private _substring(): readonly [number, number] | undefined {
+    const match = SUBSTRING.exec(this._expression.slice(this._position));
+    if (!match) {
+      return undefined;
+    }
+    this._position = this._expression.length;
+    return [Number(match[1]), Number(match[2])];
+  }
+
+  private _query(): Query {
+    const root = this._next() as '$' | '@';
+    const segments: Segment[] = [];
+    for (;;) {
+      const start = this._position;
+      this._blank();
+      const char = this._peek();
+      if (char === '[') {
+        segments.push({ descendant: false, selectors: this._bracketed() });
+      } else if (char === '.' && !SUBSTRING.test(this._expression.slice(this._position))) {
+        this._position++;
+        if (this._peek() === '.') {
+          this._position++;
+          segments.push({ descendant: true, selectors: this._peek() === '[' ? this._bracketed() : [this._shorthand()] });
+        } else {
+          segments.push({ descendant: false, selectors: [this._shorthand()] });
+        }
+      } else {
+        // Blank space only separates segments, it cannot follow the last one
+        this._position = start;
+        break;
+      }
+    }
+    return { root, segments };
+  }
+
+  /**
+   * Wildcard or member name after a dot
+   */
+  private _shorthand(): Selector {
+    if (this._peek() === '*') {
+      this._position++;
+      return { kind: 'wildcard' };
+    }
+    const start = this._position;
+    if (!isNameFirst(this._peek())) {
+      this._fail('expected a member name or "*"');
+    }
+    while (this._position < this._expression.length && isNameChar(this._peek())) {
+      this._position += this._peek().length;
+    }
+    return { kind: 'name', name: this._expression.slice(start, this._position) };
+  }
+
+  private _bracketed(): Selector[] {
+    this._expect('[');
+    const selectors: Selector[] = [];
+    do {
+      this._blank();
+      selectors.push(this._selector());
+      this._blank();
+    } while (this._accept(','));
+    this._expect(']');
+    return selectors;
+  }
+
+  private _selector(): Selector {
+    const char = this._peek();
+    if (char === '\'' || char === '"') {
+      return { kind: 'name', name: this._string() };
+    }
+    if (char === '*') {
+      this._position++;
+      return { kind: 'wildcard' };
+    }
+    if (char === '?') {
+      this._position++;
+      this._blank();
+      return { kind: 'filter', expression: this._logicalOr() };
+    }
+
+    const start = this._peek() === ':' ? undefined : this._integer();
+    this._blank();
+    if (!this._accept(':')) {
+      if (start === undefined) {
+        this._fail('expected a selector');
+      }
+      return { kind: 'index', index: start };
+    }
+    const slice: Selector & { kind: 'slice' } = { kind: 'slice' };
+    if (start !== undefined) slice.start = start;
+    this._blank();
+    if (this._isIntegerStart()) {
+      slice.end = this._integer();
+      this._blank();
+    }
+    if (this._accept(':')) {
+      this._blank();
+      if (this._isIntegerStart()) {
+        slice.step = this._integer();
+      }
+    }
+    return slice;
+  }
+
+  private _logicalOr(): LogicalExpression {
+    const operands = [this._logicalAnd()];
+    while (this._acceptOperator('||')) {
+      operands.push(this._logicalAnd());
+    }
+    return operands.length === 1 ? operands[0]! : { kind: 'or', operands };
+  }
+
+  private _logicalAnd(): LogicalExpression {
+    const operands = [this._basic()];
+    while (this._acceptOperator('&&')) {
+      operands.push(this._basic());
+    }
+    return operands.length === 1 ? operands[0]! : { kind: 'and', operands };
+  }
+
+  private _basic(): LogicalExpression {
+    if (this._accept('!')) {
+      this._blank();
+      if (this._peek() === '(') {
+        return { kind: 'not', operand: this._parenthesized() };
+      }
+      const operandStart = this._position;
+      return { kind: 'not', operand: this._test(this._operand(), operandStart) };
+    }
+    if (this._peek() === '(') {
+      return this._parenthesized();
+    }
+
+    const operandStart = this._position;
+    const left = this._operand();
+    const start = this._position;
+    this._blank();
+    const operator = (['==', '!=', '<=', '>=', '<', '>'] as const).find(op => this._expression.startsWith(op, this._position));
+    if (!operator) {
+      this._position = start;
+      return this._test(left, operandStart);
+    }
+    this._checkComparable(left, operandStart);
+    this._position += operator.length;
+    this._blank();
+    const rightStart = this._position;
+    const right = this._operand();
+    this._checkComparable(right, rightStart);
+    return { kind: 'comparison', operator, left, right };
+  }
+
+  private _parenthesized(): LogicalExpression {
+    this._expect('(');
+    this._blank();
+    const expression = this._logicalOr();
+    this._blank();
+    this._expect(')');
+    return expression;
+  }
+
+  /**
+   * Existence test of a query, or a function result used as a logical value
+   */
+  private _test(operand: Operand, start: number): LogicalExpression {
+    if (operand.kind === 'query') {
+      return { kind: 'test', operand };
+    }
+    if (operand.kind === 'call' && FUNCTIONS[operand.name]!.result !== 'value') {
+      return { kind: 'test', operand };
+    }
+    return this._fail('expected a comparison, a query or a logical function', start);
+  }
+
+  /**
+   * Literal, query or function call
+   */
+  private _operand(): Operand {
+    const char = this._peek();
+    if (char === '$' || char === '@') {
+      const query = this._query();
+      return { kind: 'query', query, singular: isSingular(query) };
+    }
+    if (char === '\'' || char === '"') {
+      return { kind: 'literal', value: this._string() };
+    }
+    if (char === '-' || isDigit(char)) {
+      return { kind: 'literal', value: this._number() };
+    }
+    for (const [word, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (this._expression.startsWith(word, this._position) && !isNameChar(this._expression[this._position + word.length] ?? '')) {
+        this._position += word.length;
+        return { kind: 'literal', value };
+      }
+    }
+    if (/[a-z]/.test(char)) {
+      return this._call();
+    }
+    return this._fail('expected a literal, a query or a function call');
+  }
+
+  private _call(): CallOperand {
+    const start = this._position;
+    const name = /^[a-z][a-z0-9_]*/.exec(this._expression.slice(this._position))![0];
+    this._position += name.length;
+    const definition = FUNCTIONS[name];
+    if (!definition) {
+      this._fail(`unknown function ${JSON.stringify(name)}`, start);
+    }
+    this._expect('(');
+    const args: Operand[] = [];
+    this._blank();
+    if (this._peek() !== ')') {
+      do {
+        this._blank();
+        args.push(this._argument(definition.parameters[args.length], name));
+        this._blank();
+      } while (this._accept(','));
+    }
+    this._expect(')');
+    if (args.length !== definition.parameters.length) {
+      this._fail(`${name}() takes ${definition.parameters.length} argument(s), got ${args.length}`, start);
+    }
+    return { kind: 'call', name, args };
+  }
+
+  /**
+   * Function argument, checked against the type of its parameter
+   */
+  private _argument(type: FunctionType | undefined, name: string): Operand {
+    const start = this._position;
+    if (type === undefined) {
+      return this._fail(`too many arguments for ${name}()`);
+    }
+    if (type === 'logical') {
+      return { kind: 'logical', expression: this._logicalOr() };
+    }
+
+    const operand = this._operand();
+    if (type === 'nodes') {
+      if (operand.kind !== 'query' && !(operand.kind === 'call' && FUNCTIONS[operand.name]!.result === 'nodes')) {
+        this._fail(`${name}() expects a query argument`, start);
+      }
+      return operand;
+    }
+    this._checkComparable(operand, start);
+    return operand;
+  }
+
+  /**
+   * Comparisons and value parameters take literals, singular queries and value functions
+   */
+  private _checkComparable(operand: Operand, start: number): void {
+    if (operand.kind === 'query' && !operand.singular) {
+      this._fail('only singular queries can be compared', start);
+    }
+    if (operand.kind === 'call' && FUNCTIONS[operand.name]!.result !== 'value') {
+      this._fail(`${operand.name}() does not return a value`, start);
+    }
+  }
+
+  private _string(): string {
+    const quote = this._next();
+    let value = '';
+    for (;;) {
+      if (this._position >= this._expression.length) {
+        this._fail('unterminated string');
+      }
+      const char = this._next();
+      if (char === quote) {
+        return value;
+      }
+      if (char === '\\') {
+        value += this._escape(quote);
+      } else if (char < ' ') {
+        this._fail('control characters must be escaped', this._position - 1);
+      } else {
+        value += char;
+      }
+    }
+  }
+
+  private _escape(quote: string): string {
+    const char = this._next();
+    const simple: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', '/': '/', '\\': '\\', [quote]: quote };
+    if (char in simple) {
+      return simple[char]!;
+    }
+    if (char !== 'u') {
+      this._fail(`invalid escape "\\${char}"`, this._position - 2);
+    }
+    const high = this._hex();
+    if (high >= 0xdc00 && high <= 0xdfff) {
+      this._fail('unpaired low surrogate', this._position - 6);
+    }
+    if (high < 0xd800 || high > 0xdbff) {
+      return String.fromCharCode(high);
+    }
+    if (!this._expression.startsWith('\\u', this._position)) {
+      this._fail('unpaired high surrogate');
+    }
+    this._position += 2;
+    const low = this._hex();
+    if (low < 0xdc00 || low > 0xdfff) {
+      this._fail('unpaired high surrogate', this._position - 6);
+    }
+    return String.fromCharCode(high, low);
+  }
+
+  private _hex(): number {
+    const digits = this._expression.slice(this._position, this._position + 4);
+    if (!/^[0-9a-fA-F]{4}$/.test(digits)) {
+      this._fail('expected four hexadecimal digits');
+    }
+    this._position += 4;
+    return parseInt(digits, 16);
+  }
+
+  private _isIntegerStart(): boolean {
+    return this._peek() === '-' || isDigit(this._peek());
+  }
+
+  private _integer(): number {
+    const start = this._position;
+    const match = /^(?:0|-?[1-9][0-9]*)/.exec(this._expression.slice(this._position));
+    if (!match) {
+      this._fail('expected an integer');
+    }
+    const value = Number(match[0]);
+    if (Math.abs(value) > MAX_INTEGER) {
+      this._fail('integer out of range', start);
+    }
+    this._position += match[0].length;
+    return value;
+  }
+
+  private _number(): number {
+    const match = /^-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][-+]?[0-9]+)?/.exec(this._expression.slice(this._position));
+    if (!match) {
+      this._fail('expected a number');
+    }
+    this._position += match[0].length;
+    return Number(match[0]);
+  }
+
+  /**
+   * Skip blank space (RFC 9535 `S`)
+   */
+  private _blank(): void {
+    while (/^[ \t\n\r]$/.test(this._peek())) {
+      this._position++;
+    }
+  }
+
+  private _acceptOperator(operator: string): boolean {
+    const start = this._position;
+    this._blank();
+    if (this._expression.startsWith(operator, this._position)) {
+      this._position += operator.length;
+      this._blank();
+      return true;
+    }
+    this._position = start;
+    return false;
+  }
+
+  private _accept(char: string): boolean {
+    if (this._peek() !== char) {
+      return false;
+    }
+    this._position++;
+    return true;
+  }
+
+  private _expect(char: string): void {
+    if (!this._accept(char)) {
+      this._fail(`expected ${JSON.stringify(char)}`);
+    }
+  }
+
+  /**
+   * Next code point, or an empty string at the end of the expression
+   */
+  private _peek(): string {
+    const code = this._expression.codePointAt(this._position);
+    return code === undefined ? '' : String.fromCodePoint(code);
+  }
+
+  private _next(): string {
+    const char = this._peek();
+    this._position += char.length;
+    return char;
+  }
+
+  private _fail(reason: string, position = this._position): never {
+    throw new JsonPathError(this._expression, position, reason);
+  }
+}
+
+/**
+ * Whether a query selects at most one node (RFC 9535 section 2.3.5.1)
+ */
+function isSingular(query: Query): boolean {
+  return query.segments.every(segment =>
+    !segment.descendant
+    && segment.selectors.length === 1
+    && (segment.selectors[0]!.kind === 'name' || segment.selectors[0]!.kind === 'index')
+  );
+}
+
+function evaluateQuery(query: Query, root: unknown, current: unknown): JsonPathNode[] {
+  let nodes: JsonPathNode[] = [{ value: query.root === '$' ? root : current, location: [] }];
+  for (const segment of query.segments) {
+    const selected: JsonPathNode[] = [];
+    for (const node of nodes) {
+      if (segment.descendant) {
+        for (const descendant of descendants(node)) {
+          selectInto(selected, segment.selectors, descendant, root);
+        }
+      } else {
+        selectInto(selected, segment.selectors, node, root);
+      }
+    }
+    nodes = selected;
+  }
+  return nodes;
+}
+
+/**
+ * A node followed by all of its descendants, in document order
+ */
+function descendants(node: JsonPathNode): JsonPathNode[] {
+  const result = [node];
+  for (const child of children(node)) {
+    result.push(...descendants(child));
+  }
+  return result;
+}
+
+function children(node: JsonPathNode): JsonPathNode[] {
+  if (Array.isArray(node.value)) {
+    return node.value.map((value, index) => ({ value, location: [...node.location, index] }));
+  }
+  if (isObject(node.value)) {
+    return Object.entries(node.value).map(([name, value]) => ({ value, location: [...node.location, name] }));
+  }
+  return [];
+}
+
+function selectInto(selected: JsonPathNode[], selectors: Selector[], node: JsonPathNode, root: unknown): void {
+  const { value, location } = node;
+  for (const selector of selectors) {
+    switch (selector.kind) {
+      case 'name':
+        if (isObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name)) {
+          selected.push({ value: value[selector.name], location: [...location, selector.name] });
+        }
+        break;
+      case 'wildcard':
+        selected.push(...children(node));
+        break;
+      case 'index':
+        if (Array.isArray(value)) {
+          const index = selector.index < 0 ? value.length + selector.index : selector.index;
+          if (index >= 0 && index < value.length) {
+            selected.push({ value: value[index], location: [...location, index] });
+          }
+        }
+        break;
+      case 'slice':
+        if (Array.isArray(value)) {
+          for (const index of slice(value.length, selector)) {
+            selected.push({ value: value[index], location: [...location, index] });
+          }
+        }
+        break;
+      case 'filter':
+        for (const child of children(node)) {
+          if (evaluateLogical(selector.expression, root, child.value)) {
+            selected.push(child);
+          }
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Indices selected by an array slice (RFC 9535 section 2.3.4.2)
+ */
+function slice(length: number, selector: { start?: number; end?: number; step?: number }): number[] {
+  const step = selector.step ?? 1;
+  const normalize = (index: number) => index >= 0 ? index : length + index;
+  const result: number[] = [];
+
+  if (step > 0) {
+    const lower = Math.min(Math.max(normalize(selector.start ?? 0), 0), length);
+    const upper = Math.min(Math.max(normalize(selector.end ?? length), 0), length);
+    for (let i = lower; i < upper; i += step) result.push(i);
+  } else if (step < 0) {
+    const upper = Math.min(Math.max(normalize(selector.start ?? length - 1), -1), length - 1);
+    const lower = Math.min(Math.max(normalize(selector.end ?? -length - 1), -1), length - 1);
+    for (let i = upper; lower < i; i += step) result.push(i);
+  }
+  return result;
+}
+
+function evaluateLogical(expression: LogicalExpression, root: unknown, current: unknown): boolean {
+  switch (expression.kind) {
+    case 'or':
+      return expression.operands.some(operand => evaluateLogical(operand, root, current));
+    case 'and':
+      return expression.operands.every(operand => evaluateLogical(operand, root, current));
+    case 'not':
+      return !evaluateLogical(expression.operand, root, current);
+    case 'comparison':
+      return compare(
+        expression.operator,
+        evaluateValue(expression.left, root, current),
+        evaluateValue(expression.right, root, current)
+      );
+    case 'test': {
+      const result = expression.operand.kind === 'query'
+        ? evaluateQuery(expression.operand.query, root, current)
+        : evaluateCall(expression.operand, root, current);
+      return Array.isArray(result) ? result.length > 0 : result === true;
+    }
+  }
+}
+
+/**
+ * Value of a comparable operand, NOTHING for an empty node list
+ */
+function evaluateValue(operand: Operand, root: unknown, current: unknown): unknown {
+  switch (operand.kind) {
+    case 'literal':
+      return operand.value;
+    case 'query': {
+      const nodes = evaluateQuery(operand.query, root, current);
+      return nodes.length > 0 ? nodes[0]!.value : NOTHING;
+    }
+    case 'call':
+      return evaluateCall(operand, root, current);
+    case 'logical':
+      return evaluateLogical(operand.expression, root, current);
+  }
+}
+
+function evaluateCall(call: CallOperand, root: unknown, current: unknown): unknown {
+  const definition = FUNCTIONS[call.name]!;
+  const args = call.args.map((arg, index) => {
+    if (definition.parameters[index] === 'nodes') {
+      return arg.kind === 'query'
+        ? evaluateQuery(arg.query, root, current).map(node => node.value)
+        : evaluateCall(arg as CallOperand, root, current);
+    }
+    return evaluateValue(arg, root, current);
+  });
+  return definition.evaluate(args);
+}
+
+/**
+ * Comparison of two values (RFC 9535 section 2.3.5.2.2)
+ */
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '==': return equals(left, right);
+    case '!=': return !equals(left, right);
+    case '<': return lessThan(left, right);
+    case '<=': return lessThan(left, right) || equals(left, right);
+    case '>': return lessThan(right, left);
+    case '>=': return lessThan(right, left) || equals(left, right);
+  }
+}
+
+function equals(left: unknown, right: unknown): boolean {
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return Array.isArray(left) && Array.isArray(right)
+      && left.length === right.length
+      && left.every((item, index) => equals(item, right[index]));
+  }
+  if (isObject(left) && isObject(right)) {
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length
+      && keys.every(key => Object.prototype.hasOwnProperty.call(right, key) && equals(left[key], right[key]));
+  }
+  return left === right;
+}
+
+function lessThan(left: unknown, right: unknown): boolean {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left < right;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    // Compare by code point rather than by UTF-16 code unit
+    const a = Array.from(left, char => char.codePointAt(0)!);
+    const b = Array.from(right, char => char.codePointAt(0)!);
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i]! < b[i]!;
+    }
+    return a.length < b.length;
+  }
+  return false;
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+/**
+ * Test a string against an I-Regexp (RFC 9485), false for anything that is not a string or a valid pattern
+ */
+function matches(value: unknown, pattern: unknown, full: boolean): boolean {
+  if (typeof value !== 'string' || typeof pattern !== 'string') {
+    return false;
+  }
+  const key = `${full ? '^' : ''}${pattern}`;
+  let regex = regexCache.get(key);
+  if (regex === undefined) {
+    try {
+      const source = toJavaScriptPattern(pattern);
+      regex = new RegExp(full ? `^(?:${source})$` : source, 'u');
+    } catch {
+      regex = null;
+    }
+    regexCache.set(key, regex);
+  }
+  return regex !== null && regex.test(value);
+}
+
+/**
+ * I-Regexp `.` excludes only line feeds and carriage returns, unlike the JavaScript dot
+ */
+function toJavaScriptPattern(pattern: string): string {
+  let result = '';
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === '\\') {
+      result += char + (pattern[i + 1] ?? '');
+      i++;
+    } else if (char === '[') {
+      inClass = true;
+      result += char;
+    } else if (char === ']') {
+      inClass = false;
+      result += char;
+    } else if (char === '.' && !inClass) {
+      result += '[^\\n\\r]';
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Escape of a character in a member name of a normalized path
+ */
+function escapeName(char: string): string {
+  const escapes: Record<string, string> = { '\b': '\\b', '\f': '\\f', '\n': '\\n', '\r': '\\r', '\t': '\\t', '\'': "\\'", '\\': '\\\\' };
+  return escapes[char] ?? `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDigit(char: string): boolean {
+  return char >= '0' && char <= '9';
+}
+
+function isNameFirst(char: string): boolean {
+  const code = char.codePointAt(0) ?? 0;
+  return /^[A-Za-z_]$/.test(char) || (code >= 0x80 && (code < 0xd800 || code > 0xdfff));
+}
+
+function isNameChar(char: string): boolean {
+  return isNameFirst(char) || isDigit(char);
+}
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Local JSON Schema registry for the Open Floor Protocol
+ * Resolves references between the bundled schemas by `$id`, without network access
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import conversationEnvelopeSchema from '../schemas/conversation-envelope/1.0.0/conversation-envelope-schema.json';
+import dialogEventSchema from '../schemas/dialog-event/1.0.2/dialog-event-schema.json';
+import assistantManifestSchema from '../schemas/assistant-manifest/1.0.0/assistant-manifest-schema.json';
+
+/**
+ * `$id` of the bundled conversation envelope schema
+ */
+export const CONVERSATION_ENVELOPE_SCHEMA_ID = conversationEnvelopeSchema.$id;
+
+/**
+ * `$id` of the bundled dialog event schema
+ */
+export const DIALOG_EVENT_SCHEMA_ID = dialogEventSchema.$id;
+
+/**
+ * `$id` of the bundled assistant manifest schema
+ */
+export const ASSISTANT_MANIFEST_SCHEMA_ID = assistantManifestSchema.$id;
+
+/**
+ * Other URLs under which the bundled schemas are referenced
+ */
+const DIALOG_EVENT_SCHEMA_ALIASES = [
+  'https://github.com/open-voice-interoperability/lib-interop/tree/main/schemas/dialog-event/1.0.2/dialog-event-schema.json',
+  'https://github.com/open-voice-interoperability/docs/tree/main/schemas/dialog-event/1.0.2/dialog-event-schema.json'
+];
+
+/**
+ * Envelope properties whose link targets a single manifest although they hold an array of manifests
+ */
+const MANIFEST_ARRAY_PROPERTIES = new Set(['servicingManifests', 'discoveryManifests']);
+
+/**
+ * Registry of JSON Schemas keyed by their `$id`
+ * Schemas can also be registered under alias URIs, so documents that reference
+ * a schema by an outdated URL still resolve locally.
+ *
+ * @example
+ * ```typescript
+ * const registry = createBundledSchemaRegistry();
+ * registry.register(myExtensionSchema);
+ * const result = SimpleValidator.validate(data, myExtensionSchema, registry);
+ * ```
+ */
+export class SchemaRegistry {
+  private _schemas = new Map<string, Record<string, any>>();
+  private _aliases = new Map<string, string>();
+
+  /**
+   * Get the `$id` of every registered schema
+   */
+  get ids(): readonly string[] {
+    return Array.from(this._schemas.keys());
+  }
+
+  /**
+   * Register a schema under its `$id`
+   * @param schema - Schema with a `$id`
+   * @param aliases - Other URIs that should resolve to the schema
+   * @throws Error if the schema has no `$id`
+   */
+  register(schema: Record<string, any>, aliases: readonly string[] = []): void {
+    if (typeof schema.$id !== 'string' || schema.$id === '') {
+      throw new Error('SchemaRegistry.register requires a schema with a $id');
+    }
+
+    this._schemas.set(stripFragment(schema.$id), schema);
+    for (const alias of aliases) {
+      this._aliases.set(stripFragment(alias), stripFragment(schema.$id));
+    }
+  }
+
+  /**
+   * Canonical `$id` of the schema registered under a URI or alias
+   * @param uri - Schema URI (any fragment is ignored)
+   * @returns The `$id`, or undefined if no schema is registered under the URI
+   */
+  idOf(uri: string): string | undefined {
+    const key = stripFragment(uri);
+    const id = this._aliases.get(key) ?? key;
+    return this._schemas.has(id) ? id : undefined;
+  }
+
+  /**
+   * Get the schema registered under a URI or alias
+   * @param uri - Schema URI (any fragment is ignored)
+   * @returns The schema, or undefined if no schema is registered under the URI
+   */
+  get(uri: string): Record<string, any> | undefined {
+    const id = this.idOf(uri);
+    return id !== undefined ? this._schemas.get(id) : undefined;
+  }
+}
+
+/**
+ * Create a registry holding the bundled envelope, dialog event and manifest schemas
+ * The published envelope schema links to the other two schemas with a non-standard
+ * `ref` keyword, by URLs that differ from their `$id`, and applies the manifest
+ * schema to arrays of manifests. The registered copy replaces these links with
+ * `$ref`s to the registered `$id`s so both validators can follow them.
+ * @returns A new registry
+ */
+export function createBundledSchemaRegistry(): SchemaRegistry {
+  const registry = new SchemaRegistry();
+  registry.register(dialogEventSchema, DIALOG_EVENT_SCHEMA_ALIASES);
+  registry.register(assistantManifestSchema);
+  registry.register(linkSchemaReferences(conversationEnvelopeSchema, registry));
+  return registry;
+}
+
+/**
+ * Registry used by the validators when none is given
+ */
+export const defaultSchemaRegistry = createBundledSchemaRegistry();
+
+/**
+ * Copy a schema, replacing `ref` links to registered schemas with standard `$ref`s
+ */
+function linkSchemaReferences(schema: Record<string, any>, registry: SchemaRegistry): Record<string, any> {
+  const link = (node: unknown, propertyName?: string): unknown => {
+    if (Array.isArray(node)) return node.map(item => link(item));
+    if (typeof node !== 'object' || node === null) return node;
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = key === 'properties' && typeof value === 'object' && value !== null
+        ? Object.fromEntries(Object.entries(value).map(([name, sub]) => [name, link(sub, name)]))
+        : link(value);
+    }
+
+    const id = typeof result.ref === 'string' ? registry.idOf(result.ref) : undefined;
+    if (id === undefined) return result;
+
+    delete result.ref;
+    if (propertyName !== undefined && MANIFEST_ARRAY_PROPERTIES.has(propertyName)) {
+      return { ...result, type: 'array', items: { $ref: id } };
+    }
+    return { ...result, $ref: id };
+  };
+
+  return link(schema) as Record<string, any>;
+}
+
+/**
+ * Remove the fragment from a URI
+ */
+function stripFragment(uri: string): string {
+  const index = uri.indexOf('#');
+  return index === -1 ? uri : uri.slice(0, index);
+}
@@ -0,0 +1,293 @@
+/**
+ * @fileoverview Semantic validation for Open Floor Protocol
+ * Checks protocol rules that the JSON schemas cannot express
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import {
+  FloorReasonToken,
+  SemanticRuleId,
+  SemanticSeverity,
+  SemanticIssue,
+  SemanticValidationResult,
+  SemanticValidationOptions
+} from './types';
+import { Envelope } from './envelope';
+import { parseIsoDuration, resolveJsonPath } from './utils';
+import { JsonPathError } from './json-path';
+
+/**
+ * Reason tokens defined by the specification
+ */
+export const FLOOR_REASON_TOKENS: readonly FloorReasonToken[] = [
+  '@timedOut',
+  '@brokenPolicy',
+  '@override',
+  '@error',
+  '@outOfDomain',
+  '@complete',
+  '@unavailable',
+  '@refused'
+];
+
+/**
+ * A dialog event found in an envelope
+ */
+interface DialogEventLocation {
+  dialogEvent: Record<string, any>;
+  pointer: string;
+  /** Dialog events that precede it in a context dialog history */
+  earlier?: readonly Record<string, any>[];
+}
+
+/**
+ * A semantic rule and the checks it runs against an envelope object
+ */
+interface SemanticRule {
+  id: SemanticRuleId;
+  severity: SemanticSeverity;
+  check(envelope: Record<string, any>, report: (pointer: string, message: string) => void): void;
+}
+
+/**
+ * Event types whose reason should start with a reason token
+ */
+const REASON_TOKEN_EVENTS = new Set(['revokeFloor', 'uninvite']);
+
+const SEMANTIC_RULES: readonly SemanticRule[] = [
+  {
+    id: 'private-speaker-uri',
+    severity: 'error',
+    check(envelope, report) {
+      eventsOf(envelope).forEach((event, index) => {
+        if (event.to?.private === true && typeof event.to.speakerUri !== 'string') {
+          report(`/events/${index}/to`, `private ${event.eventType} event must be addressed to a speakerUri`);
+        }
+      });
+    }
+  },
+  {
+    id: 'reason-token',
+    severity: 'warning',
+    check(envelope, report) {
+      eventsOf(envelope).forEach((event, index) => {
+        if (!REASON_TOKEN_EVENTS.has(event.eventType) || typeof event.reason !== 'string') return;
+        if (!FLOOR_REASON_TOKENS.some(token => event.reason.startsWith(token))) {
+          report(`/events/${index}/reason`, `${event.eventType} reason '${event.reason}' does not start with a known reason token`);
+        }
+      });
+    }
+  },
+  {
+    id: 'previous-id',
+    severity: 'warning',
+    check(envelope, report) {
+      for (const { dialogEvent, pointer, earlier } of dialogEventsOf(envelope)) {
+        if (earlier === undefined || typeof dialogEvent.previousId !== 'string') continue;
+        if (!earlier.some(previous => previous.id === dialogEvent.previousId)) {
+          report(`${pointer}/previousId`, `previousId '${dialogEvent.previousId}' does not reference an earlier dialog event`);
+        }
+      }
+    }
+  },
+  {
+    id: 'token-links',
+    severity: 'warning',
+    check(envelope, report) {
+      for (const { dialogEvent, pointer } of dialogEventsOf(envelope)) {
+        for (const token of tokensOf(dialogEvent, pointer)) {
+          const links: unknown[] = Array.isArray(token.token.links) ? token.token.links : [];
+          links.forEach((link, index) => {
+            const problem = typeof link === 'string' ? linkProblem(link, dialogEvent.features) : 'is not a string';
+            if (problem) {
+              report(`${token.pointer}/links/${index}`, `link ${JSON.stringify(link)} ${problem}`);
+            }
+          });
+        }
+      }
+    }
+  },
+  {
+    id: 'span-order',
+    severity: 'error',
+    check(envelope, report) {
+      for (const { span, pointer } of spansOf(envelope)) {
+        const times = [span.startTime, span.endTime].map(time => typeof time === 'string' ? Date.parse(time) : NaN);
+        const offsets = [span.startOffset, span.endOffset].map(durationOf);
+        if (times[1]! < times[0]! || offsets[1]! < offsets[0]!) {
+          report(pointer, 'span ends before it starts');
+        }
+      }
+    }
+  },
+  {
+    id: 'span-units',
+    severity: 'error',
+    check(envelope, report) {
+      for (const { span, pointer } of spansOf(envelope)) {
+        const hasTime = span.startTime !== undefined || span.endTime !== undefined;
+        const hasOffset = span.startOffset !== undefined || span.endOffset !== undefined;
+        if (hasTime && hasOffset) {
+          report(pointer, 'span mixes times and offsets');
+        }
+      }
+    }
+  }
+];
+
+/**
+ * Validates the protocol rules of an envelope that JSON Schema validation cannot check
+ * Run it on envelopes that pass schema validation; malformed parts are skipped.
+ * @param envelope - Envelope, envelope object or `{ openFloor }` payload object
+ * @param options - Per-rule settings
+ * @returns Errors and warnings, with JSON Pointers relative to the payload (`/openFloor/events/0`)
+ *   so that they match the details of validateEnvelope
+ *
+ * @example
+ * ```typescript
+ * const result = validateSemantics(envelope, { rules: { 'token-links': false, 'reason-token': 'error' } });
+ * for (const issue of [...result.errors, ...result.warnings]) {
+ *   console.log(`${issue.severity} ${issue.rule} at ${issue.pointer}: ${issue.message}`);
+ * }
+ * ```
+ */
+export function validateSemantics(
+  envelope: Envelope | Record<string, unknown>,
+  options: SemanticValidationOptions = {}
+): SemanticValidationResult {
+  const data: Record<string, any> = envelope instanceof Envelope
+    ? envelope.toObject()
+    : isObject(envelope.openFloor) ? envelope.openFloor : envelope;
+
+  const issues: SemanticIssue[] = [];
+  for (const rule of SEMANTIC_RULES) {
+    const setting = options.rules?.[rule.id] ?? true;
+    if (setting === false) continue;
+
+    const severity = setting === true ? rule.severity : setting;
+    rule.check(data, (pointer, message) => issues.push({ rule: rule.id, severity, pointer: `/openFloor${pointer}`, message }));
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === 'warning')
+  };
+}
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Events of an envelope object, skipping malformed entries
+ */
+function eventsOf(envelope: Record<string, any>): Record<string, any>[] {
+  return Array.isArray(envelope.events) ? envelope.events.map(event => isObject(event) ? event : {}) : [];
+}
+
+/**
+ * Dialog events carried by utterance and context events
+ */
+function dialogEventsOf(envelope: Record<string, any>): DialogEventLocation[] {
+  const locations: DialogEventLocation[] = [];
+
+  eventsOf(envelope).forEach((event, index) => {
+    const parameters = isObject(event.parameters) ? event.parameters : {};
+    if (isObject(parameters.dialogEvent)) {
+      locations.push({ dialogEvent: parameters.dialogEvent, pointer: `/events/${index}/parameters/dialogEvent` });
+    }
+    if (Array.isArray(parameters.dialogHistory)) {
+      const history = parameters.dialogHistory.filter(isObject);
+      parameters.dialogHistory.forEach((dialogEvent: unknown, position: number) => {
+        if (!isObject(dialogEvent)) return;
+        locations.push({
+          dialogEvent,
+          pointer: `/events/${index}/parameters/dialogHistory/${position}`,
+          earlier: history.slice(0, history.indexOf(dialogEvent))
+        });
+      });
+    }
+  });
+
+  return locations;
+}
+
+/**
+ * Tokens of every feature of a dialog event
+ */
+function tokensOf(dialogEvent: Record<string, any>, pointer: string): { token: Record<string, any>; pointer: string }[] {
+  const tokens: { token: Record<string, any>; pointer: string }[] = [];
+  const features = isObject(dialogEvent.features) ? dialogEvent.features : {};
+
+  for (const [name, feature] of Object.entries(features)) {
+    if (!isObject(feature) || !Array.isArray(feature.tokens)) continue;
+    feature.tokens.forEach((token: unknown, index: number) => {
+      if (isObject(token)) {
+        tokens.push({ token, pointer: `${pointer}/features/${escapePointer(name)}/tokens/${index}` });
+      }
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Spans of the dialog events in an envelope and of their tokens
+ */
+function spansOf(envelope: Record<string, any>): { span: Record<string, any>; pointer: string }[] {
+  const spans: { span: Record<string, any>; pointer: string }[] = [];
+
+  for (const { dialogEvent, pointer } of dialogEventsOf(envelope)) {
+    if (isObject(dialogEvent.span)) {
+      spans.push({ span: dialogEvent.span, pointer: `${pointer}/span` });
+    }
+    for (const token of tokensOf(dialogEvent, pointer)) {
+      if (isObject(token.token.span)) {
+        spans.push({ span: token.token.span, pointer: `${token.pointer}/span` });
+      }
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Milliseconds of an ISO 8601 duration or number, NaN if it is missing or malformed
+ */
+function durationOf(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+  try {
+    return parseIsoDuration(value);
+  } catch {
+    return NaN;
+  }
+}
+
+/**
+ * Why a token link matches no value in the features of its dialog event, undefined if it matches one
+ */
+function linkProblem(link: string, features: unknown): string | undefined {
+  try {
+    return resolveJsonPath(link, features).length > 0 ? undefined : 'does not resolve within the dialog event features';
+  } catch (error) {
+    if (error instanceof JsonPathError) {
+      return `is not a valid JSON Path (${error.reason} at position ${error.position})`;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Escape a property name for use in a JSON Pointer
+ */
+function escapePointer(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
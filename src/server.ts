@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Node HTTP server adapter for the Open Floor Protocol
+ * Exposes an OpenFloorAgent at its serviceUrl by accepting POSTed payloads
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AgentServerOptions, ValidationErrorDetail } from './types';
+import { Payload } from './envelope';
+import { OpenFloorAgent } from './agents';
+import { validateEnvelope } from './validation';
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Error raised while reading a request, carrying the HTTP status to answer with
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly errors: string[] = [],
+    readonly details: ValidationErrorDetail[] = []
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Creates a `node:http` request listener that serves an agent.
+ * The listener only uses the request and response objects it is given and no Node
+ * globals such as `Buffer`, so the module can also be bundled for browsers and for edge
+ * runtimes with `node:http` compatible objects; pass it to `http.createServer()` to serve it.
+ *
+ * Responses:
+ * - 200 with the agent's response payload
+ * - 400 for malformed JSON or envelopes that fail schema validation
+ * - 404 for paths other than the served path
+ * - 405 for methods other than POST
+ * - 413 for bodies larger than `maxBodySize`
+ * - 500 when the agent throws while processing the envelope
+ *
+ * Error responses have the body `{ "error": string, "errors": string[], "details": ValidationErrorDetail[] }`,
+ * where `details` holds the structured schema validation errors of a 400 response.
+ *
+ * @param agent - Agent to serve
+ * @param options - Server options
+ * @returns Request listener for `http.createServer()`
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ *
+ * const bot = new BotAgent(manifest);
+ * createServer(createAgentRequestListener(bot)).listen(8080);
+ * ```
+ */
+export function createAgentRequestListener(
+  agent: OpenFloorAgent,
+  options: AgentServerOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const { maxBodySize = DEFAULT_MAX_BODY_SIZE, onError } = options;
+  const path = options.path ?? servicePath(agent.serviceUrl);
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    try {
+      if (path !== undefined && requestPath(req) !== path) {
+        throw new HttpError(404, `No agent is served at ${requestPath(req)}`);
+      }
+      if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        throw new HttpError(405, `Method ${req.method} is not allowed`);
+      }
+
+      const body = await readBody(req, maxBodySize);
+
+      let data: unknown;
+      try {
+        data = JSON.parse(body);
+      } catch (error) {
+        throw new HttpError(400, `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      const validation = validateEnvelope(data);
+      if (!validation.valid) {
+        throw new HttpError(400, 'Envelope failed schema validation', validation.errors, validation.details);
+      }
+
+      let payload: Payload;
+      try {
+        payload = Payload.fromObject(data as Record<string, unknown>);
+      } catch (error) {
+        throw new HttpError(400, `Invalid envelope: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      let response: Payload;
+      try {
+        response = (await agent.processEnvelope(payload.openFloor)).toPayload();
+      } catch (error) {
+        onError?.(error);
+        throw new HttpError(500, `Agent failed to process envelope: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      sendJson(res, 200, response.toObject());
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message, errors: error.errors, details: error.details });
+      } else {
+        onError?.(error);
+        sendJson(res, 500, { error: 'Internal server error', errors: [], details: [] });
+      }
+    }
+  };
+}
+
+/**
+ * Extracts the pathname from a service URL, or undefined if it cannot be parsed
+ */
+function servicePath(serviceUrl: string): string | undefined {
+  try {
+    return new URL(serviceUrl).pathname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extracts the pathname of an incoming request, ignoring any query string
+ */
+function requestPath(req: IncomingMessage): string {
+  return new URL(req.url ?? '/', 'http://localhost').pathname;
+}
+
+/**
+ * Reads the request body as UTF-8, rejecting bodies larger than the limit
+ */
+function readBody(req: IncomingMessage, maxBodySize: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const decoder = new TextDecoder('utf-8');
+    let body = '';
+    let size = 0;
+
+    req.on('data', (chunk: Uint8Array) => {
+      size += chunk.length;
+      if (size > maxBodySize) {
+        reject(new HttpError(413, `Request body exceeds ${maxBodySize} bytes`));
+        // Drain the rest of the body so the response can still be written
+        req.removeAllListeners('data');
+        req.resume();
+        return;
+      }
+      // Streaming keeps characters split across chunks intact
+      body += decoder.decode(chunk, { stream: true });
+    });
+    req.on('end', () => resolve(body + decoder.decode()));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Writes a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const json = new TextEncoder().encode(JSON.stringify(body));
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Content-Length', json.byteLength);
+  res.end(json);
+}
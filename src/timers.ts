@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Timeout tracking for the Open Floor Protocol
+ * Used by agents to detect conversants holding the floor or failing to respond
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import { Clock } from './types';
+
+/**
+ * Clock backed by Date.now() and the global timer functions
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => globalThis.setTimeout(callback, ms),
+  clearTimeout: handle => globalThis.clearTimeout(handle as ReturnType<typeof globalThis.setTimeout>)
+};
+
+/**
+ * A running timeout
+ */
+interface TrackedTimeout {
+  /** Time the timeout was started */
+  startedAt: number;
+  /** Handle returned by the clock */
+  handle: unknown;
+}
+
+/**
+ * Keyed set of timeouts, at most one per key
+ * Starting a timeout for a key replaces any timeout already running for it.
+ */
+export class TimeoutTracker<K> {
+  private readonly _timeouts = new Map<K, TrackedTimeout>();
+
+  /**
+   * Creates a new TimeoutTracker instance
+   * @param clock - Clock used to schedule timeouts
+   */
+  constructor(private readonly _clock: Clock = systemClock) {}
+
+  /**
+   * Start (or restart) the timeout for a key
+   * @param key - Key identifying the timeout
+   * @param ms - Delay in milliseconds
+   * @param onExpire - Called once if the timeout is not cancelled in time
+   */
+  start(key: K, ms: number, onExpire: () => void): void {
+    this.cancel(key);
+
+    const handle = this._clock.setTimeout(() => {
+      this._timeouts.delete(key);
+      onExpire();
+    }, ms);
+    this._timeouts.set(key, { startedAt: this._clock.now(), handle });
+  }
+
+  /**
+   * Cancel the timeout for a key
+   * @param key - Key identifying the timeout
+   * @returns True if a timeout was running
+   */
+  cancel(key: K): boolean {
+    const timeout = this._timeouts.get(key);
+    if (!timeout) return false;
+
+    this._clock.clearTimeout(timeout.handle);
+    this._timeouts.delete(key);
+    return true;
+  }
+
+  /**
+   * Check whether a timeout is running for a key
+   */
+  has(key: K): boolean {
+    return this._timeouts.has(key);
+  }
+
+  /**
+   * Milliseconds since the timeout for a key was started
+   * @returns Elapsed time, or null if no timeout is running
+   */
+  elapsed(key: K): number | null {
+    const timeout = this._timeouts.get(key);
+    return timeout ? this._clock.now() - timeout.startedAt : null;
+  }
+
+  /**
+   * Cancel every running timeout
+   */
+  clear(): void {
+    for (const key of [...this._timeouts.keys()]) {
+      this.cancel(key);
+    }
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Link graph between the tokens of a dialog event
+ * Resolves the JSONPath links of every token to the tokens they point at, in both directions
+ * @author Open Voice Interoperability Initiative
+ * @version 0.0.1
+ * @license Apache-2.0
+ */
+
+import type { DialogEvent, Feature, Token } from './dialog-event';
+import { JsonPath, JsonPathError } from './json-path';
+
+/**
+ * A token at its position in a dialog event
+ */
+export interface TokenReference {
+  /** Name of the feature holding the token */
+  featureName: string;
+  feature: Feature;
+  token: Token;
+  /** Index of the alternate holding the token, undefined for the tokens of the feature */
+  alternate?: number;
+  /** Index of the token in the tokens of the feature or of the alternate */
+  index: number;
+  /** Normalized JSONPath of the token within the features, such as `$['text']['tokens'][0]` */
+  path: string;
+}
+
+/**
+ * A link of a token, resolved to the tokens it points at
+ */
+export interface TokenLink {
+  /** Token whose links contain the expression */
+  source: TokenReference;
+  /** JSONPath expression as written in the links of the source */
+  expression: string;
+  /** Tokens selected by the expression, or holding the values it selects */
+  targets: TokenReference[];
+  /** Error raised for an expression that is not valid JSONPath */
+  error?: JsonPathError;
+}
+
+/**
+ * Index of the links between the tokens of a dialog event
+ * Links that select a value inside a token, such as `$.text.tokens[0].value`, point at
+ * that token. Links that select no token at all are dangling.
+ *
+ * @example
+ * ```typescript
+ * const graph = dialogEvent.getLinkGraph();
+ * const word = dialogEvent.features.get('text')!.tokens[2]!;
+ * graph.linkedFrom(word); // Intent and entity tokens pointing at the word
+ * graph.dangling(); // Links that resolve to no token
+ * ```
+ */
+export class TokenLinkGraph {
+  /** Tokens of all features, in feature order */
+  readonly tokens: readonly TokenReference[];
+  /** Links of all tokens, in token order */
+  readonly links: readonly TokenLink[];
+
+  private readonly _references = new Map<Token, TokenReference>();
+  private readonly _byPath = new Map<string, TokenReference>();
+  private readonly _outgoing = new Map<Token, TokenLink[]>();
+  private readonly _incoming = new Map<Token, TokenLink[]>();
+
+  /**
+   * @param dialogEvent - Dialog event whose token links are resolved
+   */
+  constructor(dialogEvent: DialogEvent) {
+    const tokens: TokenReference[] = [];
+    for (const [featureName, feature] of dialogEvent.features) {
+      feature.tokens.forEach((token, index) => {
+        tokens.push({ featureName, feature, token, index, path: JsonPath.normalize([featureName, 'tokens', index]) });
+      });
+      feature.alternates.forEach((alternateTokens, alternate) => {
+        alternateTokens.forEach((token, index) => {
+          tokens.push({ featureName, feature, token, alternate, index, path: JsonPath.normalize([featureName, 'alternates', alternate, index]) });
+        });
+      });
+    }
+    for (const reference of tokens) {
+      this._references.set(reference.token, reference);
+      this._byPath.set(reference.path, reference);
+    }
+
+    const features = Object.fromEntries(
+      Array.from(dialogEvent.features, ([name, feature]) => [name, feature.toObject()])
+    );
+    const links: TokenLink[] = [];
+    for (const source of tokens) {
+      for (const expression of source.token.links) {
+        const link = this._resolve(source, expression, features);
+        links.push(link);
+        this._outgoing.set(source.token, [...this._outgoing.get(source.token) ?? [], link]);
+        for (const target of link.targets) {
+          this._incoming.set(target.token, [...this._incoming.get(target.token) ?? [], link]);
+        }
+      }
+    }
+
+    this.tokens = Object.freeze(tokens);
+    this.links = Object.freeze(links);
+  }
+
+  /**
+   * Position of a token of the dialog event
+   * @param token - Token instance of the dialog event
+   * @returns The reference, or undefined if the token is not in the dialog event
+   */
+  reference(token: Token): TokenReference | undefined {
+    return this._references.get(token);
+  }
+
+  /**
+   * Links of a token
+   * @param token - Source token
+   */
+  outgoing(token: Token): TokenLink[] {
+    return [...this._outgoing.get(token) ?? []];
+  }
+
+  /**
+   * Links pointing at a token
+   * @param token - Target token
+   */
+  incoming(token: Token): TokenLink[] {
+    return [...this._incoming.get(token) ?? []];
+  }
+
+  /**
+   * Tokens a token links to, without duplicates
+   * @param token - Source token
+   */
+  linkedTo(token: Token): TokenReference[] {
+    return unique(this.outgoing(token).flatMap(link => link.targets));
+  }
+
+  /**
+   * Tokens linking to a token, without duplicates
+   * @param token - Target token
+   */
+  linkedFrom(token: Token): TokenReference[] {
+    return unique(this.incoming(token).map(link => link.source));
+  }
+
+  /**
+   * Links that point at no token, because they are invalid or select nothing else
+   */
+  dangling(): TokenLink[] {
+    return this.links.filter(link => link.targets.length === 0);
+  }
+
+  /**
+   * Cycles of links, each as the tokens along it
+   * Reports one cycle per link that closes a loop in a depth-first traversal,
+   * so every token on a cycle appears in at least one of them.
+   */
+  cycles(): TokenReference[][] {
+    const cycles: TokenReference[][] = [];
+    const state = new Map<Token, 'visiting' | 'done'>();
+    const stack: TokenReference[] = [];
+
+    const visit = (reference: TokenReference): void => {
+      state.set(reference.token, 'visiting');
+      stack.push(reference);
+      for (const target of this.linkedTo(reference.token)) {
+        const targetState = state.get(target.token);
+        if (targetState === 'visiting') {
+          cycles.push(stack.slice(stack.indexOf(target)));
+        } else if (targetState === undefined) {
+          visit(target);
+        }
+      }
+      stack.pop();
+      state.set(reference.token, 'done');
+    };
+
+    for (const reference of this.tokens) {
+      if (!state.has(reference.token)) visit(reference);
+    }
+    return cycles;
+  }
+
+  /**
+   * Links of each token that has any, keyed by the normalized path of the token
+   * Resolved links are written as the normalized paths of their targets, so they can be
+   * stored back into token links; dangling links keep their expression.
+   */
+  toObject(): Record<string, string[]> {
+    const result: Record<string, string[]> = {};
+    for (const link of this.links) {
+      const paths = link.targets.length > 0 ? link.targets.map(target => target.path) : [link.expression];
+      const existing = result[link.source.path] ?? [];
+      result[link.source.path] = [...existing, ...paths.filter(path => !existing.includes(path))];
+    }
+    return result;
+  }
+
+  /**
+   * Resolve a link expression to the tokens holding the values it selects
+   */
+  private _resolve(source: TokenReference, expression: string, features: Record<string, unknown>): TokenLink {
+    let nodes;
+    try {
+      nodes = JsonPath.compile(expression).locate(features);
+    } catch (error) {
+      if (error instanceof JsonPathError) {
+        return { source, expression, targets: [], error };
+      }
+      throw error;
+    }
+
+    const targets = nodes
+      .map(node => {
+        const [featureName, collection, ...rest] = node.location;
+        const indices = collection === 'alternates' ? rest.slice(0, 2) : collection === 'tokens' ? rest.slice(0, 1) : [];
+        return indices.length > 0 && indices.every(step => typeof step === 'number')
+          ? this._byPath.get(JsonPath.normalize([featureName!, collection!, ...indices]))
+          : undefined;
+      })
+      .filter((target): target is TokenReference => target !== undefined);
+    return { source, expression, targets: unique(targets) };
+  }
+}
+
+function unique(references: TokenReference[]): TokenReference[] {
+  return [...new Set(references)];
+}
@@ -98,6 +98,84 @@ export interface TextFeatureOptions extends Omit<FeatureOptions, 'mimeType'> {
   mimeType?: 'text/plain';
 }
 
+/**
+ * Configuration options for creating an SsmlFeature
+ */
+export interface SsmlFeatureOptions extends Omit<FeatureOptions, 'mimeType'> {
+  /** Array of SSML documents (convenience property) */
+  values?: string[];
+  mimeType?: 'application/ssml+xml';
+  /** Whether to check that every token value is a well-formed SSML document (default: true) */
+  validate?: boolean;
+}
+
+/**
+ * Configuration options for creating an HtmlFeature
+ */
+export interface HtmlFeatureOptions extends Omit<FeatureOptions, 'mimeType'> {
+  /** Array of HTML fragments (convenience property) */
+  values?: string[];
+  mimeType?: 'text/html';
+}
+
+/**
+ * An audio clip referenced by URL
+ */
+export interface AudioClipOptions {
+  /** URL of the audio */
+  url: string;
+  /** Length of the clip in milliseconds */
+  duration?: number;
+  /** Start of the clip relative to the dialog event in milliseconds (default: end of the previous clip) */
+  startOffset?: number;
+  /** Confidence score (0.0 to 1.0) */
+  confidence?: number;
+}
+
+/**
+ * Configuration options for creating an AudioFeature
+ */
+export interface AudioFeatureOptions extends Omit<FeatureOptions, 'mimeType'> {
+  /** MIME type of the audio, such as "audio/wav" */
+  mimeType: string;
+  /** Audio clips (convenience property) */
+  clips?: AudioClipOptions[];
+  /** Whether to check the MIME type and that every token valueUrl is a valid URL (default: true) */
+  validate?: boolean;
+}
+
+/**
+ * Configuration options for creating an ImageFeature
+ */
+export interface ImageFeatureOptions extends Omit<FeatureOptions, 'mimeType'> {
+  /** MIME type of the images, such as "image/png" */
+  mimeType: string;
+  /** URLs of the images (convenience property) */
+  urls?: string[];
+  /** Whether to check the MIME type and that every token valueUrl is a valid URL (default: true) */
+  validate?: boolean;
+}
+
+/**
+ * A hypothesis of an n-best list, such as one result of a speech recognizer
+ */
+export interface NBestHypothesisOptions {
+  /** Text of the hypothesis, used as its only token when no tokens are given */
+  text?: string;
+  /** Tokens of the hypothesis, such as one per word */
+  tokens?: TokenOptions[];
+  /** Confidence score (0.0 to 1.0), applied to the tokens without one */
+  confidence?: number;
+}
+
+/**
+ * Configuration options for creating a Feature from an n-best list
+ */
+export interface NBestFeatureOptions extends Omit<FeatureOptions, 'mimeType' | 'tokens' | 'alternates'> {
+  /** MIME type of the feature (default: "text/plain") */
+  mimeType?: string;
+}
+
 /**
  * Configuration options for creating a DialogEvent
  */
@@ -116,6 +194,57 @@ export interface DialogEventOptions {
   context?: string;
 }
 
+/**
+ * Changes to one feature of a dialog event that is still being produced
+ */
+export interface FeatureDelta {
+  /** MIME type of the feature content, required in the first delta of the feature */
+  mimeType?: string;
+  /** Tokens to add after the last token, or from `replaceFrom` on */
+  tokens?: TokenOptions[];
+  /** Index of the first token replaced by `tokens`, for revised hypotheses */
+  replaceFrom?: number;
+  /** Alternative interpretations, replacing those of earlier deltas */
+  alternates?: TokenOptions[][];
+  /** BCP 47 language tag */
+  lang?: string;
+  /** Text encoding ("ISO-8859-1" or "UTF-8") */
+  encoding?: string;
+  /** Schema reference for token values */
+  tokenSchema?: string;
+}
+
+/**
+ * Incremental update of a dialog event that is still being produced,
+ * such as a partial speech recognition hypothesis or streamed model output
+ */
+export interface DialogEventDelta {
+  /** Id of the dialog event the delta belongs to */
+  id: string;
+  /** Position of the delta in its stream, starting at 0 */
+  sequence: number;
+  /** Speaker URI, required in the first delta */
+  speakerUri?: string;
+  /** Span properties to set */
+  span?: SpanOptions;
+  /** Changes to features, by feature name */
+  features?: Record<string, FeatureDelta>;
+  /** Reference to previous dialog event */
+  previousId?: string;
+  /** Additional context for this event */
+  context?: string;
+  /** Whether this is the last delta of the dialog event */
+  final?: boolean;
+}
+
+/**
+ * Configuration options for creating a DialogEventProducer
+ */
+export interface DialogEventProducerOptions extends Omit<DialogEventOptions, 'features'> {
+  /** Called with every delta the producer emits */
+  onDelta?: (delta: DialogEventDelta) => void;
+}
+
 /**
  * Configuration options for schema information
  */
@@ -124,6 +253,8 @@ export interface SchemaOptions {
   version: string;
   /** URL to schema definition */
   url?: string;
+  /** Properties not defined by the specification */
+  extensions?: Record<string, unknown>;
 }
 
 /**
@@ -144,6 +275,8 @@ export interface IdentificationOptions {
   department?: string;
   /** Role or job title */
   role?: string;
+  /** Properties not defined by the specification */
+  extensions?: Record<string, unknown>;
 }
 
 /**
@@ -188,6 +321,8 @@ export interface ConversantOptions {
   identification: IdentificationOptions;
   /** Persistent state data */
   persistentState?: Record<string, unknown>;
+  /** Properties not defined by the specification */
+  extensions?: Record<string, unknown>;
 }
 
 /**
@@ -198,6 +333,8 @@ export interface ConversationOptions {
   id: string;
   /** Array of conversation participants */
   conversants?: ConversantOptions[];
+  /** Properties not defined by the specification */
+  extensions?: Record<string, unknown>;
 }
 
 /**
@@ -208,6 +345,8 @@ export interface SenderOptions {
   speakerUri: string;
   /** Service URL */
   serviceUrl?: string;
+  /** Properties not defined by the specification */
+  extensions?: Record<string, unknown>;
 }
 
 /**
@@ -220,6 +359,8 @@ export interface ToOptions {
   serviceUrl?: string;
   /** Whether this is a private message */
   private?: boolean;
+  /** Properties not defined by the specification */
+  extensions?: Record<string, unknown>;
 }
 
 /**
@@ -234,6 +375,16 @@ export interface BaseEventOptions {
   reason?: string;
   /** Event parameters */
   parameters?: Record<string, unknown>;
+  /** Properties not defined by the specification */
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Configuration options for events whose type is not defined by the specification
+ */
+export interface ExtensionEventOptions extends Omit<BaseEventOptions, 'eventType'> {
+  /** Event type */
+  eventType: string;
 }
 
 /**
@@ -283,7 +434,9 @@ export interface EnvelopeOptions {
   /** Sender information */
   sender: SenderOptions;
   /** Array of events */
-  events: BaseEventOptions[];
+  events: (BaseEventOptions | ExtensionEventOptions)[];
+  /** Properties not defined by the specification */
+  extensions?: Record<string, unknown>;
 }
 
 /**
@@ -294,6 +447,31 @@ export interface PayloadOptions {
   openFloor: EnvelopeOptions;
 }
 
+/**
+ * Options for parsing Open Floor objects with `fromObject`
+ */
+export interface ParseOptions {
+  /**
+   * Keep properties and event types that are not defined by the specification
+   * (exposed as `extensions` and as ExtensionEvent) instead of dropping or rejecting them,
+   * so that re-serialized objects carry them through unchanged
+   */
+  preserveUnknown?: boolean;
+  /**
+   * Reject the whole object when an entry of one of its arrays (conversants,
+   * capabilities, events) is malformed (default: true); when false, such entries are skipped
+   */
+  strict?: boolean;
+}
+
+/**
+ * Options for EnvelopeBuilder.build()
+ */
+export interface EnvelopeBuildOptions {
+  /** Validate the envelope against the envelope schema (default: true) */
+  validate?: boolean;
+}
+
 /**
  * Interface for objects that can be serialized to JSON
  */
@@ -312,10 +490,149 @@ export interface ValidationResult {
   valid: boolean;
   /** Array of validation errors */
   errors: string[];
+  /** Structured form of the validation errors, when the validator provides it */
+  details?: ValidationErrorDetail[];
+}
+
+/**
+ * Machine-readable category of a validation error
+ */
+export type ValidationErrorCode =
+  | 'invalid_type'
+  | 'invalid_value'
+  | 'out_of_range'
+  | 'invalid_length'
+  | 'pattern_mismatch'
+  | 'invalid_format'
+  | 'missing_property'
+  | 'unexpected_property'
+  | 'invalid_property_count'
+  | 'invalid_item_count'
+  | 'schema_mismatch'
+  | 'invalid_schema';
+
+/**
+ * A single validation error
+ */
+export interface ValidationErrorDetail {
+  /**
+   * JSON Pointer (RFC 6901) to the offending value, '' for the validated value itself.
+   * Missing required properties point at the object that lacks them.
+   */
+  pointer: string;
+  /** Schema keyword that failed, such as `required` or `type` */
+  keyword: string;
+  /** Error category */
+  code: ValidationErrorCode;
+  /** What the schema expects, such as the allowed types or the limit */
+  expected?: unknown;
+  /** The offending value, or the measured length or count */
+  actual?: unknown;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * An error reported by a compiled schema, in the shape of an AJV error object
+ */
+export interface SchemaCompilerError {
+  /** JSON Pointer to the offending value */
+  instancePath: string;
+  /** Schema keyword that failed */
+  keyword: string;
+  /** Keyword-specific details, such as `limit` or `missingProperty` */
+  params?: Record<string, any>;
+  /** Human-readable description */
+  message?: string;
+  /** The offending value */
+  data?: unknown;
+}
+
+/**
+ * A validation function compiled from a schema, such as an AJV `ValidateFunction`
+ */
+export interface CompiledSchema {
+  /** Returns true if the data is valid (asynchronous results are treated as unsupported) */
+  (data: unknown): boolean | Promise<unknown>;
+  /** Errors of the last failed validation */
+  errors?: readonly SchemaCompilerError[] | null;
+}
+
+/**
+ * Schema compiler used by EnhancedValidator; an AJV instance implements it
+ */
+export interface SchemaCompiler {
+  /** Compile a schema into a validation function */
+  compile(schema: Record<string, any>): CompiledSchema;
+  /** Register a schema that other schemas reference by `$id` */
+  addSchema?(schema: Record<string, any>, key?: string): unknown;
+  /** Get the compiled validation function of a registered schema */
+  getSchema?(key: string): CompiledSchema | undefined;
+}
+
+/**
+ * Identifier of a semantic validation rule
+ * - `private-speaker-uri`: private events must be addressed to a `speakerUri`
+ * - `reason-token`: revokeFloor and uninvite reasons should start with a known reason token
+ * - `previous-id`: `previousId` in a context dialog history should reference an earlier dialog event
+ * - `token-links`: token `links` should resolve within their dialog event's features
+ * - `span-order`: a span should not end before it starts
+ * - `span-units`: a span must not mix times and offsets
+ */
+export type SemanticRuleId =
+  | 'private-speaker-uri'
+  | 'reason-token'
+  | 'previous-id'
+  | 'token-links'
+  | 'span-order'
+  | 'span-units';
+
+/**
+ * Severity of a semantic validation issue
+ */
+export type SemanticSeverity = 'error' | 'warning';
+
+/**
+ * A violation of a semantic validation rule
+ */
+export interface SemanticIssue {
+  /** Rule that was violated */
+  rule: SemanticRuleId;
+  /** Severity of the violation */
+  severity: SemanticSeverity;
+  /** JSON Pointer (RFC 6901) to the offending value within the `{ openFloor }` payload, as in validation details */
+  pointer: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of semantic validation
+ */
+export interface SemanticValidationResult {
+  /** Whether no rule reported an error (warnings do not invalidate an envelope) */
+  valid: boolean;
+  /** Issues with severity `error` */
+  errors: SemanticIssue[];
+  /** Issues with severity `warning` */
+  warnings: SemanticIssue[];
+}
+
+/**
+ * Configuration options for semantic validation
+ */
+export interface SemanticValidationOptions {
+  /**
+   * Per-rule settings: `false` disables a rule, `true` keeps its default severity
+   * and a severity overrides it. Rules that are not listed are enabled.
+   */
+  rules?: Partial<Record<SemanticRuleId, boolean | SemanticSeverity>>;
 }
 
 /**
  * Interface for agent event handlers
+ * These are the legacy handler names accepted by OpenFloorAgent.on(); prefer the
+ * typed event names of AgentEventMap in agents.ts
  */
 export interface AgentEventHandlers {
   onEnvelope?: (envelope: unknown) => Promise<unknown>;
@@ -331,4 +648,85 @@ export interface AgentEventHandlers {
   onGrantFloor?: (event: unknown) => Promise<void>;
   onRevokeFloor?: (event: unknown) => Promise<void>;
   onYieldFloor?: (event: unknown) => Promise<void>;
-}
\ No newline at end of file
+}
+/**
+ * Time source and scheduler used by agents for timeouts
+ * Inject a manual implementation to control time in tests
+ */
+export interface Clock {
+  /** Current time in milliseconds */
+  now(): number;
+  /** Schedule a callback after a delay in milliseconds */
+  setTimeout(callback: () => void, ms: number): unknown;
+  /** Cancel a callback scheduled with setTimeout */
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Configuration options for a bot agent
+ */
+export interface BotAgentOptions {
+  /**
+   * Maximum number of joined conversations tracked at once (unlimited by default)
+   * Invites to further conversations are declined with `@unavailable`, unless
+   * `evictLeastRecent` is set.
+   */
+  maxConversations?: number;
+  /** Forget the least recently active conversation to make room for a new one at the maximum */
+  evictLeastRecent?: boolean;
+  /** Milliseconds without envelopes after which a conversation is forgotten */
+  idleTimeout?: number;
+  /** Clock used for timeouts (defaults to the system clock) */
+  clock?: Clock;
+  /** Speaker URIs of the conveners whose invites may be accepted (any convener by default) */
+  allowedConveners?: string[];
+  /** Decline invites whose accompanying utterances or context use a language no capability declares */
+  matchLanguages?: boolean;
+  /** Decline invites whose accompanying utterances or context mention no capability keyphrase */
+  matchCapabilities?: boolean;
+}
+
+/**
+ * Outcome of a bot agent's decision on an invite
+ */
+export type InviteDecision =
+  | { accept: true }
+  | { accept: false; reason: string };
+
+/**
+ * Configuration options for serving an agent over HTTP
+ */
+export interface AgentServerOptions {
+  /** Request path to serve (defaults to the pathname of the agent's serviceUrl) */
+  path?: string;
+  /** Maximum accepted request body size in bytes (defaults to 1 MiB) */
+  maxBodySize?: number;
+  /** Called with any exception thrown while the agent processes an envelope */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Configuration options for the HTTP agent client
+ */
+export interface AgentClientOptions {
+  /** Per-attempt timeout in milliseconds (no timeout if omitted) */
+  timeout?: number;
+  /** Number of retries after a network error, timeout or 5xx response (defaults to 0) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled on each further retry (defaults to 500) */
+  retryDelay?: number;
+  /** Headers added to every request, e.g. for authorization */
+  headers?: Record<string, string>;
+  /** fetch implementation to use (defaults to the global fetch; required on runtimes without one) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Per-request options for the HTTP agent client
+ */
+export interface AgentRequestOptions {
+  /** Signal that aborts the request, including any pending retries */
+  signal?: AbortSignal;
+  /** Headers added to this request only */
+  headers?: Record<string, string>;
+}
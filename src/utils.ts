@@ -5,60 +5,105 @@
  * @license Apache-2.0
  */
 
+import { JsonPath } from './json-path';
+
 /**
- * Parses an ISO 8601 duration string and returns the number of milliseconds
- * Supports the format: P[n]D[T[n]H[n]M[n]S]
- * 
- * @param duration - ISO 8601 duration string (e.g., "PT3H30M15S")
- * @returns Duration in milliseconds
- * @throws Error if the duration string is invalid
- * 
- * @example
- * ```typescript
- * parseIsoDuration("PT1H30M"); // Returns 5400000 (1.5 hours in ms)
- * parseIsoDuration("P1DT2H"); // Returns 93600000 (26 hours in ms)
- * ```
+ * Milliseconds in each time unit of an ISO 8601 duration
+ * Days are nominal 24-hour days and weeks are seven of them.
  */
-export function parseIsoDuration(duration: string): number {
-    const regex = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+const DURATION_UNITS = {
+  W: 604800000,
+  D: 86400000,
+  H: 3600000,
+  M: 60000,
+  S: 1000
+} as const;
+  
+  /**
+   * Parses an ISO 8601 duration string and returns the number of milliseconds
+   * Supports the format: [-]P[n]Y[n]M[n]W[n]D[T[n]H[n]M[n]S]
+   * The smallest component may have a decimal fraction, written with a point or a comma.
+   * Years and months vary in length, so non-zero values of them are rejected
+   * rather than approximated.
+   * 
+   * @param duration - ISO 8601 duration string (e.g., "PT3H30M15S")
+   * @returns Duration in milliseconds, negative for durations with a leading minus sign
+   * @throws Error if the duration string is invalid or uses years or months
+   * 
+   * @example
+   * ```typescript
+   * parseIsoDuration("PT1H30M"); // Returns 5400000 (1.5 hours in ms)
+   * parseIsoDuration("P1DT2H"); // Returns 93600000 (26 hours in ms)
+   * parseIsoDuration("PT1.5S"); // Returns 1500
+   * parseIsoDuration("-P1W"); // Returns -604800000
+   * ```
+   */
+  export function parseIsoDuration(duration: string): number {
+    const n = '(\\d+(?:[.,]\\d+)?)';
+    const regex = new RegExp(`^([+-])?P(?!$)(?:${n}Y)?(?:${n}M)?(?:${n}W)?(?:${n}D)?(?:T(?=\\d)(?:${n}H)?(?:${n}M)?(?:${n}S)?)?$`);
     const matches = duration.match(regex);
     
     if (!matches) {
       throw new Error(`Invalid ISO 8601 duration: ${duration}`);
     }
     
-    const days = parseInt(matches[1] || '0', 10);
-    const hours = parseInt(matches[2] || '0', 10);
-    const minutes = parseInt(matches[3] || '0', 10);
-    const seconds = parseFloat(matches[4] || '0');
+    const [, sign, years, months, ...components] = matches;
+    if (Number(years?.replace(',', '.') ?? 0) !== 0 || Number(months?.replace(',', '.') ?? 0) !== 0) {
+      throw new Error(`Ambiguous ISO 8601 duration: ${duration} (years and months have no fixed length)`);
+    }
+    
+    const present = [years, months, ...components].filter(value => value !== undefined);
+    if (present.slice(0, -1).some(value => /[.,]/.test(value!))) {
+      throw new Error(`Invalid ISO 8601 duration: ${duration} (only the smallest component may be fractional)`);
+    }
     
-    return ((days * 24 + hours) * 60 + minutes) * 60000 + seconds * 1000;
+    const units = [DURATION_UNITS.W, DURATION_UNITS.D, DURATION_UNITS.H, DURATION_UNITS.M, DURATION_UNITS.S];
+    const milliseconds = components.reduce(
+      (total, value, index) => value === undefined ? total : total + durationMilliseconds(value, units[index]!),
+      0
+    );
+    return sign === '-' && milliseconds !== 0 ? -milliseconds : milliseconds;
   }
   
   /**
    * Converts milliseconds to ISO 8601 duration format
+   * Durations of a day or more are written with days, and sub-second remainders as
+   * a decimal fraction of seconds, so parseIsoDuration() returns the same number.
    * 
    * @param milliseconds - Duration in milliseconds
    * @returns ISO 8601 duration string
+   * @throws Error if milliseconds is not a finite number
    * 
    * @example
    * ```typescript
    * millisecondsToIsoDuration(5400000); // Returns "PT1H30M"
    * millisecondsToIsoDuration(90000); // Returns "PT1M30S"
+   * millisecondsToIsoDuration(1500); // Returns "PT1.5S"
+   * millisecondsToIsoDuration(93600000); // Returns "P1DT2H"
    * ```
    */
   export function millisecondsToIsoDuration(milliseconds: number): string {
-    const totalSeconds = Math.floor(milliseconds / 1000);
-    const hours = Math.floor(totalSeconds / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    const seconds = totalSeconds % 60;
+    if (!Number.isFinite(milliseconds)) {
+      throw new Error(`Cannot convert ${milliseconds} milliseconds to an ISO 8601 duration`);
+    }
+    
+    let remaining = Math.abs(milliseconds);
+    const days = Math.floor(remaining / DURATION_UNITS.D);
+    remaining -= days * DURATION_UNITS.D;
+    const hours = Math.floor(remaining / DURATION_UNITS.H);
+    remaining -= hours * DURATION_UNITS.H;
+    const minutes = Math.floor(remaining / DURATION_UNITS.M);
+    remaining -= minutes * DURATION_UNITS.M;
+    // Nine digits keep sub-millisecond offsets without the noise of binary fractions
+    const seconds = (remaining / DURATION_UNITS.S).toFixed(9).replace(/\.?0+$/, '');
     
-    const parts: string[] = [];
-    if (hours > 0) parts.push(`${hours}H`);
-    if (minutes > 0) parts.push(`${minutes}M`);
-    if (seconds > 0 || parts.length === 0) parts.push(`${seconds}S`);
+    const time: string[] = [];
+    if (hours > 0) time.push(`${hours}H`);
+    if (minutes > 0) time.push(`${minutes}M`);
+    if (seconds !== '0' || (time.length === 0 && days === 0)) time.push(`${seconds}S`);
     
-    return `PT${parts.join('')}`;
+    const sign = milliseconds < 0 ? '-' : '';
+    return `${sign}P${days > 0 ? `${days}D` : ''}${time.length > 0 ? `T${time.join('')}` : ''}`;
   }
   
   /**
@@ -88,79 +133,23 @@ export function parseIsoDuration(duration: string): number {
   
   /**
    * Resolves JSON Path expressions with support for the substring() extension
+   * Expressions follow RFC 9535 and are compiled once, then reused from a cache.
    * 
    * @param path - JSON Path expression (e.g., "$.features.text.tokens[0].value")
    * @param data - Object to query
    * @returns Array of matched values
+   * @throws JsonPathError if the expression is not valid JSON Path
    * 
    * @example
    * ```typescript
    * const data = { features: { text: { tokens: [{ value: "hello world" }] } } };
    * resolveJsonPath("$.features.text.tokens[0].value", data); // ["hello world"]
    * resolveJsonPath("$.features.text.tokens[0].value.substring(0,5)", data); // ["hello"]
+   * resolveJsonPath("$..tokens[?@.value == 'hello world']", data); // [{ value: "hello world" }]
    * ```
    */
   export function resolveJsonPath(path: string, data: unknown): unknown[] {
-    // Check for substring() extension
-    const substringMatch = path.match(/^(.+)\.substring\((\d+),(\d+)\)$/);
-    
-    if (substringMatch) {
-      const [, basePath, startStr, endStr] = substringMatch;
-      if (startStr === undefined || endStr === undefined || basePath === undefined) {
-        return [];
-      }
-      const start = parseInt(startStr, 10);
-      const end = parseInt(endStr, 10);
-      
-      const baseResults = resolveBasicJsonPath(basePath, data);
-      return baseResults
-        .filter((result): result is string => typeof result === 'string')
-        .map(str => str.substring(start, end));
-    }
-    
-    return resolveBasicJsonPath(path, data);
-  }
-  
-  /**
-   * Basic JSON Path resolution without extensions
-   * Supports: $, ., [], array indexing, property access
-   * 
-   * @param path - JSON Path expression
-   * @param data - Object to query
-   * @returns Array of matched values
-   */
-  function resolveBasicJsonPath(path: string, data: unknown): unknown[] {
-    if (!path.startsWith('$')) {
-      throw new Error('JSON Path must start with $');
-    }
-    
-    const parts = path.slice(1).split(/[.\[]/).filter(Boolean);
-    let current: unknown = data;
-    
-    for (const part of parts) {
-      if (part.endsWith(']')) {
-        // Array index access
-        const index = parseInt(part.slice(0, -1), 10);
-        if (Array.isArray(current)) {
-          current = current[index];
-        } else {
-          return [];
-        }
-      } else {
-        // Property access
-        if (current && typeof current === 'object' && part in current) {
-          current = (current as Record<string, unknown>)[part];
-        } else {
-          return [];
-        }
-      }
-      
-      if (current === undefined) {
-        return [];
-      }
-    }
-    
-    return [current];
+    return JsonPath.compile(path).query(data);
   }
   
   /**
@@ -256,6 +245,94 @@ export function parseIsoDuration(duration: string): number {
     return validEncodings.includes(encoding);
   }
   
+  /**
+   * Checks that a string is a well-formed SSML document, that is well-formed XML
+   * with a single `<speak>` root element
+   * 
+   * @param ssml - SSML document
+   * @returns Description of the first problem, or undefined if the document is well-formed
+   * 
+   * @example
+   * ```typescript
+   * findSsmlError('<speak>Hello <break time="1s"/> world</speak>'); // undefined
+   * findSsmlError('<speak>Hello'); // "unclosed element <speak>"
+   * findSsmlError('Hello'); // "text outside the root element at position 0"
+   * ```
+   */
+  export function findSsmlError(ssml: string): string | undefined {
+    const open: string[] = [];
+    let roots = 0;
+    let position = 0;
+    
+    const at = (pattern: RegExp): RegExpExecArray | null => {
+      pattern.lastIndex = position;
+      const match = pattern.exec(ssml);
+      if (match) position = pattern.lastIndex;
+      return match;
+    };
+    
+    while (position < ssml.length) {
+      const start = position;
+      let match: RegExpExecArray | null;
+      if (at(/<!--(?:(?!--)[\s\S])*-->/y) || at(/<\?[\s\S]*?\?>/y) || (roots === 0 && at(/<!DOCTYPE[^>]*>/y))) {
+        continue;
+      }
+      if (open.length > 0 && at(/<!\[CDATA\[[\s\S]*?\]\]>/y)) {
+        continue;
+      }
+      if ((match = at(/<\/([A-Za-z_][\w.:-]*)\s*>/y))) {
+        if (open.pop() !== match[1]) {
+          return `unexpected end tag </${match[1]}> at position ${start}`;
+        }
+        continue;
+      }
+      if ((match = at(/<([A-Za-z_][\w.:-]*)((?:\s+[A-Za-z_][\w.:-]*\s*=\s*(?:"[^"<]*"|'[^'<]*'))*)\s*(\/?)>/y))) {
+        const [, name, attributes = '', selfClosing] = match;
+        if (open.length === 0) {
+          if (++roots > 1) return `more than one root element at position ${start}`;
+          if (name!.replace(/^.*:/, '') !== 'speak') return `root element is <${name}>, expected <speak>`;
+        }
+        const names = Array.from(attributes.matchAll(/([A-Za-z_][\w.:-]*)\s*=/g), attribute => attribute[1]!);
+        const duplicate = names.find((attribute, index) => names.indexOf(attribute) !== index);
+        if (duplicate) return `duplicate attribute "${duplicate}" on <${name}> at position ${start}`;
+        if (hasInvalidReference(attributes)) return `invalid entity reference in <${name}> at position ${start}`;
+        if (!selfClosing) open.push(name!);
+        continue;
+      }
+      if ((match = at(/[^<]+/y))) {
+        if (open.length === 0 && match[0].trim() !== '') return `text outside the root element at position ${start}`;
+        if (hasInvalidReference(match[0])) return `invalid entity reference at position ${start}`;
+        continue;
+      }
+      return `malformed markup at position ${start}`;
+    }
+    
+    if (open.length > 0) return `unclosed element <${open[open.length - 1]}>`;
+    return roots === 0 ? 'no <speak> root element' : undefined;
+  }
+  
+  /**
+   * Renders SSML or HTML markup as plain text
+   * Tags, comments and scripts are removed, entity references decoded and white space collapsed.
+   * 
+   * @param markup - SSML or HTML markup
+   * @returns The text of the markup
+   * 
+   * @example
+   * ```typescript
+   * markupToText('<speak>Hello<break/>the <emphasis>whole</emphasis> world</speak>'); // "Hello the whole world"
+   * markupToText('<p>Fish &amp; chips</p><p>Peas</p>'); // "Fish & chips Peas"
+   * ```
+   */
+  export function markupToText(markup: string): string {
+    const text = markup
+      .replace(/<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>/gi, '')
+      .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, content: string) => content.replace(/&/g, '&amp;').replace(/</g, '&lt;'))
+      .replace(/<\/?([A-Za-z][\w.:-]*)(?:"[^"]*"|'[^']*'|[^'">])*>/g, (_, name: string) => BREAKING_ELEMENTS.has(name.toLowerCase()) ? ' ' : '');
+    return decodeEntities(text).replace(/\s+/g, ' ').trim();
+  }
+  
   /**
    * Deep clones an object using structuredClone if available, otherwise JSON fallback
    * 
@@ -306,4 +383,80 @@ export function parseIsoDuration(duration: string): number {
     requirement: string
   ): string {
     return `${fieldName}: expected ${requirement}, got ${typeof value === 'string' ? `"${value}"` : typeof value}`;
-  }
\ No newline at end of file
+  }
+  
+  /**
+   * Collects the properties of an object that are not in a list of known properties
+   * 
+   * @param data - Object to inspect
+   * @param knownProps - Property names defined by the specification
+   * @returns The unknown properties, or undefined if there are none
+   */
+  export function unknownProperties(
+    data: Record<string, unknown>, 
+    knownProps: readonly string[]
+  ): Record<string, unknown> | undefined {
+    const unknown = Object.entries(data).filter(([key]) => !knownProps.includes(key));
+    return unknown.length > 0 ? Object.fromEntries(unknown) : undefined;
+  }
+  
+  /**
+   * Adds extension properties to a serialized object after its known properties
+   * Extensions never replace properties that are already set.
+   * 
+   * @param result - Serialized object
+   * @param extensions - Extension properties
+   * @returns The serialized object
+   */
+  export function appendExtensions(
+    result: Record<string, unknown>, 
+    extensions: Readonly<Record<string, unknown>>
+  ): Record<string, unknown> {
+    for (const [key, value] of Object.entries(extensions)) {
+      if (!(key in result)) result[key] = value;
+    }
+    return result;
+  }
+  
+  /**
+   * Milliseconds in a duration component, shifting the decimal point of its digits
+   * so that fractional seconds are converted without floating point error
+   */
+  function durationMilliseconds(value: string, unit: number): number {
+    const [whole, fraction = ''] = value.split(/[.,]/);
+    const padded = fraction.padEnd(3, '0');
+    return Number(`${whole}${padded.slice(0, 3)}.${padded.slice(3) || '0'}`) * (unit / 1000);
+  }
+  
+  /**
+   * Elements that separate the words before and after them when markup is rendered as text
+   */
+  const BREAKING_ELEMENTS = new Set([
+    'speak', 'break', 'p', 's', 'br', 'hr', 'div', 'li', 'ul', 'ol', 'dd', 'dt', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'table', 'tr', 'td', 'th', 'section', 'article', 'header', 'footer', 'blockquote', 'pre', 'img'
+  ]);
+  
+  /**
+   * Replacement text of the named entity references of XML, and of the HTML non-breaking space
+   */
+  const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: '\u00a0' };
+  
+  /**
+   * Whether markup contains an ampersand that does not start an XML entity reference
+   */
+  function hasInvalidReference(markup: string): boolean {
+    return /&(?!(?:amp|lt|gt|quot|apos|#[0-9]+|#x[0-9a-fA-F]+);)/.test(markup);
+  }
+  
+  /**
+   * Decode entity references, leaving unknown ones as they are
+   */
+  function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z]+);/g, (reference, name: string) => {
+      if (name.startsWith('#')) {
+        const code = name[1] === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+      }
+      return NAMED_ENTITIES[name] ?? reference;
+    });
+  }
@@ -6,149 +6,494 @@
  * @license Apache-2.0
  */
 
-import { ValidationResult } from './types';
-import conversationEnvelopeSchema from '../schemas/conversation-envelope/1.0.0/conversation-envelope-schema.json';
-import dialogEventSchema from '../schemas/dialog-event/1.0.2/dialog-event-schema.json';
-import assistantManifestSchema from '../schemas/assistant-manifest/1.0.0/assistant-manifest-schema.json';
+import {
+  ValidationResult,
+  ValidationErrorCode,
+  ValidationErrorDetail,
+  SchemaCompiler,
+  SchemaCompilerError,
+  CompiledSchema
+} from './types';
+import {
+  SchemaRegistry,
+  defaultSchemaRegistry,
+  CONVERSATION_ENVELOPE_SCHEMA_ID,
+  DIALOG_EVENT_SCHEMA_ID,
+  ASSISTANT_MANIFEST_SCHEMA_ID
+} from './schema-registry';
+import { EventTypeDefinition, eventTypeRegistry } from './event-registry';
+import { deepClone } from './utils';
+
+const conversationEnvelopeSchema = defaultSchemaRegistry.get(CONVERSATION_ENVELOPE_SCHEMA_ID)!;
+const dialogEventSchema = defaultSchemaRegistry.get(DIALOG_EVENT_SCHEMA_ID)!;
+const assistantManifestSchema = defaultSchemaRegistry.get(ASSISTANT_MANIFEST_SCHEMA_ID)!;
+
+/**
+ * A JSON Schema: an object, or a boolean that accepts (true) or rejects (false) everything
+ */
+type JsonSchema = Record<string, any> | boolean;
+
+/**
+ * Schema document and registry that `$ref`s are resolved against
+ */
+interface ValidationScope {
+  root: Record<string, any>;
+  registry: SchemaRegistry;
+}
+
+/**
+ * Location of a value inside the validated data: property names and array indexes
+ */
+type Path = readonly (string | number)[];
+
+/**
+ * A validation error in both its string and structured forms
+ */
+interface ValidationIssue {
+  error: string;
+  detail: ValidationErrorDetail;
+}
+
+/**
+ * Error code reported for each schema keyword; other keywords report `schema_mismatch`
+ */
+const KEYWORD_CODES: Record<string, ValidationErrorCode> = {
+  type: 'invalid_type',
+  enum: 'invalid_value',
+  const: 'invalid_value',
+  minimum: 'out_of_range',
+  maximum: 'out_of_range',
+  exclusiveMinimum: 'out_of_range',
+  exclusiveMaximum: 'out_of_range',
+  minLength: 'invalid_length',
+  maxLength: 'invalid_length',
+  pattern: 'pattern_mismatch',
+  format: 'invalid_format',
+  required: 'missing_property',
+  additionalProperties: 'unexpected_property',
+  minProperties: 'invalid_property_count',
+  maxProperties: 'invalid_property_count',
+  minItems: 'invalid_item_count',
+  maxItems: 'invalid_item_count',
+  $schema: 'invalid_schema'
+};
+
+/**
+ * Checks for the `format` values used by Open Floor data
+ * Unknown formats are treated as annotations and always pass.
+ */
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  'date-time': value => /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})$/.test(value) && !isNaN(Date.parse(value)),
+  'date': value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+  'time': value => /^\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})$/.test(value),
+  'duration': value => /^P(?!$)(?:\d+(?:\.\d+)?Y)?(?:\d+(?:\.\d+)?M)?(?:\d+(?:\.\d+)?W)?(?:\d+(?:\.\d+)?D)?(?:T(?=\d)(?:\d+(?:\.\d+)?H)?(?:\d+(?:\.\d+)?M)?(?:\d+(?:\.\d+)?S)?)?$/.test(value),
+  'uri': value => /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/.test(value),
+  'uri-reference': value => !/\s/.test(value),
+  'email': value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  'uuid': value => /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(value)
+};
 
 /**
  * Simple JSON Schema validator implementation
- * Provides basic validation without external dependencies
+ * Provides validation without external dependencies, covering the draft 2020-12
+ * keywords used by the bundled Open Floor schemas: type, enum, const, numeric and
+ * string limits, format, properties, patternProperties, additionalProperties,
+ * required, min/maxProperties, items, min/maxItems, allOf, anyOf, oneOf, not,
+ * if/then/else and `$ref`, both local (into `$defs`) and to other schemas by `$id`.
  */
-class SimpleValidator {
+export class SimpleValidator {
   /**
    * Validate data against a JSON schema
    * @param data - Data to validate
    * @param schema - JSON schema to validate against
+   * @param registry - Registry resolving `$ref`s to other schemas (defaults to the bundled schemas)
    * @returns Validation result
    */
-  static validate(data: unknown, schema: Record<string, any>): ValidationResult {
-    const errors: string[] = [];
+  static validate(data: unknown, schema: Record<string, any>, registry: SchemaRegistry = defaultSchemaRegistry): ValidationResult {
+    const issues: ValidationIssue[] = [];
     
     try {
-      this._validateObject(data, schema, '', errors);
+      this._validateObject(data, schema, [], issues, { root: schema, registry });
     } catch (error) {
-      errors.push(`Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      issues.push({
+        error: `Validation error: ${message}`,
+        detail: { pointer: '', keyword: '$schema', code: 'invalid_schema', message }
+      });
     }
 
     return {
-      valid: errors.length === 0,
-      errors
+      valid: issues.length === 0,
+      errors: issues.map(issue => issue.error),
+      details: issues.map(issue => issue.detail)
     };
   }
 
   /**
-   * Recursively validate an object against a schema
+   * Recursively validate a value against a schema
    */
   private static _validateObject(
     data: unknown, 
-    schema: Record<string, any>, 
-    path: string, 
-    errors: string[]
+    schema: JsonSchema, 
+    path: Path, 
+    issues: ValidationIssue[],
+    scope: ValidationScope
   ): void {
+    if (schema === true) return;
+    if (schema === false) {
+      issues.push(createIssue(path, 'false schema', 'no value is allowed here', { actual: data }));
+      return;
+    }
+
+    // Reference validation
+    if (typeof schema.$ref === 'string') {
+      const target = this._resolveRef(schema.$ref, scope);
+      this._validateObject(data, target.schema, path, issues, target.scope);
+    }
+
     // Type validation
-    if (schema.type) {
-      if (schema.type === 'array') {
-        if (!Array.isArray(data)) {
-          errors.push(`${path || 'root'}: expected array, got ${typeof data}`);
-          return;
-        }
-      } else if (typeof data !== schema.type) {
-        if (!(schema.type === 'object' && data && typeof data === 'object')) {
-          errors.push(`${path || 'root'}: expected ${schema.type}, got ${typeof data}`);
-          return;
-        }
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => matchesType(data, type))) {
+        issues.push(createIssue(path, 'type', `expected ${types.join(' or ')}, got ${typeOf(data)}`, {
+          expected: schema.type,
+          actual: typeOf(data)
+        }));
+        return;
+      }
+    }
+
+    // Enum and const validation
+    if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => deepEqual(option, data))) {
+      issues.push(createIssue(path, 'enum', `value must be one of [${schema.enum.join(', ')}], got ${JSON.stringify(data)}`, {
+        expected: schema.enum,
+        actual: data
+      }));
+    }
+    if ('const' in schema && !deepEqual(schema.const, data)) {
+      issues.push(createIssue(path, 'const', `value must be ${JSON.stringify(schema.const)}, got ${JSON.stringify(data)}`, {
+        expected: schema.const,
+        actual: data
+      }));
+    }
+
+    // Number range validation
+    if (typeof data === 'number') {
+      if (typeof schema.minimum === 'number' && data < schema.minimum) {
+        issues.push(createIssue(path, 'minimum', `value ${data} is below minimum ${schema.minimum}`, { expected: schema.minimum, actual: data }));
+      }
+      if (typeof schema.maximum === 'number' && data > schema.maximum) {
+        issues.push(createIssue(path, 'maximum', `value ${data} is above maximum ${schema.maximum}`, { expected: schema.maximum, actual: data }));
+      }
+      if (typeof schema.exclusiveMinimum === 'number' && data <= schema.exclusiveMinimum) {
+        issues.push(createIssue(path, 'exclusiveMinimum', `value ${data} must be above ${schema.exclusiveMinimum}`, { expected: schema.exclusiveMinimum, actual: data }));
+      }
+      if (typeof schema.exclusiveMaximum === 'number' && data >= schema.exclusiveMaximum) {
+        issues.push(createIssue(path, 'exclusiveMaximum', `value ${data} must be below ${schema.exclusiveMaximum}`, { expected: schema.exclusiveMaximum, actual: data }));
       }
     }
 
+    // String validation
+    if (typeof data === 'string') {
+      const length = Array.from(data).length;
+      if (typeof schema.minLength === 'number' && length < schema.minLength) {
+        issues.push(createIssue(path, 'minLength', `string is shorter than ${schema.minLength} characters`, { expected: schema.minLength, actual: length }));
+      }
+      if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+        issues.push(createIssue(path, 'maxLength', `string is longer than ${schema.maxLength} characters`, { expected: schema.maxLength, actual: length }));
+      }
+      if (schema.pattern && !new RegExp(schema.pattern, 'u').test(data)) {
+        issues.push(createIssue(path, 'pattern', `string does not match pattern ${schema.pattern}`, {
+          expected: schema.pattern,
+          actual: data
+        }));
+      }
+      const formatCheck = typeof schema.format === 'string' ? FORMAT_CHECKS[schema.format] : undefined;
+      if (formatCheck && !formatCheck(data)) {
+        issues.push(createIssue(path, 'format', `string is not a valid ${schema.format}`, { expected: schema.format, actual: data }));
+      }
+    }
+
+    // Object validation
+    if (isObject(data)) {
+      this._validateProperties(data, schema, path, issues, scope);
+    }
+
+    // Array validation
+    if (Array.isArray(data)) {
+      if (typeof schema.minItems === 'number' && data.length < schema.minItems) {
+        issues.push(createIssue(path, 'minItems', `expected at least ${schema.minItems} items, got ${data.length}`, {
+          expected: schema.minItems,
+          actual: data.length
+        }));
+      }
+      if (typeof schema.maxItems === 'number' && data.length > schema.maxItems) {
+        issues.push(createIssue(path, 'maxItems', `expected at most ${schema.maxItems} items, got ${data.length}`, {
+          expected: schema.maxItems,
+          actual: data.length
+        }));
+      }
+      if (schema.items !== undefined) {
+        data.forEach((item, index) => {
+          this._validateObject(item, schema.items, [...path, index], issues, scope);
+        });
+      }
+    }
+
+    // Combinator validation
+    if (Array.isArray(schema.allOf)) {
+      for (const subSchema of schema.allOf) {
+        this._validateObject(data, subSchema, path, issues, scope);
+      }
+    }
+
+    if (Array.isArray(schema.anyOf)) {
+      const valid = schema.anyOf.some((subSchema: JsonSchema) => this._isValid(data, subSchema, path, scope));
+      if (!valid) {
+        issues.push(createIssue(path, 'anyOf', 'value does not match any of the allowed schemas', { actual: data }));
+      }
+    }
+
+    if (Array.isArray(schema.oneOf)) {
+      const matches = schema.oneOf.filter((subSchema: JsonSchema) => this._isValid(data, subSchema, path, scope)).length;
+      if (matches !== 1) {
+        issues.push(createIssue(path, 'oneOf', `value must match exactly one schema, matched ${matches}`, {
+          expected: 1,
+          actual: matches
+        }));
+      }
+    }
+
+    if (schema.not !== undefined && this._isValid(data, schema.not, path, scope)) {
+      issues.push(createIssue(path, 'not', 'value must not match the disallowed schema', { actual: data }));
+    }
+
+    if (schema.if !== undefined) {
+      const branch = this._isValid(data, schema.if, path, scope) ? schema.then : schema.else;
+      if (branch !== undefined) {
+        this._validateObject(data, branch, path, issues, scope);
+      }
+    }
+  }
+
+  /**
+   * Validate the properties of an object
+   */
+  private static _validateProperties(
+    obj: Record<string, unknown>,
+    schema: Record<string, any>,
+    path: Path,
+    issues: ValidationIssue[],
+    scope: ValidationScope
+  ): void {
+    const keys = Object.keys(obj);
+
     // Required properties validation
-    if (schema.required && Array.isArray(schema.required) && data && typeof data === 'object') {
-      const obj = data as Record<string, unknown>;
+    if (Array.isArray(schema.required)) {
       for (const requiredProp of schema.required) {
         if (!(requiredProp in obj) || obj[requiredProp] === undefined) {
-          errors.push(`${path || 'root'}: missing required property '${requiredProp}'`);
+          issues.push(createIssue(path, 'required', `missing required property '${requiredProp}'`, { expected: requiredProp }));
         }
       }
     }
 
+    if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+      issues.push(createIssue(path, 'minProperties', `expected at least ${schema.minProperties} properties, got ${keys.length}`, {
+        expected: schema.minProperties,
+        actual: keys.length
+      }));
+    }
+    if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+      issues.push(createIssue(path, 'maxProperties', `expected at most ${schema.maxProperties} properties, got ${keys.length}`, {
+        expected: schema.maxProperties,
+        actual: keys.length
+      }));
+    }
+
+    const evaluated = new Set<string>();
+
     // Properties validation
-    if (schema.properties && data && typeof data === 'object') {
-      const obj = data as Record<string, unknown>;
+    if (schema.properties) {
       for (const [propName, propSchema] of Object.entries(schema.properties)) {
-        if (propName in obj) {
-          const propPath = path ? `${path}.${propName}` : propName;
-          this._validateObject(obj[propName], propSchema as Record<string, any>, propPath, errors);
+        if (Object.prototype.hasOwnProperty.call(obj, propName)) {
+          evaluated.add(propName);
+          this._validateObject(obj[propName], propSchema as JsonSchema, [...path, propName], issues, scope);
         }
       }
     }
 
     // Pattern properties validation
-    if (schema.patternProperties && data && typeof data === 'object') {
-      const obj = data as Record<string, unknown>;
+    if (schema.patternProperties) {
       for (const [pattern, propSchema] of Object.entries(schema.patternProperties)) {
-        const regex = new RegExp(pattern);
-        for (const [propName, propValue] of Object.entries(obj)) {
+        const regex = new RegExp(pattern, 'u');
+        for (const propName of keys) {
           if (regex.test(propName)) {
-            const propPath = path ? `${path}.${propName}` : propName;
-            this._validateObject(propValue, propSchema as Record<string, any>, propPath, errors);
+            evaluated.add(propName);
+            this._validateObject(obj[propName], propSchema as JsonSchema, [...path, propName], issues, scope);
           }
         }
       }
     }
 
-    // Array validation
-    if (schema.items && Array.isArray(data)) {
-      data.forEach((item, index) => {
-        const itemPath = `${path}[${index}]`;
-        this._validateObject(item, schema.items as Record<string, any>, itemPath, errors);
-      });
+    // Additional properties validation
+    if (schema.additionalProperties !== undefined) {
+      for (const propName of keys) {
+        if (evaluated.has(propName)) continue;
+        if (schema.additionalProperties === false) {
+          issues.push(createIssue(path, 'additionalProperties', `unexpected property '${propName}'`, {
+            expected: false,
+            actual: obj[propName]
+          }, [...path, propName]));
+        } else {
+          this._validateObject(obj[propName], schema.additionalProperties, [...path, propName], issues, scope);
+        }
+      }
     }
+  }
+
+  /**
+   * Check whether a value matches a schema without reporting errors
+   */
+  private static _isValid(data: unknown, schema: JsonSchema, path: Path, scope: ValidationScope): boolean {
+    const issues: ValidationIssue[] = [];
+    this._validateObject(data, schema, path, issues, scope);
+    return issues.length === 0;
+  }
 
-    // Enum validation
-    if (schema.enum && Array.isArray(schema.enum)) {
-      if (!schema.enum.includes(data)) {
-        errors.push(`${path || 'root'}: value must be one of [${schema.enum.join(', ')}], got ${JSON.stringify(data)}`);
+  /**
+   * Resolve a `$ref`: a JSON Pointer fragment such as `#/$defs/uri`, optionally
+   * preceded by the URI of a registered schema (relative to the current schema's `$id`)
+   * @throws Error if the reference cannot be resolved
+   */
+  private static _resolveRef(ref: string, scope: ValidationScope): { schema: JsonSchema; scope: ValidationScope } {
+    const hashIndex = ref.indexOf('#');
+    const uri = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+    const fragment = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+    let root = scope.root;
+    if (uri !== '') {
+      const absolute = typeof root.$id === 'string' ? new URL(uri, root.$id).href : uri;
+      const document = scope.registry.get(absolute);
+      if (!document) {
+        throw new Error(`Unresolvable schema reference: ${ref}`);
       }
+      root = document;
     }
 
-    // Number range validation
-    if (typeof data === 'number') {
-      if (typeof schema.minimum === 'number' && data < schema.minimum) {
-        errors.push(`${path || 'root'}: value ${data} is below minimum ${schema.minimum}`);
-      }
-      if (typeof schema.maximum === 'number' && data > schema.maximum) {
-        errors.push(`${path || 'root'}: value ${data} is above maximum ${schema.maximum}`);
-      }
+    let target: unknown = root;
+    for (const segment of fragment.split('/').slice(1)) {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      target = isObject(target) ? target[key] : undefined;
     }
 
-    // String pattern validation
-    if (typeof data === 'string' && schema.pattern) {
-      const regex = new RegExp(schema.pattern);
-      if (!regex.test(data)) {
-        errors.push(`${path || 'root'}: string does not match pattern ${schema.pattern}`);
-      }
+    if (!isObject(target) && typeof target !== 'boolean') {
+      throw new Error(`Unresolvable schema reference: ${ref}`);
     }
+    return { schema: target as JsonSchema, scope: { root, registry: scope.registry } };
+  }
+}
 
-    // AnyOf validation
-    if (schema.anyOf && Array.isArray(schema.anyOf)) {
-      const anyOfErrors: string[] = [];
-      let valid = false;
-      
-      for (const subSchema of schema.anyOf) {
-        const subErrors: string[] = [];
-        this._validateObject(data, subSchema as Record<string, any>, path, subErrors);
-        if (subErrors.length === 0) {
-          valid = true;
-          break;
-        }
-        anyOfErrors.push(...subErrors);
-      }
-      
-      if (!valid) {
-        errors.push(`${path || 'root'}: value does not match any of the allowed schemas`);
-      }
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON Schema type name of a value
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check a value against a JSON Schema type name
+ */
+function matchesType(value: unknown, type: string): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeOf(value) === type;
+}
+
+/**
+ * Structural equality of JSON values, as used by enum and const
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Path of a value for error messages, such as `openFloor.events[0]`
+ */
+function formatPath(path: Path): string {
+  return path.reduce<string>(
+    (result, segment) => typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment,
+    ''
+  );
+}
+
+/**
+ * JSON Pointer (RFC 6901) of a value
+ */
+function toPointer(path: Path): string {
+  return path.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+/**
+ * Create a validation error for a failed keyword
+ * @param path - Location reported in the string form
+ * @param target - Location of the offending value, when it differs from `path`
+ */
+function createIssue(
+  path: Path,
+  keyword: string,
+  message: string,
+  values: { expected?: unknown; actual?: unknown } = {},
+  target: Path = path
+): ValidationIssue {
+  return {
+    error: `${formatPath(path) || 'root'}: ${message}`,
+    detail: {
+      pointer: toPointer(target),
+      keyword,
+      code: KEYWORD_CODES[keyword] ?? 'schema_mismatch',
+      ...values,
+      message
     }
+  };
+}
+
+/**
+ * Convert an AJV-style error object into a validation error detail
+ */
+function fromCompilerError(err: SchemaCompilerError): ValidationErrorDetail {
+  const params = err.params ?? {};
+  const detail: ValidationErrorDetail = {
+    pointer: err.instancePath ?? '',
+    keyword: err.keyword,
+    code: KEYWORD_CODES[err.keyword] ?? 'schema_mismatch',
+    message: err.message ?? 'is invalid'
+  };
+
+  if (err.keyword === 'additionalProperties') {
+    detail.pointer += toPointer([params.additionalProperty]);
   }
+  const expected = params.limit ?? params.type ?? params.allowedValues ?? params.allowedValue ??
+    params.pattern ?? params.format ?? params.missingProperty;
+  if (expected !== undefined) detail.expected = expected;
+  if (err.keyword !== 'required' && 'data' in err) detail.actual = err.data;
+  return detail;
 }
 
 /**
@@ -225,63 +570,110 @@ export function validateManifest(data: unknown): ValidationResult {
  * ```
  */
 export function validateEnvelope(data: unknown): ValidationResult {
-  return SimpleValidator.validate(data, conversationEnvelopeSchema);
+  return SimpleValidator.validate(data, envelopeSchema());
 }
 
 /**
- * Enhanced validator that uses external AJV library if available
- * Falls back to simple validator if AJV is not available
+ * Enhanced validator that uses an injected schema compiler such as AJV
+ * Schemas are compiled once and cached by `$id`.
+ *
+ * **No compiler is bundled.** Until a compiler is set with `use()`, every call falls back
+ * to the simple validator (with a one-time console warning), as does any schema that fails
+ * to compile. Call `use(null)` to choose the simple validator deliberately.
+ *
+ * @example
+ * ```typescript
+ * import Ajv2020 from 'ajv/dist/2020';
+ *
+ * // The bundled schemas declare draft 2020-12
+ * EnhancedValidator.use(new Ajv2020({ allErrors: true, verbose: true, strict: false, validateSchema: false }));
+ * const result = validateEnvelopeEnhanced(data);
+ * ```
  */
 export class EnhancedValidator {
-  private static _ajv: any = null;
-  private static _initialized = false;
+  private static _compiler: SchemaCompiler | null = null;
+  private static _registry: SchemaRegistry = defaultSchemaRegistry;
+  private static _compiled = new Map<string, CompiledSchema | null>();
+  private static _compiledWithoutId = new WeakMap<object, CompiledSchema | null>();
+  private static _configured = false;
 
   /**
-   * Initialize the validator (attempts to load AJV)
+   * Set the schema compiler used for validation
+   * Registers the registry's schemas with the compiler (when it supports `addSchema`)
+   * and discards previously compiled schemas.
+   * @param compiler - Schema compiler, or null to use the simple validator
+   * @param registry - Schemas that `$ref`s resolve against
    */
-  private static _initialize(): void {
-    if (this._initialized) return;
-    
-    try {
-      const Ajv = require('ajv');
-      this._ajv = new Ajv({ 
-        allErrors: true,
-        verbose: true,
-        strict: false 
-      });
-    } catch {
-      this._ajv = null;
+  static use(compiler: SchemaCompiler | null, registry: SchemaRegistry = defaultSchemaRegistry): void {
+    this._compiler = compiler;
+    this._configured = true;
+    this._registry = registry;
+    this._compiled = new Map();
+    this._compiledWithoutId = new WeakMap();
+
+    if (compiler?.addSchema) {
+      for (const id of registry.ids) {
+        try {
+          compiler.addSchema(registry.get(id)!, id);
+        } catch {
+          // Already registered with this compiler
+        }
+      }
     }
-    
-    this._initialized = true;
   }
 
   /**
-   * Validate data against schema using AJV if available, otherwise simple validator
+   * Validate data against schema using the schema compiler if set, otherwise simple validator
    * @param data - Data to validate
    * @param schema - JSON schema
    * @returns Validation result
    */
   static validate(data: unknown, schema: Record<string, any>): ValidationResult {
-    this._initialize();
-
-    if (this._ajv) {
-      try {
-        const validate = this._ajv.compile(schema);
-        const valid = validate(data);
-        
-        return {
-          valid,
-          errors: valid ? [] : (validate.errors || []).map((err: any) => 
-            `${err.instancePath || 'root'}: ${err.message}`
-          )
-        };
-      } catch (error) {
-        return SimpleValidator.validate(data, schema);
-      }
+    if (!this._configured) {
+      this._configured = true;
+      console.warn('EnhancedValidator has no schema compiler; call EnhancedValidator.use() to set one. Falling back to the simple validator.');
+    }
+
+    const validate = this._compiledSchema(schema);
+    const valid = validate?.(data);
+
+    if (typeof valid !== 'boolean') {
+      return SimpleValidator.validate(data, schema, this._registry);
+    }
+
+    const compilerErrors = valid ? [] : validate!.errors || [];
+    return {
+      valid,
+      errors: compilerErrors.map(err => `${err.instancePath || 'root'}: ${err.message}`),
+      details: compilerErrors.map(fromCompilerError)
+    };
+  }
+
+  /**
+   * Get the cached compiled schema, compiling it on first use
+   * @returns The compiled schema, or null if there is no compiler or the schema does not compile
+   */
+  private static _compiledSchema(schema: Record<string, any>): CompiledSchema | null {
+    const compiler = this._compiler;
+    if (!compiler) return null;
+
+    const id = typeof schema.$id === 'string' ? schema.$id : undefined;
+    const cached = id !== undefined ? this._compiled.get(id) : this._compiledWithoutId.get(schema);
+    if (cached !== undefined) return cached;
+
+    let compiled: CompiledSchema | null;
+    try {
+      compiled = (id !== undefined ? compiler.getSchema?.(id) : undefined) ?? compiler.compile(schema);
+    } catch {
+      compiled = null;
     }
 
-    return SimpleValidator.validate(data, schema);
+    if (id !== undefined) {
+      this._compiled.set(id, compiled);
+    } else {
+      this._compiledWithoutId.set(schema, compiled);
+    }
+    return compiled;
   }
 }
 
@@ -303,5 +695,36 @@ export function validateManifestEnhanced(data: unknown): ValidationResult {
  * Validates envelope using enhanced validator
  */
 export function validateEnvelopeEnhanced(data: unknown): ValidationResult {
-  return EnhancedValidator.validate(data, conversationEnvelopeSchema);
+  return EnhancedValidator.validate(data, envelopeSchema());
+}
+
+/**
+ * Envelope schema extended for the registered event types, rebuilt when the registry changes
+ */
+let extendedEnvelopeSchema: { definitions: readonly EventTypeDefinition[]; schema: Record<string, any> } | undefined;
+
+/**
+ * Get the envelope schema that accepts the registered event types and checks their parameters
+ * The extended schema has no `$id`, so the enhanced validator caches it by identity
+ * instead of confusing it with the bundled schema.
+ */
+function envelopeSchema(): Record<string, any> {
+  const definitions = eventTypeRegistry.definitions;
+  if (definitions.length === 0) return conversationEnvelopeSchema;
+
+  if (extendedEnvelopeSchema?.definitions !== definitions) {
+    const schema = deepClone(conversationEnvelopeSchema);
+    delete schema.$id;
+    const eventSchema = schema.properties.openFloor.properties.events.items;
+    eventSchema.properties.eventType.enum.push(...definitions.map(definition => definition.eventType));
+    for (const { eventType, parametersSchema } of definitions) {
+      if (parametersSchema === undefined) continue;
+      eventSchema.allOf.push({
+        if: { properties: { eventType: { const: eventType } }, required: ['eventType'] },
+        then: { properties: { parameters: parametersSchema } }
+      });
+    }
+    extendedEnvelopeSchema = { definitions, schema };
+  }
+  return extendedEnvelopeSchema.schema;
 }
\ No newline at end of file
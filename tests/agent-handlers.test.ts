@@ -0,0 +1,143 @@
+import { OpenFloorAgent, AgentEventContext } from '../src/agents';
+import { Envelope, Manifest } from '../src/envelope';
+import { UtteranceEvent, InviteEvent, YieldFloorEvent } from '../src/events';
+
+const manifest = new Manifest({
+  identification: {
+    speakerUri: 'tag:example.com,2025:agent',
+    serviceUrl: 'https://example.com/agent',
+    organization: 'ExampleOrg',
+    conversationalName: 'Agent',
+    synopsis: 'Handler test agent'
+  },
+  capabilities: []
+});
+
+class TestAgent extends OpenFloorAgent {}
+
+function newAgent(): TestAgent {
+  return new TestAgent(manifest.toObject() as any);
+}
+
+function envelopeWith(events: Array<Record<string, unknown>>): Envelope {
+  return new Envelope({
+    schema: { version: '1.0.0' },
+    conversation: { id: 'conv-1' },
+    sender: { speakerUri: 'tag:example.com,2025:user' },
+    events: events as any
+  });
+}
+
+const utterance = (text: string, to?: Record<string, unknown>) => ({
+  eventType: 'utterance',
+  ...(to ? { to } : {}),
+  parameters: {
+    dialogEvent: {
+      id: `de-${text}`,
+      speakerUri: 'tag:example.com,2025:user',
+      span: { startTime: new Date().toISOString() },
+      features: { text: { mimeType: 'text/plain', tokens: [{ value: text }] } }
+    }
+  }
+});
+
+describe('OFP Agent Event Handlers', () => {
+  it('passes typed events and a context to handlers', async () => {
+    const agent = newAgent();
+    const seen: Array<[string, AgentEventContext]> = [];
+    agent.on('utterance', (event, context) => {
+      expect(event).toBeInstanceOf(UtteranceEvent);
+      seen.push([event.dialogEvent.features.get('text')?.tokens[0]?.value as string, context]);
+    });
+    agent.on('invite', event => {
+      expect(event).toBeInstanceOf(InviteEvent);
+    });
+
+    const inEnvelope = envelopeWith([utterance('hello'), { eventType: 'invite' }]);
+    const outEnvelope = await agent.processEnvelope(inEnvelope);
+
+    expect(seen).toHaveLength(1);
+    const [text, context] = seen[0]!;
+    expect(text).toBe('hello');
+    expect(context.agent).toBe(agent);
+    expect(context.inEnvelope).toBe(inEnvelope);
+    expect(context.outEnvelope).toBe(outEnvelope);
+  });
+
+  it('awaits async handlers in registration and event order', async () => {
+    const agent = newAgent();
+    const calls: string[] = [];
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    agent.on('envelope', async () => { await delay(5); calls.push('envelope'); });
+    agent.on('utterance', async event => { await delay(5); calls.push(`first:${event.dialogEvent.id}`); });
+    agent.on('utterance', async event => { calls.push(`second:${event.dialogEvent.id}`); });
+
+    await agent.processEnvelope(envelopeWith([utterance('a'), utterance('b')]));
+    expect(calls).toEqual(['envelope', 'first:de-a', 'second:de-a', 'first:de-b', 'second:de-b']);
+  });
+
+  it('appends replies to the response envelope', async () => {
+    const agent = newAgent();
+    let replied: Envelope | undefined;
+    agent.on('utterance', (_event, context) => {
+      const before = context.outEnvelope;
+      context.reply(new YieldFloorEvent({ reason: '@complete' }));
+      replied = context.outEnvelope;
+      // Envelopes are not changed by replies
+      expect(before.events).toEqual([]);
+    });
+
+    const outEnvelope = await agent.processEnvelope(envelopeWith([utterance('hi')]));
+    expect(outEnvelope).toBe(replied);
+    expect(outEnvelope.events.map(e => e.eventType)).toEqual(['yieldFloor']);
+    expect(outEnvelope.events[0]?.reason).toBe('@complete');
+  });
+
+  it('only dispatches events addressed to the agent', async () => {
+    const agent = newAgent();
+    const handler = jest.fn();
+    agent.on('utterance', handler);
+
+    await agent.processEnvelope(envelopeWith([
+      utterance('other', { speakerUri: 'tag:example.com,2025:someone-else' }),
+      utterance('mine', { serviceUrl: 'https://example.com/agent' })
+    ]));
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0].dialogEvent.id).toBe('de-mine');
+  });
+
+  it('propagates handler errors to processEnvelope', async () => {
+    const agent = newAgent();
+    const after = jest.fn();
+    agent.on('utterance', async () => { throw new Error('handler failed'); });
+    agent.on('utterance', after);
+
+    await expect(agent.processEnvelope(envelopeWith([utterance('x')]))).rejects.toThrow('handler failed');
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it('removes handlers with off()', async () => {
+    const agent = newAgent();
+    const handler = jest.fn();
+    agent.on('utterance', handler);
+    agent.off('utterance', handler);
+
+    await agent.processEnvelope(envelopeWith([utterance('x')]));
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('accepts legacy handler names', async () => {
+    const agent = newAgent();
+    const onEnvelope = jest.fn(async (event: CustomEvent) => {
+      expect(event.detail.inEnvelope).toBeInstanceOf(Envelope);
+    });
+    const onUtterance = jest.fn(async () => {});
+    agent.on('onEnvelope', onEnvelope);
+    agent.on('onUtterance', onUtterance);
+
+    await agent.processEnvelope(envelopeWith([utterance('x')]));
+    expect(onEnvelope).toHaveBeenCalledTimes(1);
+    expect(onUtterance).toHaveBeenCalledTimes(1);
+  });
+});
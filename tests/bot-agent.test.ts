@@ -0,0 +1,310 @@
+import { BotAgent, ConvenerAgent, AgentEventContext } from '../src/agents';
+import { Envelope, Event, Manifest } from '../src/envelope';
+import { DeclineInviteEvent, InviteEvent, UtteranceEvent } from '../src/events';
+import { Clock, InviteDecision } from '../src/types';
+
+const manifest = new Manifest({
+  identification: {
+    speakerUri: 'tag:example.com,2025:bot',
+    serviceUrl: 'https://example.com/bot',
+    organization: 'ExampleOrg',
+    conversationalName: 'Bot',
+    synopsis: 'Test bot'
+  },
+  capabilities: []
+});
+
+const convenerUri = 'tag:example.com,2025:convener';
+
+function envelopeWith(events: Array<Record<string, unknown>>, conversation: Record<string, unknown> = { id: 'conv-1' }): Envelope {
+  return new Envelope({
+    schema: { version: '1.0.0' },
+    conversation: conversation as any,
+    sender: { speakerUri: convenerUri, serviceUrl: 'https://example.com/convener' },
+    events: events as any
+  });
+}
+
+const utterance = (text: string) => ({
+  eventType: 'utterance',
+  parameters: {
+    dialogEvent: {
+      id: 'de-1',
+      speakerUri: convenerUri,
+      span: { startTime: new Date().toISOString() },
+      features: { text: { mimeType: 'text/plain', tokens: [{ value: text }] } }
+    }
+  }
+});
+
+function textOf(event: unknown): string | undefined {
+  return (event as UtteranceEvent).dialogEvent.features.get('text')?.tokens[0]?.value as string | undefined;
+}
+
+describe('OFP BotAgent Hooks', () => {
+  it('replies with the default utterance', async () => {
+    const bot = new BotAgent(manifest.toObject() as any);
+    const response = await bot.processEnvelope(envelopeWith([utterance('hello')]));
+
+    expect(response.events).toHaveLength(1);
+    expect(response.events[0]).toBeInstanceOf(UtteranceEvent);
+    expect(textOf(response.events[0])).toMatch(/simple bot/);
+    expect((response.events[0] as UtteranceEvent).dialogEvent.speakerUri).toBe(bot.speakerUri);
+    expect((response.events[0] as UtteranceEvent).dialogEvent.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('lets subclasses replace the utterance reply', async () => {
+    class EchoBot extends BotAgent {
+      protected async respondToUtterance(event: UtteranceEvent, context: AgentEventContext): Promise<void> {
+        context.reply(this.createUtterance(`You said: ${textOf(event)}`));
+      }
+    }
+
+    const response = await new EchoBot(manifest.toObject() as any).processEnvelope(envelopeWith([utterance('hi')]));
+    expect(response.events.map(textOf)).toEqual(['You said: hi']);
+  });
+
+  it('keeps the invite and floor bookkeeping when accepting invites', async () => {
+    const bot = new BotAgent(manifest.toObject() as any);
+    await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }]));
+    expect(bot.activeConversation?.id).toBe('conv-1');
+    expect(bot.hasFloor).toBe(true);
+
+    await bot.processEnvelope(envelopeWith([{ eventType: 'revokeFloor' }]));
+    expect(bot.hasFloor).toBe(false);
+
+    await bot.processEnvelope(envelopeWith([{ eventType: 'uninvite' }]));
+    expect(bot.activeConversation).toBeNull();
+  });
+
+  it('can decline invites instead of accepting them', async () => {
+    class BusyBot extends BotAgent {
+      protected async acceptInvite(event: InviteEvent, context: AgentEventContext): Promise<void> {
+        await this.declineInvite(event, context, '@unavailable');
+      }
+    }
+
+    const bot = new BusyBot(manifest.toObject() as any);
+    const response = await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }]));
+
+    expect(bot.activeConversation).toBeNull();
+    expect(response.events.map(e => [e.eventType, e.to?.speakerUri, e.reason])).toEqual([
+      ['declineInvite', convenerUri, '@unavailable']
+    ]);
+  });
+
+  it('publishes its manifest in response to getManifests', async () => {
+    const bot = new BotAgent(manifest.toObject() as any);
+    const response = await bot.processEnvelope(envelopeWith([{ eventType: 'getManifests' }]));
+
+    expect(response.events.map(e => e.eventType)).toEqual(['publishManifests']);
+    expect((response.events[0]?.parameters as any).servicingManifests[0].identification.speakerUri).toBe(bot.speakerUri);
+  });
+});
+
+describe('OFP BotAgent Conversations', () => {
+  function clockAt(time: { now: number }): Clock {
+    return { now: () => time.now, setTimeout: () => 0, clearTimeout: () => {} };
+  }
+
+  it('keeps floor and context separately for each conversation', async () => {
+    const bot = new BotAgent(manifest.toObject() as any);
+
+    await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }], { id: 'conv-1' }));
+    await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }, { eventType: 'revokeFloor' }], { id: 'conv-2' }));
+    expect(bot.conversationIds).toEqual(['conv-1', 'conv-2']);
+    expect(bot.activeConversation?.id).toBe('conv-2');
+    expect(bot.hasFloor).toBe(false);
+
+    await bot.processEnvelope(envelopeWith([{ eventType: 'context', parameters: { dialogHistory: [] } }], { id: 'conv-1' }));
+    expect(bot.activeConversation?.id).toBe('conv-1');
+    expect(bot.hasFloor).toBe(true);
+    expect(bot.currentContext).toHaveLength(1);
+    expect(bot.getConversation('conv-2')?.context).toEqual([]);
+  });
+
+  it('loads its persistent state from the conversants list', async () => {
+    const bot = new BotAgent(manifest.toObject() as any);
+    await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }], {
+      id: 'conv-1',
+      conversants: [{ identification: manifest.identification.toObject(), persistentState: { step: 2 } }]
+    }));
+    expect(bot.getConversation('conv-1')?.persistentState).toEqual({ step: 2 });
+  });
+
+  it('forgets a conversation when uninvited', async () => {
+    const bot = new BotAgent(manifest.toObject() as any);
+    await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }], { id: 'conv-1' }));
+    await bot.processEnvelope(envelopeWith([{ eventType: 'uninvite' }], { id: 'conv-1' }));
+    expect(bot.conversationIds).toEqual([]);
+  });
+
+  it('keeps no state for conversations it has not joined', async () => {
+    const bot = new BotAgent(manifest.toObject() as any, { maxConversations: 1 });
+    await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }], { id: 'conv-1' }));
+
+    const reply = await bot.processEnvelope(envelopeWith([utterance('hello')], { id: 'conv-2' }));
+    expect(reply.events.map(e => e.eventType)).toEqual(['utterance']);
+    await expect(bot.processEnvelope(envelopeWith([{ eventType: 'bye' }], { id: 'conv-3' }))).resolves.toBeInstanceOf(Envelope);
+    const manifests = await bot.processEnvelope(envelopeWith([{ eventType: 'getManifests' }], { id: 'conv-4' }));
+    expect(manifests.events.map(e => e.eventType)).toEqual(['publishManifests']);
+
+    expect(bot.conversationIds).toEqual(['conv-1']);
+    expect(bot.activeConversation).toBeNull();
+  });
+
+  it('evicts the least recently active conversation when enabled', async () => {
+    const time = { now: 0 };
+    const bot = new BotAgent(manifest.toObject() as any, { maxConversations: 2, evictLeastRecent: true, clock: clockAt(time) });
+
+    for (const id of ['conv-1', 'conv-2', 'conv-1', 'conv-3']) {
+      await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }], { id }));
+      time.now++;
+    }
+    expect(bot.conversationIds).toEqual(['conv-1', 'conv-3']);
+    expect(bot.activeConversation?.id).toBe('conv-3');
+  });
+
+  it('evicts idle conversations to make room', async () => {
+    const time = { now: 0 };
+    const bot = new BotAgent(manifest.toObject() as any, { maxConversations: 1, idleTimeout: 1000, clock: clockAt(time) });
+
+    await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }], { id: 'conv-1' }));
+    time.now = 999;
+    expect(bot.evictIdleConversations()).toEqual([]);
+
+    time.now = 1000;
+    await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }], { id: 'conv-2' }));
+    expect(bot.conversationIds).toEqual(['conv-2']);
+  });
+});
+
+describe('OFP BotAgent Invite Decisions', () => {
+  const weatherManifest = {
+    ...manifest.toObject(),
+    capabilities: [{ keyphrases: ['weather', 'forecast'], descriptions: ['Weather reports'], languages: ['en-US'] }]
+  } as any;
+
+  const contextWith = (text: string, lang?: string) => ({
+    eventType: 'context',
+    parameters: {
+      dialogHistory: [{
+        id: 'de-ctx',
+        speakerUri: 'tag:example.com,2025:user',
+        span: { startTime: new Date().toISOString() },
+        features: { text: { mimeType: 'text/plain', tokens: [{ value: text }], ...(lang ? { lang } : {}) } }
+      }]
+    }
+  });
+
+  async function reasonFor(bot: BotAgent, events: Array<Record<string, unknown>>): Promise<string | undefined | null> {
+    const response = await bot.processEnvelope(envelopeWith(events));
+    const decline = response.events.find(e => e.eventType === 'declineInvite');
+    return decline ? decline.reason : null;
+  }
+
+  it('declines with @unavailable when at its maximum of conversations', async () => {
+    const bot = new BotAgent(manifest.toObject() as any, { maxConversations: 1 });
+    await bot.processEnvelope(envelopeWith([{ eventType: 'invite' }], { id: 'conv-0' }));
+
+    expect(await reasonFor(bot, [{ eventType: 'invite' }])).toBe('@unavailable');
+    expect(bot.conversationIds).toEqual(['conv-0']);
+  });
+
+  it('does not reply to utterances next to a declined invite', async () => {
+    const full = new BotAgent(manifest.toObject() as any, { maxConversations: 1 });
+    await full.processEnvelope(envelopeWith([{ eventType: 'invite' }], { id: 'conv-0' }));
+    const response = await full.processEnvelope(envelopeWith([{ eventType: 'invite' }, utterance('hello')]));
+    expect(response.events.map(e => e.eventType)).toEqual(['declineInvite']);
+
+    const refusing = new BotAgent(manifest.toObject() as any, { allowedConveners: [] });
+    const refused = await refusing.processEnvelope(envelopeWith([{ eventType: 'invite' }, utterance('hello')]));
+    expect(refused.events.map(e => e.eventType)).toEqual(['declineInvite']);
+  });
+
+  it('declines with @unavailable when the convener is not allowed', async () => {
+    const refusing = new BotAgent(manifest.toObject() as any, { allowedConveners: ['tag:example.com,2025:other'] });
+    const accepting = new BotAgent(manifest.toObject() as any, { allowedConveners: [convenerUri] });
+
+    expect(await reasonFor(refusing, [{ eventType: 'invite' }])).toBe('@unavailable');
+    expect(refusing.activeConversation).toBeNull();
+    expect(await reasonFor(accepting, [{ eventType: 'invite' }])).toBeNull();
+    expect(accepting.activeConversation?.id).toBe('conv-1');
+  });
+
+  it('frees the slot of a conversation it declined to join', async () => {
+    const bot = new BotAgent(manifest.toObject() as any, { allowedConveners: [convenerUri], maxConversations: 1 });
+    const stranger = new Envelope({
+      ...envelopeWith([{ eventType: 'invite' }], { id: 'conv-0' }).toObject() as any,
+      sender: { speakerUri: 'tag:example.com,2025:stranger' }
+    });
+
+    const declined = await bot.processEnvelope(stranger);
+    expect(declined.events.map(e => e.eventType)).toEqual(['declineInvite']);
+    expect(bot.conversationIds).toEqual([]);
+    expect(await reasonFor(bot, [{ eventType: 'invite' }])).toBeNull();
+    expect(bot.conversationIds).toEqual(['conv-1']);
+  });
+
+  it('declines with @outOfDomain when the language is not supported', async () => {
+    const bot = new BotAgent(weatherManifest, { matchLanguages: true });
+    expect(await reasonFor(bot, [contextWith('quel temps fait-il', 'fr-FR'), { eventType: 'invite' }])).toBe('@outOfDomain');
+    expect(await reasonFor(bot, [contextWith('what is the weather', 'en-GB'), { eventType: 'invite' }])).toBeNull();
+  });
+
+  it('declines with @outOfDomain when no capability matches the context', async () => {
+    const bot = new BotAgent(weatherManifest, { matchCapabilities: true });
+    expect(await reasonFor(bot, [contextWith('book me a flight'), { eventType: 'invite' }])).toBe('@outOfDomain');
+    expect(await reasonFor(bot, [contextWith('Will the Forecast change?'), { eventType: 'invite' }])).toBeNull();
+  });
+
+  it('skips utterances that were not hydrated into UtteranceEvents', async () => {
+    const bot = new BotAgent(weatherManifest, { matchLanguages: true, matchCapabilities: true });
+    const handled: unknown[] = [];
+    bot.on('utterance', event => { handled.push(event.dialogEvent); });
+
+    // A plain Event that only carries the utterance type, as a lenient transport might hand over
+    const parsed = envelopeWith([{ eventType: 'invite' }]);
+    const malformed = new Event({ eventType: 'utterance', parameters: { dialogEvent: { speakerUri: convenerUri } } });
+    const envelope: Envelope = Object.assign(Object.create(Envelope.prototype), parsed, { events: [...parsed.events, malformed] });
+
+    const response = await bot.processEnvelope(envelope);
+    expect(response.events).toEqual([]);
+    expect(handled).toEqual([]);
+    expect(bot.activeConversation?.id).toBe('conv-1');
+  });
+
+  it('lets subclasses override the decision', async () => {
+    class PickyBot extends BotAgent {
+      protected async decideInvite(): Promise<InviteDecision> {
+        return { accept: false, reason: '@refused' };
+      }
+    }
+    expect(await reasonFor(new PickyBot(manifest.toObject() as any), [{ eventType: 'invite' }])).toBe('@refused');
+  });
+
+  it('lets conveners track pending invites and react to declines', async () => {
+    const declined: string[] = [];
+    class TrackingConvener extends ConvenerAgent {
+      protected async inviteDeclined(event: DeclineInviteEvent, context: AgentEventContext): Promise<void> {
+        declined.push(`${context.inEnvelope.sender.serviceUrl} ${event.reason}`);
+      }
+    }
+
+    const convener = new TrackingConvener({ ...manifest.toObject(), identification: {
+      ...manifest.identification.toObject(),
+      speakerUri: convenerUri,
+      serviceUrl: 'https://example.com/convener'
+    } } as any);
+    const bot = new BotAgent(manifest.toObject() as any, { allowedConveners: [] });
+
+    const invite = convener.inviteAgent(bot.serviceUrl, bot.speakerUri);
+    expect(convener.pendingInvites).toEqual([bot.serviceUrl]);
+
+    const response = await bot.processEnvelope(envelopeWith([invite.toObject()]));
+    await convener.processEnvelope(response);
+
+    expect(convener.pendingInvites).toEqual([]);
+    expect(declined).toEqual([`${bot.serviceUrl} @unavailable`]);
+  });
+});
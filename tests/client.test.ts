@@ -0,0 +1,152 @@
+import { AgentClient } from '../src/client';
+import { Envelope, Manifest } from '../src/envelope';
+import { UtteranceEvent } from '../src/events';
+
+describe('OFP HTTP Agent Client', () => {
+  const manifest = new Manifest({
+    identification: {
+      speakerUri: 'tag:example.com,2025:bot-1',
+      serviceUrl: 'https://bot.example.com/openfloor',
+      organization: 'ExampleOrg',
+      conversationalName: 'Bot',
+      synopsis: 'Test bot'
+    },
+    capabilities: []
+  });
+
+  const envelope = new Envelope({
+    schema: { version: '1.0.0' },
+    conversation: { id: 'conv-1' },
+    sender: { speakerUri: 'tag:example.com,2025:user-1' },
+    events: [{ eventType: 'invite', to: { speakerUri: 'tag:example.com,2025:bot-1' } }]
+  });
+
+  const responseBody = JSON.stringify({
+    openFloor: {
+      schema: { version: '1.0.0' },
+      conversation: { id: 'conv-1' },
+      sender: { speakerUri: 'tag:example.com,2025:bot-1' },
+      events: [{
+        eventType: 'utterance',
+        parameters: {
+          dialogEvent: {
+            id: 'de-1',
+            speakerUri: 'tag:example.com,2025:bot-1',
+            span: { startTime: '2025-01-01T00:00:00.000Z' },
+            features: { text: { mimeType: 'text/plain', tokens: [{ value: 'Hi there' }] } }
+          }
+        }
+      }]
+    }
+  });
+
+  function reply(status: number, body = responseBody): Response {
+    return new Response(body, { status, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  it('posts the payload to the serviceUrl and returns typed response events', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(reply(200));
+    const client = new AgentClient({ fetch: fetchMock, headers: { Authorization: 'Bearer abc' } });
+
+    const response = await client.send(envelope, manifest, { headers: { 'X-Trace': '1' } });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://bot.example.com/openfloor');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer abc', 'X-Trace': '1' });
+    expect(JSON.parse(init.body).openFloor.conversation.id).toBe('conv-1');
+    expect(response.events[0]).toBeInstanceOf(UtteranceEvent);
+    expect((response.events[0] as UtteranceEvent).dialogEvent.features.get('text')?.tokens[0]?.value).toBe('Hi there');
+  });
+
+  it('accepts an Identification as the target', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(reply(200));
+    await new AgentClient({ fetch: fetchMock }).send(envelope, manifest.identification);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://bot.example.com/openfloor');
+  });
+
+  it('retries network errors and 5xx responses with backoff', async () => {
+    const fetchMock = jest.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(reply(503, 'unavailable'))
+      .mockResolvedValueOnce(reply(200));
+    const client = new AgentClient({ fetch: fetchMock, retries: 2, retryDelay: 1 });
+
+    const response = await client.send(envelope, manifest);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(response.sender.speakerUri).toBe('tag:example.com,2025:bot-1');
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const fetchMock = jest.fn(async () => reply(500, 'boom'));
+    const client = new AgentClient({ fetch: fetchMock, retries: 1, retryDelay: 1 });
+    await expect(client.send(envelope, manifest)).rejects.toThrow(/responded with 500: boom/);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry 4xx responses', async () => {
+    const fetchMock = jest.fn(async () => reply(400, '{"error":"bad"}'));
+    const client = new AgentClient({ fetch: fetchMock, retries: 3, retryDelay: 1 });
+    await expect(client.send(envelope, manifest)).rejects.toThrow(/responded with 400/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out slow attempts', async () => {
+    const fetchMock = jest.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+    const client = new AgentClient({ fetch: fetchMock as unknown as typeof fetch, timeout: 5 });
+    await expect(client.send(envelope, manifest)).rejects.toThrow(/timed out after 5ms/);
+  });
+
+  it('stops without retrying when the caller aborts', async () => {
+    const controller = new AbortController();
+    const fetchMock = jest.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted by caller')));
+    }));
+    const client = new AgentClient({ fetch: fetchMock as unknown as typeof fetch, retries: 3, retryDelay: 1 });
+    const pending = client.send(envelope, manifest, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toThrow(/aborted by caller/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs without a global fetch or AbortSignal.throwIfAborted', async () => {
+    const globalFetch = globalThis.fetch;
+    delete (globalThis as { fetch?: typeof fetch }).fetch;
+    try {
+      expect(() => new AgentClient()).toThrow('requires a fetch implementation');
+      const fetchMock = jest.fn().mockResolvedValue(reply(200, responseBody));
+      await expect(new AgentClient({ fetch: fetchMock }).send(envelope, manifest)).resolves.toBeInstanceOf(Envelope);
+    } finally {
+      globalThis.fetch = globalFetch;
+    }
+
+    // A signal as older runtimes implement it, without throwIfAborted() and reason
+    const signal = { aborted: true, addEventListener: () => {}, removeEventListener: () => {} } as unknown as AbortSignal;
+    const fetchMock = jest.fn();
+    await expect(new AgentClient({ fetch: fetchMock }).send(envelope, manifest, { signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('calls the global fetch with globalThis as its receiver', async () => {
+    const globalFetch = globalThis.fetch;
+    let receiver: unknown;
+    globalThis.fetch = function (this: unknown) {
+      receiver = this;
+      return Promise.resolve(reply(200, responseBody));
+    } as typeof fetch;
+    try {
+      await expect(new AgentClient().send(envelope, manifest)).resolves.toBeInstanceOf(Envelope);
+    } finally {
+      globalThis.fetch = globalFetch;
+    }
+    expect(receiver).toBe(globalThis);
+  });
+
+  it('rejects responses that are not valid payloads', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(reply(200, 'not json'));
+    await expect(new AgentClient({ fetch: fetchMock }).send(envelope, manifest)).rejects.toThrow(/Failed to parse JSON payload/);
+  });
+});
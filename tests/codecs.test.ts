@@ -0,0 +1,172 @@
+import {
+  identificationCodec,
+  conversationCodec,
+  manifestCodec,
+  envelopeCodec
+} from '../src/codecs';
+import { Identification, Conversant, Conversation, Manifest, Envelope, Payload } from '../src/envelope';
+
+/**
+ * Deterministic random source, so failures can be reproduced from the seed
+ */
+function random(seed: number) {
+  let state = seed;
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const bool = () => next() < 0.5;
+  const pick = <T>(items: readonly T[]): T => items[int(items.length)]!;
+  const word = () => Array.from({ length: 1 + int(8) }, () => pick('abcdefghijklmnopqrstuvwxyz0123456789'.split(''))).join('');
+  const list = <T>(max: number, item: () => T): T[] => Array.from({ length: int(max + 1) }, item);
+  return { int, bool, pick, word, list };
+}
+
+type Random = ReturnType<typeof random>;
+
+/**
+ * Generators of serialized objects, with properties in the order toObject() writes them
+ */
+function generators(r: Random, withExtensions: boolean) {
+  const json = (depth = 0): unknown => {
+    switch (r.int(depth > 1 ? 4 : 6)) {
+      case 0: return r.int(1000);
+      case 1: return r.word();
+      case 2: return r.bool();
+      case 3: return null;
+      case 4: return r.list(3, () => json(depth + 1));
+      default: return Object.fromEntries(r.list(3, () => [r.word(), json(depth + 1)]));
+    }
+  };
+  const extend = (data: Record<string, unknown>): Record<string, unknown> => {
+    if (withExtensions) {
+      for (const key of r.list(2, () => `x-${r.word()}`)) data[key] = json();
+    }
+    return data;
+  };
+  const speakerUri = () => `tag:example.com,2025:${r.word()}`;
+  const serviceUrl = () => `https://example.com/${r.word()}`;
+
+  const identification = () => extend({
+    speakerUri: speakerUri(),
+    serviceUrl: serviceUrl(),
+    organization: r.word(),
+    conversationalName: r.word(),
+    ...(r.bool() ? { department: r.word() } : {}),
+    ...(r.bool() ? { role: r.word() } : {}),
+    synopsis: r.word()
+  });
+  const conversant = () => extend({
+    identification: identification(),
+    ...(r.bool() ? { persistentState: { [r.word()]: json() } } : {})
+  });
+  const conversation = () => {
+    const conversants = r.list(3, conversant);
+    return extend({ id: r.word(), ...(conversants.length > 0 ? { conversants } : {}) });
+  };
+  const to = () => {
+    const speaker = r.bool();
+    return extend({
+      ...(speaker ? { speakerUri: speakerUri() } : {}),
+      ...(!speaker || r.bool() ? { serviceUrl: serviceUrl() } : {}),
+      ...(r.bool() ? { private: true } : {})
+    });
+  };
+  const event = () => {
+    const eventType = r.pick(['invite', 'uninvite', 'declineInvite', 'bye', 'requestFloor', 'grantFloor', 'revokeFloor', 'yieldFloor', 'getManifests', 'x-vendor']);
+    const parameters = eventType === 'getManifests'
+      ? { recommendScope: r.pick(['internal', 'external']) }
+      : eventType === 'x-vendor' ? { [r.word()]: json() } : undefined;
+    return extend({
+      eventType,
+      ...(r.bool() ? { to: to() } : {}),
+      ...(r.bool() ? { reason: r.word() } : {}),
+      ...(parameters ? { parameters } : {})
+    });
+  };
+  const envelope = () => extend({
+    schema: extend({ version: '1.0.0', ...(r.bool() ? { url: serviceUrl() } : {}) }),
+    conversation: conversation(),
+    sender: extend({ speakerUri: speakerUri(), ...(r.bool() ? { serviceUrl: serviceUrl() } : {}) }),
+    events: r.list(4, event)
+  });
+  const manifest = () => ({
+    identification: identification(),
+    capabilities: r.list(2, () => ({
+      keyphrases: [r.word(), ...r.list(2, r.word)],
+      descriptions: [r.word()],
+      supportedLayers: { input: ['text'], output: r.bool() ? ['text'] : ['text', 'ssml'] },
+      ...(r.bool() ? { languages: ['en-US'] } : {})
+    }))
+  });
+
+  return { identification, conversation, envelope, manifest };
+}
+
+const RUNS = 200;
+
+describe('OFP Codecs', () => {
+  it('round-trips serialized objects through fromObject and toObject', () => {
+    for (let seed = 0; seed < RUNS; seed++) {
+      const g = generators(random(seed), false);
+
+      const manifest = g.manifest();
+      expect(Manifest.fromObject(manifest).toObject()).toEqual(manifest);
+
+      const conversation = g.conversation();
+      expect(Conversation.fromObject(conversation).toObject()).toEqual(conversation);
+
+      const envelope = { ...g.envelope(), events: [] };
+      expect(JSON.stringify(Envelope.fromObject(envelope).toObject())).toBe(JSON.stringify(envelope));
+    }
+  });
+
+  it('round-trips unknown properties and event types when they are preserved', () => {
+    for (let seed = 0; seed < RUNS; seed++) {
+      const g = generators(random(seed), true);
+      const openFloor = g.envelope();
+      const json = JSON.stringify({ openFloor });
+      expect(Payload.fromJSON(json, { preserveUnknown: true }).toJSON()).toBe(json);
+    }
+  });
+
+  it('encodes instances into options that construct equal instances', () => {
+    for (let seed = 0; seed < RUNS; seed++) {
+      const g = generators(random(seed), true);
+
+      const envelope = Envelope.fromObject(g.envelope(), { preserveUnknown: true });
+      expect(new Envelope(envelopeCodec.encode(envelope), { preserveUnknown: true }).toObject()).toEqual(envelope.toObject());
+
+      const manifest = Manifest.fromObject(g.manifest());
+      expect(new Manifest(manifestCodec.encode(manifest)).toObject()).toEqual(manifest.toObject());
+    }
+  });
+
+  it('reports a missing identification field the same way on every path', () => {
+    const { synopsis: _synopsis, ...identification } = generators(random(1), false).identification();
+    const message = 'Identification requires speakerUri, serviceUrl, organization, conversationalName, and synopsis';
+
+    expect(() => Identification.fromObject(identification)).toThrow(message);
+    expect(() => Conversant.fromObject({ identification })).toThrow(message);
+    expect(() => Conversation.fromObject({ id: 'conv-1', conversants: [{ identification }] })).toThrow(message);
+    expect(() => Manifest.fromObject({ identification, capabilities: [] })).toThrow(message);
+    expect(() => identificationCodec.decode(identification)).toThrow(message);
+  });
+
+  it('skips malformed array entries when parsing is not strict', () => {
+    const g = generators(random(7), false);
+    const valid = g.conversation();
+    const conversants = [{ identification: { speakerUri: 'tag:example.com,2025:partial' } }, ...(valid.conversants as unknown[] ?? [])];
+
+    expect(() => conversationCodec.decode({ ...valid, conversants })).toThrow();
+    expect(conversationCodec.decode({ ...valid, conversants }, { strict: false }).conversants)
+      .toHaveLength(conversants.length - 1);
+
+    const envelope = { ...g.envelope(), events: [{ eventType: 'x-unknown' }, { eventType: 'bye' }] };
+    expect(() => Envelope.fromObject(envelope)).toThrow('Invalid eventType');
+    expect(Envelope.fromObject(envelope, { strict: false }).events.map(event => event.eventType)).toEqual(['bye']);
+  });
+});
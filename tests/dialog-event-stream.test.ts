@@ -0,0 +1,113 @@
+import { DialogEventProducer, DialogEventAccumulator } from '../src/dialog-event-stream';
+import { AudioFeature } from '../src/dialog-event';
+import { UtteranceEvent } from '../src/events';
+import { Envelope } from '../src/envelope';
+import { DialogEventDelta } from '../src/types';
+import { validateDialogEvent } from '../src/validation';
+
+const speakerUri = 'tag:example.com,2025:user';
+const startTime = new Date('2025-01-01T00:00:00Z');
+
+const text = (accumulator: DialogEventAccumulator) =>
+  accumulator.snapshot().features.get('text')?.tokens.map(token => token.value).join(' ');
+
+/**
+ * A recognizer that revises its hypothesis, then adds alternates and a semantic feature
+ */
+function recognize(onDelta: (delta: DialogEventDelta) => void): DialogEventProducer {
+  const producer = new DialogEventProducer({ id: 'de-1', speakerUri, span: { startTime }, onDelta });
+  producer.appendTokens('text', [{ value: 'book' }, { value: 'a' }], { lang: 'en-US' });
+  producer.appendTokens('text', [{ value: 'tabel' }]);
+  producer.reviseTokens('text', 2, [{ value: 'table', confidence: 0.9 }, { value: 'for', confidence: 0.8 }, { value: 'two', confidence: 0.95 }]);
+  producer.reviseAlternates('text', [[{ value: 'book a cable for two' }]]);
+  producer.appendTokens('intent', [{ value: 'bookTable', links: ['$.text.tokens[2]'] }], { mimeType: 'application/json' });
+  producer.finish({ endTime: new Date('2025-01-01T00:00:02.500Z') });
+  return producer;
+}
+
+describe('OFP Dialog Event Streaming', () => {
+  it('accumulates deltas into interim and final dialog events', () => {
+    const accumulator = new DialogEventAccumulator();
+    const interim: Array<string | undefined> = [];
+    const producer = recognize(delta => {
+      accumulator.push(delta);
+      interim.push(text(accumulator));
+    });
+
+    expect(interim).toEqual(['book a', 'book a tabel', 'book a table for two', 'book a table for two', 'book a table for two', 'book a table for two']);
+    expect(accumulator.done).toBe(true);
+    const result = accumulator.result();
+    expect(result.toObject()).toEqual(producer.snapshot().toObject());
+    expect(result.id).toBe('de-1');
+    expect(result.span.endTime).toEqual(new Date('2025-01-01T00:00:02.500Z'));
+    expect(result.features.get('text')?.lang).toBe('en-US');
+    expect(result.features.get('text')?.alternates[0]?.[0]?.value).toBe('book a cable for two');
+    expect(result.getLinkGraph().linkedTo(result.features.get('intent')!.tokens[0]!)[0]?.token.value).toBe('table');
+    expect(validateDialogEvent(result.toObject()).valid).toBe(true);
+  });
+
+  it('round-trips the final dialog event through an utterance', () => {
+    const deltas: DialogEventDelta[] = [];
+    recognize(delta => deltas.push(delta));
+
+    // Deltas travel as JSON, out of order and with a repeat
+    const accumulator = new DialogEventAccumulator('de-1');
+    for (const delta of [deltas[1], deltas[0], deltas[3], deltas[0], deltas[2], deltas[5], deltas[4]]) {
+      accumulator.push(JSON.parse(JSON.stringify(delta)));
+    }
+    const dialogEvent = accumulator.result().toObject();
+
+    const utterance = new UtteranceEvent({ dialogEvent: dialogEvent as any });
+    const envelope = Envelope.fromObject({
+      schema: { version: '1.0.0' },
+      conversation: { id: 'conv-1' },
+      sender: { speakerUri },
+      events: [utterance.toObject()]
+    });
+    expect((envelope.events[0] as UtteranceEvent).dialogEvent.toObject()).toEqual(dialogEvent);
+  });
+
+  it('snapshots SSML that is not well-formed until the final delta', () => {
+    const accumulator = new DialogEventAccumulator();
+    const producer = new DialogEventProducer({ speakerUri, span: { startTime }, onDelta: delta => accumulator.push(delta) });
+    producer.appendTokens('ssml', [{ value: '<speak>Your table' }], { mimeType: 'application/ssml+xml' });
+    expect(accumulator.snapshot().getBestText()).toBe('Your table');
+
+    producer.reviseTokens('ssml', 0, [{ value: '<speak>Your table is booked</speak>' }]);
+    producer.finish();
+    expect(accumulator.result().getBestText()).toBe('Your table is booked');
+  });
+
+  it('checks deltas with the same rules as the snapshot', () => {
+    const accumulator = new DialogEventAccumulator();
+    const producer = new DialogEventProducer({ speakerUri, span: { startTime }, onDelta: delta => accumulator.push(delta) });
+    producer.appendTokens('audio', [{ valueUrl: '/clips/1.wav' }], { mimeType: 'audio/wav' });
+    producer.appendTokens('audio', [{ valueUrl: '/clips/2.wav' }]);
+
+    const audio = accumulator.snapshot().features.get('audio');
+    expect(audio).toBeInstanceOf(AudioFeature);
+    expect((audio as AudioFeature).urls).toEqual(['/clips/1.wav', '/clips/2.wav']);
+  });
+
+  it('waits for missing deltas and rejects deltas it cannot apply', () => {
+    const deltas: DialogEventDelta[] = [];
+    const producer = recognize(delta => deltas.push(delta));
+
+    const accumulator = new DialogEventAccumulator();
+    accumulator.push(deltas[1]!);
+    expect(accumulator.started).toBe(false);
+    expect(() => accumulator.snapshot()).toThrow('No delta');
+    accumulator.push(deltas[0]!);
+    expect(text(accumulator)).toBe('book a tabel');
+    expect(() => accumulator.result()).toThrow('still being produced');
+
+    expect(() => accumulator.push({ ...deltas[2]!, id: 'de-2' })).toThrow('pushed to the accumulator of de-1');
+    expect(() => accumulator.push({ id: 'de-1', sequence: 2, features: { text: { tokens: [], replaceFrom: 7 } } })).toThrow('cannot replace from 7');
+    expect(() => accumulator.push({ id: 'de-1', sequence: 2, features: { sentiment: { tokens: [{ value: 'neutral' }] } } })).toThrow('requires mimeType');
+    expect(() => accumulator.push({ id: 'de-1', sequence: 2, features: { text: { tokens: [{ value: 'x', confidence: 2 }] } } })).toThrow();
+    expect(text(accumulator)).toBe('book a tabel');
+
+    expect(() => new DialogEventAccumulator().push({ id: 'de-3', sequence: 0 })).toThrow('requires speakerUri');
+    expect(() => producer.appendTokens('text', [{ value: 'please' }])).toThrow('already final');
+  });
+});
@@ -1,7 +1,24 @@
 import { validateDialogEvent } from '../src/validation';
-import { DialogEvent } from '../src/dialog-event';
+import { DialogEvent, Span } from '../src/dialog-event';
 
 describe('OFP Dialog Event Validation', () => {
+  it('round-trips span offsets with millisecond precision', () => {
+    const span = Span.fromObject(new Span({ startOffset: 1500, endOffset: 90061250 }).toObject());
+    expect(span.toObject()).toEqual({ startOffset: 'PT1.5S', endOffset: 'P1DT1H1M1.25S' });
+    expect(span.startOffset).toBe(1500);
+    expect(span.endOffset).toBe(90061250);
+  });
+
+  it('requires an id and a span', () => {
+    const features = { text: { mimeType: 'text/plain', tokens: [{ value: 'Hi' }] } };
+    const speakerUri = 'tag:example.com,2025:user-1';
+
+    expect(() => new DialogEvent({ speakerUri, span: {}, features })).toThrow('DialogEvent.id is required');
+    expect(() => new DialogEvent({ id: 'de-1', speakerUri, features })).toThrow('DialogEvent.span is required');
+    expect(() => DialogEvent.fromObject({ speakerUri, span: { startTime: '2025-01-01T00:00:00Z' }, features })).toThrow('DialogEvent.id is required');
+    expect(() => DialogEvent.fromObject({ id: 'de-1', speakerUri, features })).toThrow('DialogEvent.span is required');
+  });
+
   it('validates a minimal valid dialog event (text feature)', () => {
     const dialogEventOptions = {
       id: 'de-1',
@@ -0,0 +1,94 @@
+import { EnvelopeBuilder } from '../src/envelope-builder';
+import { Envelope, Manifest } from '../src/envelope';
+import { DialogEvent } from '../src/dialog-event';
+import { UtteranceEvent, GrantFloorEvent, InviteEvent } from '../src/events';
+import { validateEnvelope } from '../src/validation';
+
+const manifest = new Manifest({
+  identification: {
+    speakerUri: 'tag:example.com,2025:agent',
+    serviceUrl: 'https://example.com/agent',
+    organization: 'ExampleOrg',
+    conversationalName: 'Agent',
+    synopsis: 'Builder test agent'
+  },
+  capabilities: []
+});
+
+const inEnvelope = Envelope.fromObject({
+  schema: { version: '1.0.0', url: 'https://example.com/schema' },
+  conversation: {
+    id: 'conv-1',
+    conversants: [
+      {
+        identification: {
+          speakerUri: 'tag:example.com,2025:user',
+          serviceUrl: 'https://example.com/user',
+          organization: 'ExampleOrg',
+          conversationalName: 'User',
+          synopsis: 'A user'
+        },
+        persistentState: { visits: 3 }
+      }
+    ]
+  },
+  sender: { speakerUri: 'tag:example.com,2025:user' },
+  events: [{ eventType: 'invite' }]
+});
+
+describe('OFP EnvelopeBuilder', () => {
+  it('builds a reply in the conversation of the inbound envelope', () => {
+    const reply = EnvelopeBuilder.replyTo(inEnvelope)
+      .from(manifest)
+      .utter('Let me hand you over')
+      .grantFloor('tag:example.com,2025:billing')
+      .privateTo('tag:example.com,2025:billing')
+      .build();
+
+    expect(reply.schema.toObject()).toEqual(inEnvelope.schema.toObject());
+    expect(reply.conversation.toObject()).toEqual(inEnvelope.conversation.toObject());
+    expect(reply.sender.toObject()).toEqual({ speakerUri: 'tag:example.com,2025:agent', serviceUrl: 'https://example.com/agent' });
+
+    const [utterance, grant] = reply.events;
+    expect(utterance).toBeInstanceOf(UtteranceEvent);
+    expect((utterance as UtteranceEvent).dialogEvent.speakerUri).toBe('tag:example.com,2025:agent');
+    expect((utterance as UtteranceEvent).dialogEvent.features.get('text')?.tokens[0]?.value).toBe('Let me hand you over');
+    expect(grant).toBeInstanceOf(GrantFloorEvent);
+    expect(grant?.to?.toObject()).toEqual({ speakerUri: 'tag:example.com,2025:billing', private: true });
+    expect(validateEnvelope({ openFloor: reply.toObject() }).valid).toBe(true);
+  });
+
+  it('accepts event instances and dialog events', () => {
+    const dialogEvent = new DialogEvent({
+      id: 'de-1',
+      speakerUri: 'tag:example.com,2025:agent',
+      span: { startTime: new Date('2025-01-01T00:00:00Z') },
+      features: { text: { mimeType: 'text/plain', tokens: [{ value: 'Hello' }] } }
+    });
+    const invite = new InviteEvent({ to: { serviceUrl: 'https://example.com/other' }, reason: 'billing' });
+
+    const envelope = new EnvelopeBuilder()
+      .conversation('conv-2')
+      .from({ speakerUri: 'tag:example.com,2025:agent' })
+      .event(invite)
+      .utter(dialogEvent, 'tag:example.com,2025:user')
+      .build();
+
+    expect(envelope.conversation.id).toBe('conv-2');
+    expect(envelope.schema.version).toBe('1.0.0');
+    expect(envelope.events[0]).toBeInstanceOf(InviteEvent);
+    expect(envelope.events[0]?.toObject()).toEqual(invite.toObject());
+    expect((envelope.events[1] as UtteranceEvent).dialogEvent.toObject()).toEqual(dialogEvent.toObject());
+    expect(envelope.events[1]?.to?.speakerUri).toBe('tag:example.com,2025:user');
+  });
+
+  it('reports missing senders, misplaced calls and invalid envelopes', () => {
+    expect(() => new EnvelopeBuilder().utter('Hello')).toThrow('from() must be called before utter()');
+    expect(() => new EnvelopeBuilder().privateTo('tag:example.com,2025:user')).toThrow('requires a preceding event');
+    expect(() => new EnvelopeBuilder().build()).toThrow('requires a sender');
+
+    const invalid = new EnvelopeBuilder().schema(1 as any).from(manifest).bye();
+    expect(() => invalid.build()).toThrow('Envelope failed schema validation');
+    expect(invalid.build({ validate: false }).events[0]?.eventType).toBe('bye');
+  });
+});
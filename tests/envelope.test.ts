@@ -1,8 +1,16 @@
 import { Envelope } from '../src/envelope';
 import { validateEnvelope } from '../src/validation';
 import { EventType } from '../src/types';
-import { Identification, Manifest, Capability } from '../src/envelope';
+import { Identification, Manifest, Capability, ExtensionEvent, Payload } from '../src/envelope';
 import { DialogEvent } from '../src/dialog-event';
+import {
+  UtteranceEvent,
+  ContextEvent,
+  InviteEvent,
+  GetManifestsEvent,
+  PublishManifestsEvent,
+  isUtteranceEvent
+} from '../src/events';
 
 describe('OFP Envelope Creation and Validation', () => {
   const schema = { version: '1.0.0' };
@@ -129,3 +137,166 @@ describe('OFP Envelope Creation and Validation', () => {
     expect(result.valid).toBe(true);
   });
 });
+
+describe('OFP Envelope Event Hydration', () => {
+  const openFloor = {
+    schema: { version: '1.0.0' },
+    conversation: { id: 'conv-1' },
+    sender: { speakerUri: 'tag:example.com,2025:user-1' },
+    events: [
+      {
+        eventType: 'utterance',
+        to: { speakerUri: 'tag:example.com,2025:agent-1' },
+        parameters: {
+          dialogEvent: {
+            id: 'de-1',
+            speakerUri: 'tag:example.com,2025:user-1',
+            span: { startTime: '2025-01-01T00:00:00.000Z' },
+            features: {
+              text: { mimeType: 'text/plain', tokens: [{ value: 'Hello', span: { startOffset: 'PT1S' } }] }
+            }
+          }
+        }
+      },
+      { eventType: 'context', parameters: { dialogHistory: [], sessionId: 'abc' } },
+      { eventType: 'invite', to: { speakerUri: 'tag:example.com,2025:agent-1' } },
+      { eventType: 'getManifests', parameters: { recommendScope: 'external' } },
+      {
+        eventType: 'publishManifests',
+        parameters: {
+          servicingManifests: [{
+            identification: {
+              speakerUri: 'tag:example.com,2025:agent-1',
+              serviceUrl: 'https://agent1.example.com',
+              organization: 'ExampleOrg',
+              conversationalName: 'Agent1',
+              synopsis: 'Test agent'
+            },
+            capabilities: [{ keyphrases: ['test'], descriptions: ['Test capability.'] }]
+          }]
+        }
+      }
+    ]
+  };
+
+  it('hydrates typed event subclasses when parsing a payload', () => {
+    const payload = Payload.fromJSON(JSON.stringify({ openFloor }));
+    const [utterance, context, invite, getManifests, publish] = payload.openFloor.events;
+
+    expect(utterance).toBeInstanceOf(UtteranceEvent);
+    expect((utterance as UtteranceEvent).dialogEvent).toBeInstanceOf(DialogEvent);
+    expect((utterance as UtteranceEvent).dialogEvent.features.get('text')?.tokens[0]?.value).toBe('Hello');
+    expect((utterance as UtteranceEvent).dialogEvent.features.get('text')?.tokens[0]?.span?.startOffset).toBe(1000);
+    expect(utterance?.to?.speakerUri).toBe('tag:example.com,2025:agent-1');
+
+    expect(context).toBeInstanceOf(ContextEvent);
+    expect(context?.parameters.sessionId).toBe('abc');
+    expect(invite).toBeInstanceOf(InviteEvent);
+    expect(getManifests).toBeInstanceOf(GetManifestsEvent);
+    expect((getManifests as GetManifestsEvent).recommendScope).toBe('external');
+    expect(publish).toBeInstanceOf(PublishManifestsEvent);
+    expect((publish as PublishManifestsEvent).servicingManifests[0]).toBeInstanceOf(Manifest);
+  });
+
+  it('hydrates typed event subclasses in the Envelope constructor and fromObject', () => {
+    const fromObject = Envelope.fromObject(openFloor);
+    const constructed = new Envelope(openFloor as any);
+    expect(fromObject.events[0]).toBeInstanceOf(UtteranceEvent);
+    expect(constructed.events[0]).toBeInstanceOf(UtteranceEvent);
+    expect(validateEnvelope({ openFloor: fromObject.toObject() }).valid).toBe(true);
+  });
+
+  it('rejects events of known types whose parameters cannot be hydrated', () => {
+    const events = [
+      { eventType: 'utterance' as EventType, parameters: {} },
+      { eventType: 'utterance' as EventType, parameters: { dialogEvent: { speakerUri: 'tag:example.com,2025:user-1' } } },
+      { eventType: 'bye' as EventType }
+    ];
+    const options = { schema: openFloor.schema, conversation: openFloor.conversation, sender: openFloor.sender, events };
+
+    expect(() => new Envelope(options)).toThrow();
+    expect(() => Payload.fromJSON(JSON.stringify({ openFloor: { ...openFloor, events } }))).toThrow();
+
+    const lenient = new Envelope(options, { strict: false });
+    expect(lenient.events.map(event => event.eventType)).toEqual(['bye']);
+    expect(Envelope.fromObject({ ...openFloor, events }, { strict: false }).events.filter(isUtteranceEvent)).toEqual([]);
+  });
+});
+
+describe('OFP Unknown and Extension Fields', () => {
+  const openFloor = {
+    schema: { version: '1.0.0', 'x-schema': 1 },
+    conversation: {
+      id: 'conv-1',
+      conversants: [
+        {
+          identification: {
+            speakerUri: 'tag:example.com,2025:agent-1',
+            serviceUrl: 'https://example.com/agent-1',
+            organization: 'Example',
+            conversationalName: 'Agent One',
+            synopsis: 'An example agent',
+            'x-identification': { tier: 'gold' }
+          },
+          persistentState: { visits: 2 },
+          'x-conversant': true
+        }
+      ],
+      'x-conversation': 'c'
+    },
+    sender: { speakerUri: 'tag:example.com,2025:user-1', 'x-sender': ['a', 'b'] },
+    events: [
+      {
+        eventType: 'invite',
+        to: { speakerUri: 'tag:example.com,2025:agent-1', 'x-to': null },
+        'x-event': 'e'
+      },
+      { eventType: 'x-vendor-ping', reason: 'keepalive', parameters: { sequence: 7 } }
+    ],
+    'x-envelope': { trace: 'abc' }
+  };
+  const json = JSON.stringify({ openFloor });
+
+  it('round-trips unknown fields and event types when preserveUnknown is set', () => {
+    const payload = Payload.fromJSON(json, { preserveUnknown: true });
+    expect(payload.toJSON()).toBe(json);
+    expect(payload.openFloor.toPayload().toJSON()).toBe(json);
+  });
+
+  it('exposes the preserved fields as extensions', () => {
+    const envelope = Envelope.fromObject(openFloor, { preserveUnknown: true });
+    expect(envelope.extensions).toEqual({ 'x-envelope': { trace: 'abc' } });
+    expect(envelope.sender.extensions).toEqual({ 'x-sender': ['a', 'b'] });
+    expect(envelope.conversation.conversants[0]?.identification.extensions).toEqual({ 'x-identification': { tier: 'gold' } });
+    expect(envelope.events[0]).toBeInstanceOf(InviteEvent);
+    expect(envelope.events[0]?.extensions).toEqual({ 'x-event': 'e' });
+    expect(envelope.events[0]?.to?.extensions).toEqual({ 'x-to': null });
+    expect(envelope.events[1]).toBeInstanceOf(ExtensionEvent);
+    expect(envelope.events[1]?.eventType).toBe('x-vendor-ping');
+  });
+
+  it('drops unknown fields and rejects unknown event types by default', () => {
+    expect(() => Payload.fromJSON(json)).toThrow();
+
+    const known = { ...openFloor, events: openFloor.events.slice(0, 1) };
+    const envelope = Envelope.fromObject(known);
+    const serialized = JSON.stringify(envelope.toObject());
+    expect(serialized).not.toContain('x-');
+    expect(envelope.sender.extensions).toEqual({});
+  });
+
+  it('serializes extensions given to constructors after the defined properties', () => {
+    const envelope = new Envelope({
+      schema: { version: '1.0.0' },
+      conversation: { id: 'conv-1' },
+      sender: { speakerUri: 'tag:example.com,2025:user-1', extensions: { speakerUri: 'ignored', 'x-sender': 1 } },
+      events: [{ eventType: 'x-vendor-ping', extensions: { 'x-event': 2 } }]
+    });
+    expect(envelope.toObject()).toEqual({
+      schema: { version: '1.0.0' },
+      conversation: { id: 'conv-1' },
+      sender: { speakerUri: 'tag:example.com,2025:user-1', 'x-sender': 1 },
+      events: [{ eventType: 'x-vendor-ping', 'x-event': 2 }]
+    });
+  });
+});
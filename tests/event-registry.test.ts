@@ -0,0 +1,135 @@
+import Ajv2020 from 'ajv/dist/2020';
+import { eventTypeRegistry, EventTypeRegistry } from '../src/event-registry';
+import { Event, ExtensionEvent } from '../src/base-event';
+import { Envelope, Manifest, Payload } from '../src/envelope';
+import { createEvent } from '../src/events';
+import { validateEnvelope, validateEnvelopeEnhanced, EnhancedValidator } from '../src/validation';
+import { OpenFloorAgent } from '../src/agents';
+
+class HandoffSummaryEvent extends ExtensionEvent {
+  readonly summary: string;
+
+  constructor(options: { summary: string }) {
+    super({ eventType: 'handoffSummary', parameters: { summary: options.summary } });
+    this.summary = options.summary;
+  }
+
+  static fromObject(data: Record<string, unknown>): HandoffSummaryEvent {
+    const parameters = data.parameters as Record<string, unknown>;
+    if (typeof parameters?.summary !== 'string') {
+      throw new Error('HandoffSummaryEvent requires a summary');
+    }
+    return new HandoffSummaryEvent({ summary: parameters.summary });
+  }
+}
+
+declare module '../src/agents' {
+  interface AgentEventMap {
+    handoffSummary: HandoffSummaryEvent;
+  }
+}
+
+const openFloor = (events: Record<string, unknown>[]) => ({
+  schema: { version: '1.0.0' },
+  conversation: { id: 'conv-1' },
+  sender: { speakerUri: 'tag:example.com,2025:user-1' },
+  events
+});
+
+describe('OFP Custom Event Type Registry', () => {
+  beforeEach(() => {
+    eventTypeRegistry.register({
+      eventType: 'handoffSummary',
+      eventClass: HandoffSummaryEvent,
+      fromObject: HandoffSummaryEvent.fromObject,
+      parametersSchema: {
+        type: 'object',
+        required: ['summary'],
+        properties: { summary: { type: 'string', minLength: 1 } }
+      }
+    });
+  });
+
+  afterEach(() => {
+    eventTypeRegistry.unregister('handoffSummary');
+    EnhancedValidator.use(null);
+  });
+
+  it('rejects event types of the specification and duplicate registrations', () => {
+    const registry = new EventTypeRegistry();
+    const definition = { eventType: 'telemetry', eventClass: ExtensionEvent, fromObject: () => new ExtensionEvent({ eventType: 'telemetry' }) };
+    expect(() => registry.register({ ...definition, eventType: 'utterance' })).toThrow('defined by the specification');
+    registry.register(definition);
+    expect(() => registry.register(definition)).toThrow('already registered');
+    expect(registry.unregister('telemetry')).toBe(true);
+    expect(registry.has('telemetry')).toBe(false);
+  });
+
+  it('creates registered events from objects and envelopes', () => {
+    const data = { eventType: 'handoffSummary', parameters: { summary: 'Billing question' } };
+    const event = createEvent(data);
+    expect(event).toBeInstanceOf(HandoffSummaryEvent);
+    expect((event as HandoffSummaryEvent).summary).toBe('Billing question');
+
+    const envelope = Envelope.fromObject(openFloor([data]));
+    expect(envelope.events[0]).toBeInstanceOf(HandoffSummaryEvent);
+    expect(new Envelope(openFloor([data]) as any).events[0]).toBeInstanceOf(HandoffSummaryEvent);
+    expect(Payload.fromObject({ openFloor: openFloor([data]) }).toObject()).toEqual({ openFloor: openFloor([data]) });
+  });
+
+  it('accepts registered event types in the Event constructor only while registered', () => {
+    expect(new Event({ eventType: 'handoffSummary' } as any).eventType).toBe('handoffSummary');
+    eventTypeRegistry.unregister('handoffSummary');
+    expect(() => new Event({ eventType: 'handoffSummary' } as any)).toThrow('Invalid eventType');
+    expect(() => createEvent({ eventType: 'handoffSummary' })).toThrow('Unknown event type');
+  });
+
+  it('validates registered event types and their parameters', () => {
+    const valid = { openFloor: openFloor([{ eventType: 'handoffSummary', parameters: { summary: 'Billing question' } }]) };
+    const invalid = { openFloor: openFloor([{ eventType: 'handoffSummary', parameters: { summary: '' } }]) };
+
+    expect(validateEnvelope(valid).valid).toBe(true);
+    const result = validateEnvelope(invalid);
+    expect(result.valid).toBe(false);
+    expect(result.details).toContainEqual(expect.objectContaining({
+      pointer: '/openFloor/events/0/parameters/summary',
+      code: 'invalid_length'
+    }));
+
+    EnhancedValidator.use(new Ajv2020({ allErrors: true, strict: false, validateSchema: false }));
+    expect(validateEnvelopeEnhanced(valid).valid).toBe(true);
+    expect(validateEnvelopeEnhanced(invalid).valid).toBe(false);
+
+    eventTypeRegistry.unregister('handoffSummary');
+    expect(validateEnvelope(valid).valid).toBe(false);
+  });
+
+  it('dispatches registered events to agent handlers', async () => {
+    const manifest = new Manifest({
+      identification: {
+        speakerUri: 'tag:example.com,2025:agent',
+        serviceUrl: 'https://example.com/agent',
+        organization: 'ExampleOrg',
+        conversationalName: 'Agent',
+        synopsis: 'Registry test agent'
+      },
+      capabilities: []
+    });
+    class TestAgent extends OpenFloorAgent {}
+    const agent = new TestAgent(manifest.toObject() as any);
+    const summaries: string[] = [];
+    agent.on('handoffSummary', event => {
+      summaries.push(event.summary);
+    });
+
+    const events = [
+      { eventType: 'handoffSummary', parameters: { summary: 'Billing question' } },
+      { eventType: 'handoffSummary', parameters: {} }
+    ];
+    // The second event fails to hydrate, so it rejects the envelope unless parsing is lenient
+    expect(() => new Envelope({ ...openFloor([]), events } as any)).toThrow();
+    await agent.processEnvelope(new Envelope({ ...openFloor([]), events } as any, { strict: false }));
+
+    expect(summaries).toEqual(['Billing question']);
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  DialogEvent,
+  Feature,
+  TextFeature,
+  SsmlFeature,
+  HtmlFeature,
+  AudioFeature,
+  ImageFeature
+} from '../src/dialog-event';
+import { findSsmlError, markupToText } from '../src/utils';
+import { validateDialogEvent } from '../src/validation';
+
+const dialogEvent = (features: Record<string, unknown>) => new DialogEvent({
+  id: 'de-1',
+  speakerUri: 'tag:example.com,2025:agent',
+  span: { startTime: new Date('2025-01-01T00:00:00Z') },
+  features: features as any
+});
+
+describe('OFP Multimodal Features', () => {
+  it('checks that SSML is well-formed', () => {
+    expect(findSsmlError('<?xml version="1.0"?><speak version="1.1">Fish &amp; chips<break time="1s"/><!-- pause --></speak>')).toBeUndefined();
+    expect(findSsmlError('<speak>Hello')).toBe('unclosed element <speak>');
+    expect(findSsmlError('<speak><s>Hello</speak></s>')).toMatch('unexpected end tag </speak>');
+    expect(findSsmlError('<speak>Fish & chips</speak>')).toMatch('invalid entity reference');
+    expect(findSsmlError('<speak><prosody rate="slow" rate="fast">Hi</prosody></speak>')).toMatch('duplicate attribute "rate"');
+    expect(findSsmlError('<voice>Hello</voice>')).toBe('root element is <voice>, expected <speak>');
+    expect(findSsmlError('<speak/><speak/>')).toMatch('more than one root element');
+    expect(findSsmlError('Hello')).toMatch('text outside the root element');
+    expect(findSsmlError('')).toBe('no <speak> root element');
+
+    const ssml = new SsmlFeature({ values: ['<speak>Hello<break time="300ms"/>the <emphasis>whole</emphasis> world</speak>'] });
+    expect(ssml.mimeType).toBe('application/ssml+xml');
+    expect(ssml.text).toBe('Hello the whole world');
+    expect(() => new SsmlFeature({ values: ['<speak>Hello'] })).toThrow('SsmlFeature.tokens[0].value is not well-formed SSML: unclosed element <speak>');
+    expect(() => new SsmlFeature({ tokens: [{ value: 42 }] })).toThrow('not a string');
+  });
+
+  it('renders HTML as text', () => {
+    const html = new HtmlFeature({ values: ['<p>Your table for <b>two</b> is booked</p><p>See&nbsp;you &#x1F44B;</p><script>track()</script>'] });
+    expect(html.mimeType).toBe('text/html');
+    expect(html.text).toBe('Your table for two is booked See you \u{1F44B}');
+    expect(markupToText('<ul><li>One</li><li>Two</li></ul>')).toBe('One Two');
+  });
+
+  it('aligns audio clips and checks media types and URLs', () => {
+    const audio = new AudioFeature({
+      mimeType: 'audio/wav',
+      clips: [
+        { url: 'https://example.com/audio/1.wav', duration: 1500, confidence: 0.9 },
+        { url: 'https://example.com/audio/2.wav', duration: 800 },
+        { url: 'https://example.com/audio/3.wav', startOffset: 5000 }
+      ]
+    });
+    expect(audio.tokens.map(token => token.span?.toObject())).toEqual([
+      { startOffset: 'PT0S', endOffset: 'PT1.5S' },
+      { startOffset: 'PT1.5S', endOffset: 'PT2.3S' },
+      { startOffset: 'PT5S' }
+    ]);
+    expect(audio.duration).toBe(2300);
+    expect(audio.urls).toHaveLength(3);
+    expect(new AudioFeature({ mimeType: 'audio/ogg; codecs=opus', tokens: [{ value: 'inline' }] }).duration).toBeUndefined();
+
+    expect(() => new AudioFeature({ mimeType: 'video/mp4', clips: [] })).toThrow('AudioFeature.mimeType: expected an audio/* MIME type');
+    expect(() => new AudioFeature({ mimeType: 'audio/wav', clips: [{ url: 'not a url' }] })).toThrow('AudioFeature.tokens[0].valueUrl');
+
+    const image = new ImageFeature({ mimeType: 'image/png', urls: ['https://example.com/menu.png'] });
+    expect(image.urls).toEqual(['https://example.com/menu.png']);
+    expect(() => new ImageFeature({ mimeType: 'application/png', urls: [] })).toThrow('ImageFeature.mimeType');
+  });
+
+  it('hydrates features by MIME type and round-trips them', () => {
+    const event = dialogEvent({
+      text: { mimeType: 'text/plain', tokens: [{ value: 'Hello' }] },
+      ssml: new SsmlFeature({ values: ['<speak>Hello</speak>'] }).toObject(),
+      html: new HtmlFeature({ values: ['<p>Hello</p>'] }).toObject(),
+      audio: new AudioFeature({ mimeType: 'audio/mpeg', clips: [{ url: 'https://example.com/hello.mp3', duration: 1200 }] }).toObject(),
+      image: { mimeType: 'image/jpeg', tokens: [{ valueUrl: 'https://example.com/wave.jpg' }] },
+      intent: { mimeType: 'application/json', tokens: [{ value: 'greet' }] }
+    });
+
+    expect(event.features.get('text')).toBeInstanceOf(TextFeature);
+    expect(event.features.get('ssml')).toBeInstanceOf(SsmlFeature);
+    expect(event.features.get('html')).toBeInstanceOf(HtmlFeature);
+    expect(event.features.get('audio')).toBeInstanceOf(AudioFeature);
+    expect(event.features.get('image')).toBeInstanceOf(ImageFeature);
+    expect(event.features.get('intent')?.constructor).toBe(Feature);
+
+    const parsed = DialogEvent.fromObject(JSON.parse(event.toJSON()));
+    expect(parsed.toObject()).toEqual(event.toObject());
+    expect((parsed.features.get('audio') as AudioFeature).duration).toBe(1200);
+    expect(validateDialogEvent(parsed.toObject()).valid).toBe(true);
+
+    // Parsing keeps SSML fragments that a new SsmlFeature would reject
+    const fragment = DialogEvent.fromObject({ ...event.toObject(), features: { ssml: { mimeType: 'application/ssml+xml', tokens: [{ value: 'Hello <break/> there' }] } } });
+    expect(fragment.features.get('ssml')).toBeInstanceOf(SsmlFeature);
+    expect((fragment.features.get('ssml') as SsmlFeature).text).toBe('Hello there');
+    expect(() => new SsmlFeature({ values: ['Hello <break/> there'] })).toThrow('not well-formed SSML');
+    expect(new SsmlFeature({ values: ['Hello <break/> there'], validate: false }).toObject()).toEqual(fragment.features.get('ssml')?.toObject());
+
+    // Parsing also keeps media referenced by relative URLs
+    const relative = DialogEvent.fromObject({ ...event.toObject(), features: {
+      audio: { mimeType: 'audio/wav', tokens: [{ valueUrl: '/clips/hello.wav' }] },
+      image: { mimeType: 'image/png', tokens: [{ valueUrl: 'menu.png' }] }
+    } });
+    expect((relative.features.get('audio') as AudioFeature).urls).toEqual(['/clips/hello.wav']);
+    expect((relative.features.get('image') as ImageFeature).urls).toEqual(['menu.png']);
+    expect(() => new ImageFeature({ mimeType: 'image/png', urls: ['menu.png'] })).toThrow('ImageFeature.tokens[0].valueUrl');
+    expect(new ImageFeature({ mimeType: 'image/png', urls: ['menu.png'], validate: false }).urls).toEqual(['menu.png']);
+  });
+
+  it('picks the best text rendering', () => {
+    expect(dialogEvent({
+      html: { mimeType: 'text/html', tokens: [{ value: '<p>From HTML</p>' }] },
+      ssml: { mimeType: 'application/ssml+xml', tokens: [{ value: '<speak>From SSML</speak>' }] }
+    }).getBestText()).toBe('From SSML');
+
+    expect(dialogEvent({
+      transcript: { mimeType: 'text/plain', tokens: [{ value: 'From transcript' }] },
+      text: { mimeType: 'text/plain', tokens: [{ value: 'From' }, { value: 'text' }] },
+      ssml: { mimeType: 'application/ssml+xml', tokens: [{ value: '<speak>From SSML</speak>' }] }
+    }).getBestText()).toBe('From text');
+
+    expect(dialogEvent({
+      text: { mimeType: 'text/plain', tokens: [{ valueUrl: 'https://example.com/text.txt' }] },
+      html: { mimeType: 'text/html', tokens: [{ value: '<p>From HTML</p>' }] }
+    }).getBestText()).toBe('From HTML');
+
+    expect(dialogEvent({ image: { mimeType: 'image/png', tokens: [{ valueUrl: 'https://example.com/a.png' }] } }).getBestText()).toBeUndefined();
+  });
+
+  it('ranks, picks and promotes hypotheses', () => {
+    const feature = Feature.fromNBest([
+      { text: 'book a cable', confidence: 0.41 },
+      { tokens: [{ value: 'book' }, { value: 'a' }, { value: 'table', confidence: 0.8 }], confidence: 0.95 },
+      { text: 'look a table' },
+      { text: 'brook a table', confidence: 0.41 }
+    ], { lang: 'en-US' });
+
+    expect(feature).toBeInstanceOf(TextFeature);
+    expect(feature.lang).toBe('en-US');
+    expect(feature.tokens.map(token => token.confidence)).toEqual([0.95, 0.95, 0.8]);
+    expect(feature.getHypotheses().map(hypothesis => [hypothesis.alternate, hypothesis.text])).toEqual([
+      [undefined, 'book a table'],
+      [0, 'book a cable'],
+      [1, 'brook a table'],
+      [2, 'look a table']
+    ]);
+    expect(feature.getNBest(2).map(hypothesis => hypothesis.confidence)).toEqual([0.9, 0.41]);
+    expect(feature.getNBest().at(-1)).toMatchObject({ alternate: 2, text: 'look a table' });
+    expect(feature.getNBest().at(-1)).not.toHaveProperty('confidence');
+    expect(feature.getNBest(0)).toEqual([]);
+    expect(() => feature.getNBest(-1)).toThrow('non-negative integer');
+    expect(() => Feature.fromNBest([])).toThrow('at least one hypothesis');
+    expect(() => Feature.fromNBest([{ confidence: 0.5 }])).toThrow('hypotheses[0] requires text or tokens');
+
+    const promoted = feature.promoteAlternate(1);
+    expect(promoted).toBeInstanceOf(TextFeature);
+    expect(promoted).not.toBe(feature);
+    expect((promoted as TextFeature).text).toBe('brook a table');
+    expect(promoted.getHypotheses().map(hypothesis => hypothesis.text)).toEqual(['brook a table', 'book a table', 'book a cable', 'look a table']);
+    expect(promoted.lang).toBe('en-US');
+    expect(feature.tokens[2]?.value).toBe('table');
+    expect(() => feature.promoteAlternate(3)).toThrow('cannot promote alternate 3');
+
+    const ssml = new SsmlFeature({ values: ['<speak>Hello</speak>'], alternates: [[{ value: '<speak>Hi</speak>', confidence: 0.9 }]] });
+    expect(ssml.getNBest(1)[0]?.alternate).toBe(0);
+    expect(ssml.promoteAlternate(0)).toBeInstanceOf(SsmlFeature);
+  });
+});
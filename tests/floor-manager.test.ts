@@ -0,0 +1,230 @@
+import { FloorManager, FloorManagerOptions, EnvelopeTransport } from '../src/agents';
+import { Envelope, Manifest } from '../src/envelope';
+import { EventType } from '../src/types';
+import {
+  PriorityFloorPolicy,
+  RoundRobinFloorPolicy,
+  ConvenerApprovalFloorPolicy
+} from '../src/floor-policy';
+
+function manifestFor(name: string, role?: string): Manifest {
+  return new Manifest({
+    identification: {
+      speakerUri: `tag:example.com,2025:${name}`,
+      serviceUrl: `https://example.com/${name}`,
+      organization: 'ExampleOrg',
+      conversationalName: name,
+      synopsis: `${name} agent`,
+      ...(role !== undefined ? { role } : {})
+    },
+    capabilities: []
+  });
+}
+
+const fmManifest = manifestFor('fm');
+const user = manifestFor('user');
+const agentA = manifestFor('agent-a');
+const agentB = manifestFor('agent-b');
+
+function envelopeFrom(sender: Manifest, events: Array<Record<string, unknown>>): Envelope {
+  return new Envelope({
+    schema: { version: '1.0.0' },
+    conversation: { id: 'conv-1' },
+    sender: { speakerUri: sender.identification.speakerUri, serviceUrl: sender.identification.serviceUrl },
+    events: events as any
+  });
+}
+
+function newFloorManager(options: FloorManagerOptions = {}): FloorManager {
+  const fm = new FloorManager(fmManifest.toObject() as any, options);
+  fm.addConversant(user);
+  fm.addConversant(agentA);
+  fm.addConversant(agentB);
+  return fm;
+}
+
+describe('OFP FloorManager Routing', () => {
+  it('fans an envelope out to every conversant except the sender', () => {
+    const fm = newFloorManager();
+    const deliveries = fm.routeEnvelope(envelopeFrom(user, [{ eventType: 'bye' as EventType }]));
+
+    expect(deliveries.map(d => d.recipient.identification.speakerUri)).toEqual([
+      agentA.identification.speakerUri,
+      agentB.identification.speakerUri
+    ]);
+    for (const { envelope } of deliveries) {
+      expect(envelope.sender.speakerUri).toBe(user.identification.speakerUri);
+      expect(envelope.conversation.id).toBe('conv-1');
+      expect(envelope.events.map(e => e.eventType)).toEqual(['bye']);
+    }
+  });
+
+  it('delivers private events only to their addressee', () => {
+    const fm = newFloorManager();
+    const deliveries = fm.routeEnvelope(envelopeFrom(user, [
+      { eventType: 'invite', to: { speakerUri: agentA.identification.speakerUri, private: true } },
+      { eventType: 'requestFloor', to: { serviceUrl: agentB.identification.serviceUrl, private: true } },
+      { eventType: 'bye' }
+    ]));
+
+    const byRecipient = new Map(deliveries.map(d => [d.recipient.identification.speakerUri, d.envelope.events.map(e => e.eventType)]));
+    expect(byRecipient.get(agentA.identification.speakerUri)).toEqual(['invite', 'bye']);
+    expect(byRecipient.get(agentB.identification.speakerUri)).toEqual(['requestFloor', 'bye']);
+  });
+
+  it('skips conversants with no events to receive', () => {
+    const fm = newFloorManager();
+    const deliveries = fm.routeEnvelope(envelopeFrom(user, [
+      { eventType: 'invite', to: { speakerUri: agentA.identification.speakerUri, private: true } }
+    ]));
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]?.recipient).toBe(agentA);
+  });
+
+  it('forwards non-private targeted events to everyone', () => {
+    const fm = newFloorManager();
+    const deliveries = fm.routeEnvelope(envelopeFrom(agentA, [
+      { eventType: 'grantFloor', to: { speakerUri: agentB.identification.speakerUri } }
+    ]));
+    expect(deliveries.map(d => d.recipient)).toEqual([user, agentB]);
+  });
+
+  it('keeps extension events and fields in each delivery', () => {
+    const fm = newFloorManager();
+    const envelope = Envelope.fromObject({
+      ...envelopeFrom(user, [{ eventType: 'bye' }]).toObject(),
+      'x-env': 'staging',
+      events: [{ eventType: 'x-ping', 'x-trace': 'abc' }]
+    }, { preserveUnknown: true });
+
+    const deliveries = fm.routeEnvelope(envelope);
+    expect(deliveries).toHaveLength(2);
+    for (const { envelope: delivered } of deliveries) {
+      expect(delivered.toObject()).toEqual(envelope.toObject());
+    }
+  });
+
+  it('dispatches deliveries through the transport and collects responses and errors', async () => {
+    const reply = envelopeFrom(agentA, []);
+    const transport: EnvelopeTransport = {
+      send: jest.fn(async (_envelope: Envelope, target: Manifest) => {
+        if (target === agentB) throw new Error('unreachable');
+        return reply;
+      })
+    };
+    const fm = newFloorManager({ transport });
+    const results = await fm.dispatchEnvelope(envelopeFrom(user, [{ eventType: 'bye' }]));
+
+    expect(transport.send).toHaveBeenCalledTimes(2);
+    expect(results[0]?.recipient).toBe(agentA);
+    expect(results[0]?.response).toBe(reply);
+    expect(results[1]?.recipient).toBe(agentB);
+    expect((results[1]?.error as Error).message).toBe('unreachable');
+  });
+
+  it('requires a transport to dispatch', async () => {
+    await expect(newFloorManager().dispatchEnvelope(envelopeFrom(user, []))).rejects.toThrow(/requires a transport/);
+  });
+});
+
+describe('OFP FloorManager Floor Control', () => {
+  const uri = (manifest: Manifest) => manifest.identification.speakerUri;
+
+  async function send(fm: FloorManager, sender: Manifest, events: Array<Record<string, unknown>>): Promise<Array<[string, string | undefined, string | undefined]>> {
+    const response = await fm.processEnvelope(envelopeFrom(sender, events));
+    return response.events.map(e => [e.eventType, e.to?.speakerUri, e.reason]);
+  }
+
+  it('grants a free floor and queues later requests in arrival order', async () => {
+    const fm = newFloorManager();
+
+    expect(await send(fm, agentA, [{ eventType: 'requestFloor' }])).toEqual([['grantFloor', uri(agentA), undefined]]);
+    expect(await send(fm, agentB, [{ eventType: 'requestFloor' }])).toEqual([]);
+    expect(await send(fm, user, [{ eventType: 'requestFloor' }])).toEqual([]);
+    expect(fm.currentSpeaker).toBe(uri(agentA));
+    expect(fm.floorQueue.map(r => r.speakerUri)).toEqual([uri(agentB), uri(user)]);
+
+    expect(await send(fm, agentA, [{ eventType: 'yieldFloor', reason: '@complete' }])).toEqual([['grantFloor', uri(agentB), undefined]]);
+    expect(fm.floorQueue.map(r => r.speakerUri)).toEqual([uri(user)]);
+  });
+
+  it('ignores repeated requests and hands the floor on when the holder leaves', async () => {
+    const fm = newFloorManager();
+    await send(fm, agentA, [{ eventType: 'requestFloor' }]);
+    await send(fm, agentB, [{ eventType: 'requestFloor' }, { eventType: 'requestFloor' }]);
+    expect(await send(fm, agentA, [{ eventType: 'requestFloor' }])).toEqual([]);
+    expect(fm.floorQueue).toHaveLength(1);
+
+    expect(await send(fm, agentA, [{ eventType: 'bye' }])).toEqual([['grantFloor', uri(agentB), undefined]]);
+    expect(fm.activeConversants).not.toContain(uri(agentA));
+  });
+
+  it('serves the highest priority request first and overrides lower priority holders', async () => {
+    const supervisor = manifestFor('supervisor', 'supervisor');
+    const helper = manifestFor('helper', 'assistant');
+    const fm = newFloorManager({ policy: new PriorityFloorPolicy({ roles: { supervisor: 10, assistant: 1 }, preempt: true }) });
+    fm.addConversant(supervisor);
+    fm.addConversant(helper);
+
+    await send(fm, agentA, [{ eventType: 'requestFloor' }]);
+    await send(fm, agentB, [{ eventType: 'requestFloor' }]);
+    expect(await send(fm, helper, [{ eventType: 'requestFloor' }])).toEqual([
+      ['revokeFloor', uri(agentA), '@override'],
+      ['grantFloor', uri(helper), undefined]
+    ]);
+    expect(await send(fm, supervisor, [{ eventType: 'requestFloor' }])).toEqual([
+      ['revokeFloor', uri(helper), '@override'],
+      ['grantFloor', uri(supervisor), undefined]
+    ]);
+
+    await send(fm, user, [{ eventType: 'requestFloor' }]);
+    expect(await send(fm, supervisor, [{ eventType: 'yieldFloor' }])).toEqual([['grantFloor', uri(agentB), undefined]]);
+  });
+
+  it('queues instead of overriding when preemption is off', async () => {
+    const supervisor = manifestFor('supervisor', 'supervisor');
+    const fm = newFloorManager({ policy: new PriorityFloorPolicy({ roles: { supervisor: 10 } }) });
+    fm.addConversant(supervisor);
+
+    await send(fm, agentA, [{ eventType: 'requestFloor' }]);
+    await send(fm, agentB, [{ eventType: 'requestFloor' }]);
+    expect(await send(fm, supervisor, [{ eventType: 'requestFloor' }])).toEqual([]);
+    expect(await send(fm, agentA, [{ eventType: 'yieldFloor' }])).toEqual([['grantFloor', uri(supervisor), undefined]]);
+  });
+
+  it('rotates the floor in conversant order after the last holder', async () => {
+    const fm = newFloorManager({ policy: new RoundRobinFloorPolicy() });
+
+    await send(fm, agentA, [{ eventType: 'requestFloor' }]);
+    await send(fm, user, [{ eventType: 'requestFloor' }]);
+    await send(fm, agentB, [{ eventType: 'requestFloor' }]);
+
+    expect(await send(fm, agentA, [{ eventType: 'yieldFloor' }])).toEqual([['grantFloor', uri(agentB), undefined]]);
+    await send(fm, agentA, [{ eventType: 'requestFloor' }]);
+    expect(await send(fm, agentB, [{ eventType: 'yieldFloor' }])).toEqual([['grantFloor', uri(user), undefined]]);
+  });
+
+  it('holds requests until the convener grants the floor', async () => {
+    const convener = manifestFor('convener');
+    const fm = newFloorManager({ policy: new ConvenerApprovalFloorPolicy(uri(convener)) });
+    fm.addConversant(convener);
+
+    expect(await send(fm, agentA, [{ eventType: 'requestFloor' }])).toEqual([]);
+    expect(await send(fm, agentB, [{ eventType: 'requestFloor' }])).toEqual([]);
+    expect(fm.currentSpeaker).toBeNull();
+
+    expect(await send(fm, agentB, [{ eventType: 'grantFloor', to: { speakerUri: uri(agentB) } }])).toEqual([]);
+    expect(fm.currentSpeaker).toBeNull();
+
+    expect(await send(fm, convener, [{ eventType: 'grantFloor', to: { speakerUri: uri(agentA) } }])).toEqual([]);
+    expect(fm.currentSpeaker).toBe(uri(agentA));
+    expect(await send(fm, convener, [{ eventType: 'grantFloor', to: { speakerUri: uri(agentB) } }])).toEqual([
+      ['revokeFloor', uri(agentA), '@override']
+    ]);
+    expect(fm.currentSpeaker).toBe(uri(agentB));
+    expect(fm.floorQueue).toEqual([]);
+
+    expect(await send(fm, agentB, [{ eventType: 'yieldFloor' }])).toEqual([]);
+    expect(fm.currentSpeaker).toBeNull();
+  });
+});
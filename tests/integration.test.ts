@@ -59,7 +59,9 @@ describe('OFP Integration Flows', () => {
           eventType: 'utterance' as EventType,
           parameters: {
             dialogEvent: {
+              id: 'de-1',
               speakerUri: 'tag:example.com,2025:user-1',
+              span: { startTime: '2025-01-01T00:00:00Z' },
               features: { text: { mimeType: 'text/plain', tokens: [{ value: 'What is the weather?' }] } }
             }
           }
@@ -89,7 +91,9 @@ describe('OFP Integration Flows', () => {
           eventType: 'utterance' as EventType,
           parameters: {
             dialogEvent: {
+              id: 'de-2',
               speakerUri: 'tag:example.com,2025:agent-2',
+              span: { startTime: '2025-01-01T00:00:05Z' },
               features: { text: { mimeType: 'text/plain', tokens: [{ value: 'It is sunny.' }] } }
             }
           }
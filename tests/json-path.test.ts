@@ -0,0 +1,124 @@
+import { JsonPath, JsonPathError } from '../src/json-path';
+import { DialogEvent } from '../src/dialog-event';
+
+// Example document of RFC 9535, section 1.5
+const store = {
+  store: {
+    book: [
+      { category: 'reference', author: 'Nigel Rees', title: 'Sayings of the Century', price: 8.95 },
+      { category: 'fiction', author: 'Evelyn Waugh', title: 'Sword of Honour', price: 12.99 },
+      { category: 'fiction', author: 'Herman Melville', title: 'Moby Dick', isbn: '0-553-21311-3', price: 8.99 },
+      { category: 'fiction', author: 'J. R. R. Tolkien', title: 'The Lord of the Rings', isbn: '0-395-19395-8', price: 22.99 }
+    ],
+    bicycle: { color: 'red', price: 399 }
+  }
+};
+
+const query = (expression: string, data: unknown = store) => JsonPath.compile(expression).query(data);
+const titles = (expression: string) => (query(expression) as Array<{ title: string }>).map(book => book.title);
+
+describe('OFP JSONPath', () => {
+  it('selects members, indices, wildcards and descendants', () => {
+    expect(query('$.store.book[*].author')).toEqual(['Nigel Rees', 'Evelyn Waugh', 'Herman Melville', 'J. R. R. Tolkien']);
+    expect(query('$..author')).toHaveLength(4);
+    expect(query('$.store.*')).toEqual([store.store.book, store.store.bicycle]);
+    expect(query('$.store..price')).toEqual([8.95, 12.99, 8.99, 22.99, 399]);
+    expect(titles('$..book[2]')).toEqual(['Moby Dick']);
+    expect(titles('$..book[-1]')).toEqual(['The Lord of the Rings']);
+    expect(titles('$..book[0,1]')).toEqual(['Sayings of the Century', 'Sword of Honour']);
+    expect(query("$['store'][\"bicycle\"]['color']")).toEqual(['red']);
+    expect(query("$['a.b', 'c\\u0027d', '\\uD834\\uDD1E']", { 'a.b': 1, "c'd": 2, '\u{1D11E}': 3 })).toEqual([1, 2, 3]);
+    expect(query('$.missing')).toEqual([]);
+    expect(query('$[0]', { 0: 'not an array' })).toEqual([]);
+  });
+
+  it('selects array slices', () => {
+    const array = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+    expect(query('$[1:3]', array)).toEqual(['b', 'c']);
+    expect(query('$[5:]', array)).toEqual(['f', 'g']);
+    expect(query('$[1:5:2]', array)).toEqual(['b', 'd']);
+    expect(query('$[5:1:-2]', array)).toEqual(['f', 'd']);
+    expect(query('$[::-1]', array)).toEqual(['g', 'f', 'e', 'd', 'c', 'b', 'a']);
+    expect(query('$[-2:]', array)).toEqual(['f', 'g']);
+    expect(query('$[::0]', array)).toEqual([]);
+  });
+
+  it('filters with comparisons, logical operators and functions', () => {
+    expect(titles('$..book[?@.isbn]')).toEqual(['Moby Dick', 'The Lord of the Rings']);
+    expect(titles('$..book[?@.price < 10]')).toEqual(['Sayings of the Century', 'Moby Dick']);
+    expect(titles("$..book[?@.category == 'fiction' && !(@.price > 20)]")).toEqual(['Sword of Honour', 'Moby Dick']);
+    expect(titles('$..book[?@.price > $.store.bicycle.price || @.author == "Nigel Rees"]')).toEqual(['Sayings of the Century']);
+    expect(titles('$..book[?length(@.title) <= 9]')).toEqual(['Moby Dick']);
+    expect(titles('$..book[?match(@.author, "[A-Z].* Waugh")]')).toEqual(['Sword of Honour']);
+    expect(titles('$..book[?search(@.title, "of the")]')).toEqual(['Sayings of the Century', 'The Lord of the Rings']);
+    expect(query('$[?count(@.*) > 1]', [[1], [1, 2], { a: 1, b: 2 }])).toEqual([[1, 2], { a: 1, b: 2 }]);
+    expect(query('$[?value(@..id) == 2]', [{ id: 2 }, { a: { id: 2 } }, { id: 2, b: { id: 3 } }])).toEqual([{ id: 2 }, { a: { id: 2 } }]);
+    expect(query('$[?@.a == @.b]', [{ a: [1, { c: 2 }], b: [1, { c: 2 }] }, { a: 1 }, {}])).toEqual([{ a: [1, { c: 2 }], b: [1, { c: 2 }] }, {}]);
+  });
+
+  it('keeps the substring() extension of the Dialog Event specification', () => {
+    expect(query('$.store.book[0].title.substring(0,7)')).toEqual(['Sayings']);
+    expect(query('$..title.substring(0,4)')).toEqual(['Sayi', 'Swor', 'Moby', 'The ']);
+    expect(query('$.store.bicycle.price.substring(0,1)')).toEqual([]);
+  });
+
+  it('reports invalid expressions with their position', () => {
+    const invalid = [
+      'store.book',
+      '$.store.',
+      ' $.store',
+      '$.store ',
+      '$[01]',
+      '$[-0]',
+      '$[9007199254740992]',
+      "$['unterminated]",
+      '$[?@.a == @..b]',
+      '$[?length(@.*) > 1]',
+      '$[?true]',
+      '$[?count(@) == 1 == 2]',
+      '$[?unknown(@)]',
+      '$[?match(@.a)]',
+      '$.a.substring(0,1).b'
+    ];
+    for (const expression of invalid) {
+      expect(() => JsonPath.compile(expression)).toThrow(JsonPathError);
+    }
+
+    try {
+      JsonPath.compile('$.store[?@.a = 1]');
+      fail('expected a JsonPathError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(JsonPathError);
+      expect(error).toMatchObject({ expression: '$.store[?@.a = 1]', position: 13 });
+    }
+  });
+
+  it('compiles each expression once', () => {
+    JsonPath.clearCache();
+    const path = JsonPath.compile('$..book[?@.isbn]');
+    expect(JsonPath.compile('$..book[?@.isbn]')).toBe(path);
+    JsonPath.clearCache();
+    expect(JsonPath.compile('$..book[?@.isbn]')).not.toBe(path);
+  });
+
+  it('resolves token links and rejects invalid ones', () => {
+    const dialogEvent = new DialogEvent({
+      id: 'de-1',
+      speakerUri: 'tag:example.com,2025:user',
+      span: { startTime: new Date('2025-01-01T00:00:00Z') },
+      features: {
+        text: { mimeType: 'text/plain', tokens: [{ value: 'Pay my bill', confidence: 0.9 }, { value: 'please', confidence: 0.4 }] },
+        intent: { mimeType: 'application/json', tokens: [{ value: 'payBill', links: ['$.text.tokens[?@.confidence > 0.5].value.substring(4,11)'] }] }
+      }
+    });
+    const intent = dialogEvent.features.get('intent')!.tokens[0]!;
+    expect(intent.getLinkedValues(dialogEvent)).toEqual([['$.text.tokens[?@.confidence > 0.5].value.substring(4,11)', 'my bill']]);
+
+    const broken = new DialogEvent({
+      ...dialogEvent.toObject(),
+      span: { startTime: new Date('2025-01-01T00:00:00Z') },
+      features: { intent: { mimeType: 'application/json', tokens: [{ value: 'payBill', links: ['$.text.tokens[?'] }] } }
+    } as any);
+    expect(() => broken.features.get('intent')!.tokens[0]!.getLinkedValues(broken)).toThrow(JsonPathError);
+  });
+});
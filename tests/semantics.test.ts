@@ -0,0 +1,152 @@
+import { validateSemantics } from '../src/semantics';
+import { validateEnvelope } from '../src/validation';
+import { Envelope } from '../src/envelope';
+import { UtteranceEvent, ContextEvent, RevokeFloorEvent, UninviteEvent, ByeEvent } from '../src/events';
+import { DialogEvent } from '../src/dialog-event';
+
+describe('OFP Semantic Validation', () => {
+  const speakerUri = 'tag:example.com,2025:user-1';
+  const envelopeWith = (events: Record<string, unknown>[]) => ({
+    schema: { version: '1.0.0' },
+    conversation: { id: 'conv-1' },
+    sender: { speakerUri },
+    events
+  });
+  const dialogEvent = (overrides: Record<string, unknown> = {}) => ({
+    id: 'de-1',
+    speakerUri,
+    span: { startTime: '2025-01-01T00:00:00Z' },
+    features: { text: { mimeType: 'text/plain', tokens: [{ value: 'Hello' }] } },
+    ...overrides
+  });
+  const rulesOf = (result: ReturnType<typeof validateSemantics>) =>
+    [...result.errors, ...result.warnings].map(issue => issue.rule);
+
+  it('accepts envelopes built by the library', () => {
+    const envelope = new Envelope({
+      schema: { version: '1.0.0' },
+      conversation: { id: 'conv-1' },
+      sender: { speakerUri },
+      events: [
+        new UtteranceEvent({
+          dialogEvent: new DialogEvent({ id: 'de-1', speakerUri, span: { startTime: new Date() }, features: { text: { mimeType: 'text/plain', tokens: [{ value: 'Hi' }] } } }),
+          to: { speakerUri: 'tag:example.com,2025:bot', private: true }
+        }).toObject() as any,
+        new RevokeFloorEvent({ reason: '@timedOut' }).toObject() as any
+      ]
+    });
+
+    expect(validateSemantics(envelope)).toEqual({ valid: true, errors: [], warnings: [] });
+    expect(validateSemantics({ openFloor: envelope.toObject() }).valid).toBe(true);
+  });
+
+  it('requires private events to target a speakerUri', () => {
+    const result = validateSemantics(envelopeWith([
+      new ByeEvent({ to: { serviceUrl: 'https://example.com/bot', private: true } }).toObject()
+    ]));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([{
+      rule: 'private-speaker-uri',
+      severity: 'error',
+      pointer: '/openFloor/events/0/to',
+      message: 'private bye event must be addressed to a speakerUri'
+    }]);
+  });
+
+  it('warns about revokeFloor and uninvite reasons without a reason token', () => {
+    const result = validateSemantics(envelopeWith([
+      new RevokeFloorEvent({ reason: 'took too long' }).toObject(),
+      new UninviteEvent({ reason: '@complete: goodbye' }).toObject(),
+      new UninviteEvent({ reason: 'done' }).toObject()
+    ]));
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map(issue => issue.pointer)).toEqual(['/openFloor/events/0/reason', '/openFloor/events/2/reason']);
+    expect(rulesOf(result)).toEqual(['reason-token', 'reason-token']);
+  });
+
+  it('checks previousId against earlier dialog history entries', () => {
+    const context = new ContextEvent({
+      dialogHistory: [
+        dialogEvent({ id: 'de-1', previousId: 'de-2' }),
+        dialogEvent({ id: 'de-2', previousId: 'de-1' })
+      ] as any
+    }).toObject();
+
+    const result = validateSemantics(envelopeWith([context]));
+    expect(result.warnings).toEqual([expect.objectContaining({
+      rule: 'previous-id',
+      pointer: '/openFloor/events/0/parameters/dialogHistory/0/previousId'
+    })]);
+  });
+
+  it('reports token links that do not resolve', () => {
+    const features = {
+      text: { mimeType: 'text/plain', tokens: [{ value: 'Hello' }] },
+      'intent/v1': {
+        mimeType: 'application/json',
+        tokens: [{ value: 'greet', links: ['$.text.tokens[0].value', '$.text.tokens[3].value', '$.text.tokens['] }]
+      }
+    };
+
+    const result = validateSemantics(envelopeWith([
+      { eventType: 'utterance', parameters: { dialogEvent: dialogEvent({ features }) } }
+    ]));
+    expect(result.warnings.map(issue => issue.pointer)).toEqual([
+      '/openFloor/events/0/parameters/dialogEvent/features/intent~1v1/tokens/0/links/1',
+      '/openFloor/events/0/parameters/dialogEvent/features/intent~1v1/tokens/0/links/2'
+    ]);
+    expect(result.warnings[1]?.message).toMatch('is not a valid JSON Path');
+  });
+
+  it('reports pointers relative to the payload, like validateEnvelope', () => {
+    const features = {
+      text: { mimeType: 'text/plain', tokens: [{ confidence: 0.5, span: { startOffset: 'PT2S', endOffset: 'PT1S' } }] }
+    };
+    const payload = { openFloor: envelopeWith([{ eventType: 'utterance', parameters: { dialogEvent: dialogEvent({ features }) } }]) };
+    const token = '/openFloor/events/0/parameters/dialogEvent/features/text/tokens/0';
+
+    expect(validateEnvelope(payload).details?.map(detail => detail.pointer)).toContain(token);
+    expect(validateSemantics(payload).errors.map(issue => issue.pointer)).toEqual([`${token}/span`]);
+  });
+
+  it('reports spans that end before they start or mix times and offsets', () => {
+    const features = {
+      text: {
+        mimeType: 'text/plain',
+        tokens: [{ value: 'Hello', span: { startOffset: 'PT2S', endOffset: 'PT1S' } }]
+      }
+    };
+
+    const result = validateSemantics(envelopeWith([{
+      eventType: 'utterance',
+      parameters: {
+        dialogEvent: dialogEvent({ span: { startTime: '2025-01-01T00:00:10Z', endTime: '2025-01-01T00:00:00Z' }, features })
+      }
+    }, {
+      eventType: 'utterance',
+      parameters: { dialogEvent: dialogEvent({ span: { startTime: '2025-01-01T00:00:00Z', endOffset: 'PT1S' } }) }
+    }]));
+
+    expect(result.errors.map(issue => [issue.rule, issue.pointer])).toEqual([
+      ['span-order', '/openFloor/events/0/parameters/dialogEvent/span'],
+      ['span-order', '/openFloor/events/0/parameters/dialogEvent/features/text/tokens/0/span'],
+      ['span-units', '/openFloor/events/1/parameters/dialogEvent/span']
+    ]);
+  });
+
+  it('enables, disables and re-grades rules individually', () => {
+    const envelope = envelopeWith([
+      new RevokeFloorEvent({ reason: 'took too long' }).toObject(),
+      new ByeEvent({ to: { serviceUrl: 'https://example.com/bot', private: true } }).toObject()
+    ]);
+
+    const result = validateSemantics(envelope, {
+      rules: { 'private-speaker-uri': false, 'reason-token': 'error' }
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(issue => issue.rule)).toEqual(['reason-token']);
+    expect(result.warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createAgentRequestListener } from '../src/server';
+import { BotAgent } from '../src/agents';
+import { Envelope, Payload } from '../src/envelope';
+import { UtteranceEvent } from '../src/events';
+
+describe('OFP HTTP Server Adapter', () => {
+  const manifest = {
+    identification: {
+      speakerUri: 'tag:example.com,2025:bot-1',
+      serviceUrl: 'https://bot.example.com/openfloor',
+      organization: 'ExampleOrg',
+      conversationalName: 'Bot',
+      synopsis: 'Test bot'
+    },
+    capabilities: []
+  };
+
+  const utterancePayload = {
+    openFloor: {
+      schema: { version: '1.0.0' },
+      conversation: { id: 'conv-1' },
+      sender: { speakerUri: 'tag:example.com,2025:user-1' },
+      events: [{
+        eventType: 'utterance',
+        parameters: {
+          dialogEvent: {
+            id: 'de-1',
+            speakerUri: 'tag:example.com,2025:user-1',
+            span: { startTime: '2025-01-01T00:00:00.000Z' },
+            features: { text: { mimeType: 'text/plain', tokens: [{ value: 'Hello' }] } }
+          }
+        }
+      }]
+    }
+  };
+
+  let server: Server;
+  let baseUrl: string;
+  const errors: unknown[] = [];
+
+  class EchoBot extends BotAgent {
+    async processEnvelope(inEnvelope: Envelope): Promise<Envelope> {
+      return new Envelope({
+        schema: { version: inEnvelope.schema.version },
+        conversation: { id: inEnvelope.conversation.id },
+        sender: { speakerUri: this.speakerUri, serviceUrl: this.serviceUrl },
+        events: inEnvelope.events.map(event => event.toObject() as any)
+      });
+    }
+  }
+
+  class FailingBot extends BotAgent {
+    async processEnvelope(): Promise<Envelope> {
+      throw new Error('boom');
+    }
+  }
+
+  beforeAll(async () => {
+    const bot = createAgentRequestListener(new EchoBot(manifest));
+    const failing = createAgentRequestListener(new FailingBot(manifest), {
+      path: '/failing',
+      onError: error => errors.push(error)
+    });
+    const small = createAgentRequestListener(new BotAgent(manifest), { path: '/small', maxBodySize: 16 });
+    server = createServer((req, res) => {
+      if (req.url === '/failing') return void failing(req, res);
+      if (req.url === '/small') return void small(req, res);
+      return void bot(req, res);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function post(path: string, body: string): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+  }
+
+  it('returns the agent response payload for a valid envelope', async () => {
+    const res = await post('/openfloor', JSON.stringify(utterancePayload));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/json');
+    const payload = Payload.fromJSON(await res.text());
+    expect(payload.openFloor.sender.speakerUri).toBe('tag:example.com,2025:bot-1');
+    expect(payload.openFloor.conversation.id).toBe('conv-1');
+    expect(payload.openFloor.events[0]).toBeInstanceOf(UtteranceEvent);
+  });
+
+  it('decodes and encodes non-ASCII text as UTF-8', async () => {
+    const text = 'Gr\u00fc\u00dfe \u{1F44B}';
+    const body = JSON.stringify(utterancePayload).replace('"Hello"', JSON.stringify(text));
+    const res = await post('/openfloor', body);
+    const bytes = new Uint8Array(await res.arrayBuffer());
+
+    expect(Number(res.headers.get('content-length'))).toBe(bytes.byteLength);
+    const payload = Payload.fromJSON(new TextDecoder().decode(bytes));
+    expect((payload.openFloor.events[0] as UtteranceEvent).dialogEvent.features.get('text')?.tokens[0]?.value).toBe(text);
+  });
+
+  it('rejects malformed JSON with 400', async () => {
+    const res = await post('/openfloor', '{not json');
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/Invalid JSON/);
+  });
+
+  it('rejects envelopes that fail schema validation with 400', async () => {
+    const res = await post('/openfloor', JSON.stringify({ openFloor: {} }));
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toMatch(/schema validation/);
+    expect(body.errors.length).toBeGreaterThan(0);
+    expect(body.details).toHaveLength(body.errors.length);
+    expect(body.details).toContainEqual({
+      pointer: '/openFloor',
+      keyword: 'required',
+      code: 'missing_property',
+      expected: 'schema',
+      message: "missing required property 'schema'"
+    });
+  });
+
+  it('answers 500 and reports the error when the agent throws', async () => {
+    const res = await post('/failing', JSON.stringify(utterancePayload));
+    expect(res.status).toBe(500);
+    expect((await res.json()).error).toMatch(/boom/);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('answers 405 for methods other than POST', async () => {
+    const res = await fetch(`${baseUrl}/openfloor`);
+    expect(res.status).toBe(405);
+    expect(res.headers.get('allow')).toBe('POST');
+  });
+
+  it('answers 404 for paths other than the serviceUrl path', async () => {
+    const res = await post('/elsewhere', JSON.stringify(utterancePayload));
+    expect(res.status).toBe(404);
+  });
+
+  it('answers 413 for oversized bodies', async () => {
+    const res = await post('/small', JSON.stringify(utterancePayload));
+    expect(res.status).toBe(413);
+  });
+});
@@ -0,0 +1,205 @@
+import { FloorManager, ConvenerAgent } from '../src/agents';
+import { Envelope, Event, Manifest } from '../src/envelope';
+import { Clock } from '../src/types';
+import { TimeoutTracker } from '../src/timers';
+
+class ManualClock implements Clock {
+  private _now = 0;
+  private _nextHandle = 1;
+  private _pending = new Map<number, { at: number; callback: () => void }>();
+
+  now(): number {
+    return this._now;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this._nextHandle++;
+    this._pending.set(handle, { at: this._now + ms, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this._pending.delete(handle as number);
+  }
+
+  advance(ms: number): void {
+    this._now += ms;
+    for (const [handle, { at, callback }] of [...this._pending].sort((a, b) => a[1].at - b[1].at)) {
+      if (at > this._now || !this._pending.has(handle)) continue;
+      this._pending.delete(handle);
+      callback();
+    }
+  }
+
+  get pendingCount(): number {
+    return this._pending.size;
+  }
+}
+
+function manifestFor(name: string): Manifest {
+  return new Manifest({
+    identification: {
+      speakerUri: `tag:example.com,2025:${name}`,
+      serviceUrl: `https://example.com/${name}`,
+      organization: 'ExampleOrg',
+      conversationalName: name,
+      synopsis: `${name} agent`
+    },
+    capabilities: []
+  });
+}
+
+function envelopeFrom(sender: Manifest, events: Array<Record<string, unknown>>): Envelope {
+  return new Envelope({
+    schema: { version: '1.0.0' },
+    conversation: { id: 'conv-1' },
+    sender: { speakerUri: sender.identification.speakerUri, serviceUrl: sender.identification.serviceUrl },
+    events: events as any
+  });
+}
+
+function summarize(events: readonly Event[]): Array<[string, string | undefined, string | undefined]> {
+  return events.map(e => [e.eventType, e.to?.speakerUri ?? e.to?.serviceUrl, e.reason]);
+}
+
+const agentA = manifestFor('agent-a');
+const agentB = manifestFor('agent-b');
+const uri = (manifest: Manifest) => manifest.identification.speakerUri;
+
+describe('OFP TimeoutTracker', () => {
+  it('reports elapsed time and fires once unless cancelled', () => {
+    const clock = new ManualClock();
+    const tracker = new TimeoutTracker<string>(clock);
+    const expired: string[] = [];
+
+    tracker.start('a', 100, () => expired.push('a'));
+    tracker.start('b', 100, () => expired.push('b'));
+    clock.advance(40);
+    expect(tracker.elapsed('a')).toBe(40);
+    expect(tracker.cancel('b')).toBe(true);
+
+    clock.advance(60);
+    expect(expired).toEqual(['a']);
+    expect(tracker.has('a')).toBe(false);
+    expect(tracker.elapsed('a')).toBeNull();
+  });
+
+  it('restarts a timeout started again for the same key', () => {
+    const clock = new ManualClock();
+    const tracker = new TimeoutTracker<string>(clock);
+    const onExpire = jest.fn();
+
+    tracker.start('a', 100, onExpire);
+    clock.advance(80);
+    tracker.start('a', 100, onExpire);
+    clock.advance(80);
+    expect(onExpire).not.toHaveBeenCalled();
+    clock.advance(20);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('OFP FloorManager Floor Timeouts', () => {
+  function newFloorManager(clock: ManualClock, onTimeout: (events: readonly Event[]) => void): FloorManager {
+    const fm = new FloorManager(manifestFor('fm').toObject() as any, { floorTimeout: 1000, clock, onTimeout });
+    fm.addConversant(agentA);
+    fm.addConversant(agentB);
+    return fm;
+  }
+
+  it('revokes a floor held too long with @timedOut and grants the next request', async () => {
+    const clock = new ManualClock();
+    const onTimeout = jest.fn();
+    const fm = newFloorManager(clock, onTimeout);
+
+    await fm.processEnvelope(envelopeFrom(agentA, [{ eventType: 'requestFloor' }]));
+    await fm.processEnvelope(envelopeFrom(agentB, [{ eventType: 'requestFloor' }]));
+    clock.advance(600);
+    expect(fm.floorHeldFor).toBe(600);
+
+    clock.advance(400);
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    expect(summarize(onTimeout.mock.calls[0][0])).toEqual([
+      ['revokeFloor', uri(agentA), '@timedOut'],
+      ['grantFloor', uri(agentB), undefined]
+    ]);
+    expect(fm.currentSpeaker).toBe(uri(agentB));
+    expect(fm.floorHeldFor).toBe(0);
+  });
+
+  it('cancels the timeout when the holder yields or leaves', async () => {
+    const clock = new ManualClock();
+    const onTimeout = jest.fn();
+    const fm = newFloorManager(clock, onTimeout);
+
+    await fm.processEnvelope(envelopeFrom(agentA, [{ eventType: 'requestFloor' }]));
+    await fm.processEnvelope(envelopeFrom(agentA, [{ eventType: 'yieldFloor' }]));
+    await fm.processEnvelope(envelopeFrom(agentB, [{ eventType: 'requestFloor' }]));
+    await fm.processEnvelope(envelopeFrom(agentB, [{ eventType: 'bye' }]));
+
+    expect(clock.pendingCount).toBe(0);
+    clock.advance(5000);
+    expect(onTimeout).not.toHaveBeenCalled();
+    expect(fm.floorHeldFor).toBeNull();
+  });
+});
+
+describe('OFP ConvenerAgent Timeouts', () => {
+  function newConvener(clock: ManualClock, onTimeout: (events: readonly Event[]) => void): ConvenerAgent {
+    return new ConvenerAgent(manifestFor('convener').toObject() as any, {
+      floorTimeout: 1000,
+      inviteTimeout: 500,
+      clock,
+      onTimeout
+    });
+  }
+
+  it('revokes a granted floor with @timedOut', () => {
+    const clock = new ManualClock();
+    const onTimeout = jest.fn();
+    const convener = newConvener(clock, onTimeout);
+
+    convener.grantFloor(uri(agentA));
+    clock.advance(1000);
+    expect(summarize(onTimeout.mock.calls[0][0])).toEqual([['revokeFloor', uri(agentA), '@timedOut']]);
+  });
+
+  it('cancels the floor timeout when the holder yields', async () => {
+    const clock = new ManualClock();
+    const onTimeout = jest.fn();
+    const convener = newConvener(clock, onTimeout);
+
+    convener.grantFloor(uri(agentA));
+    await convener.processEnvelope(envelopeFrom(agentA, [{ eventType: 'yieldFloor' }]));
+    clock.advance(1000);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it('uninvites an agent that does not respond with @timedOut', () => {
+    const clock = new ManualClock();
+    const onTimeout = jest.fn();
+    const convener = newConvener(clock, onTimeout);
+
+    convener.inviteAgent(agentA.identification.serviceUrl);
+    expect(convener.pendingInvites).toEqual([agentA.identification.serviceUrl]);
+    clock.advance(500);
+
+    expect(summarize(onTimeout.mock.calls[0][0])).toEqual([['uninvite', agentA.identification.serviceUrl, '@timedOut']]);
+    expect(convener.pendingInvites).toEqual([]);
+  });
+
+  it('cancels the invite timeout when the agent responds', async () => {
+    const clock = new ManualClock();
+    const onTimeout = jest.fn();
+    const convener = newConvener(clock, onTimeout);
+
+    convener.inviteAgent(agentA.identification.serviceUrl);
+    convener.inviteAgent(agentB.identification.serviceUrl, uri(agentB));
+    await convener.processEnvelope(envelopeFrom(agentA, [{ eventType: 'bye' }]));
+    convener.uninviteAgent(uri(agentB));
+
+    expect(convener.pendingInvites).toEqual([]);
+    clock.advance(500);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { DialogEvent } from '../src/dialog-event';
+
+const dialogEvent = (features: Record<string, unknown>) => new DialogEvent({
+  id: 'de-1',
+  speakerUri: 'tag:example.com,2025:user',
+  span: { startTime: new Date('2025-01-01T00:00:00Z') },
+  features: features as any
+});
+
+const annotated = dialogEvent({
+  text: {
+    mimeType: 'text/plain',
+    tokens: [{ value: 'Pay' }, { value: 'my' }, { value: 'electricity' }, { value: 'bill' }],
+    alternates: [[{ value: 'Pay my electric bill' }]]
+  },
+  intent: {
+    mimeType: 'application/json',
+    tokens: [{ value: 'payBill', links: ['$.text.tokens[0].value', '$.text.tokens[?@.value == "bill"]'] }]
+  },
+  entities: {
+    mimeType: 'application/json',
+    tokens: [
+      { value: 'utility:electricity', links: ['$.text.tokens[2]', '$.text.alternates[0][0].value.substring(7,15)'] },
+      { value: 'unknown', links: ['$.text.tokens[9]', '$.text.tokens['] }
+    ]
+  }
+});
+
+describe('OFP Token Link Graph', () => {
+  it('resolves links to the tokens they point at', () => {
+    const graph = annotated.getLinkGraph();
+    const [pay, , electricity, bill] = annotated.features.get('text')!.tokens;
+    const payBill = annotated.features.get('intent')!.tokens[0]!;
+    const entity = annotated.features.get('entities')!.tokens[0]!;
+
+    expect(graph.tokens).toHaveLength(8);
+    expect(graph.linkedTo(payBill).map(target => target.token)).toEqual([pay, bill]);
+    expect(graph.linkedTo(entity).map(target => target.path)).toEqual([
+      "$['text']['tokens'][2]",
+      "$['text']['alternates'][0][0]"
+    ]);
+    expect(graph.reference(electricity!)).toMatchObject({ featureName: 'text', index: 2 });
+    expect(graph.reference(annotated.features.get('text')!.alternates[0]![0]!)).toMatchObject({ alternate: 0, index: 0 });
+    expect(annotated.getLinkGraph()).toBe(graph);
+  });
+
+  it('looks links up in reverse', () => {
+    const graph = annotated.getLinkGraph();
+    const [pay, my, electricity] = annotated.features.get('text')!.tokens;
+
+    expect(graph.linkedFrom(pay!).map(source => source.token.value)).toEqual(['payBill']);
+    expect(graph.linkedFrom(electricity!).map(source => source.token.value)).toEqual(['utility:electricity']);
+    expect(graph.incoming(my!)).toEqual([]);
+  });
+
+  it('reports dangling links and cycles', () => {
+    const dangling = annotated.getLinkGraph().dangling();
+    expect(dangling.map(link => link.expression)).toEqual(['$.text.tokens[9]', '$.text.tokens[']);
+    expect(dangling[0]?.error).toBeUndefined();
+    expect(dangling[1]?.error?.name).toBe('JsonPathError');
+    expect(annotated.getLinkGraph().cycles()).toEqual([]);
+
+    const cyclic = dialogEvent({
+      a: { mimeType: 'application/json', tokens: [{ value: 'a', links: ['$.b.tokens[0]'] }, { value: 'self', links: ['$.a.tokens[1]'] }] },
+      b: { mimeType: 'application/json', tokens: [{ value: 'b', links: ['$.a.tokens[0]'] }] }
+    });
+    expect(cyclic.getLinkGraph().cycles().map(cycle => cycle.map(reference => reference.token.value)))
+      .toEqual([['a', 'b'], ['self']]);
+  });
+
+  it('serializes links as normalized paths of their targets', () => {
+    expect(annotated.getLinkGraph().toObject()).toEqual({
+      "$['intent']['tokens'][0]": ["$['text']['tokens'][0]", "$['text']['tokens'][3]"],
+      "$['entities']['tokens'][0]": ["$['text']['tokens'][2]", "$['text']['alternates'][0][0]"],
+      "$['entities']['tokens'][1]": ['$.text.tokens[9]', '$.text.tokens[']
+    });
+
+    // Normalized paths resolve to the same tokens
+    const rewritten = dialogEvent({
+      ...Object.fromEntries(Array.from(annotated.features, ([name, feature]) => [name, feature.toObject()])),
+      intent: { mimeType: 'application/json', tokens: [{ value: 'payBill', links: annotated.getLinkGraph().toObject()["$['intent']['tokens'][0]"] }] }
+    });
+    expect(rewritten.getLinkGraph().linkedTo(rewritten.features.get('intent')!.tokens[0]!).map(target => target.token.value))
+      .toEqual(['Pay', 'bill']);
+  });
+});
@@ -23,6 +23,39 @@ describe('OFP Utility Functions', () => {
     expect(() => parseIsoDuration('notaduration')).toThrow();
   });
 
+  it('keeps milliseconds, days and signs of durations', () => {
+    expect(millisecondsToIsoDuration(1500)).toBe('PT1.5S');
+    expect(millisecondsToIsoDuration(0)).toBe('PT0S');
+    expect(millisecondsToIsoDuration(86400000)).toBe('P1D');
+    expect(millisecondsToIsoDuration(93600123)).toBe('P1DT2H0.123S');
+    expect(millisecondsToIsoDuration(-90000)).toBe('-PT1M30S');
+    expect(millisecondsToIsoDuration(0.5)).toBe('PT0.0005S');
+    expect(() => millisecondsToIsoDuration(NaN)).toThrow();
+
+    for (const ms of [1, 999, 1500, 59999, 3600001, 93600123, -1500, 0.5, 1234.567]) {
+      expect(parseIsoDuration(millisecondsToIsoDuration(ms))).toBe(ms);
+    }
+  });
+
+  it('parses weeks, fractions and negative durations', () => {
+    expect(parseIsoDuration('P2W')).toBe(1209600000);
+    expect(parseIsoDuration('P1W2D')).toBe(777600000);
+    expect(parseIsoDuration('PT1.5M')).toBe(90000);
+    expect(parseIsoDuration('PT0,25S')).toBe(250);
+    expect(parseIsoDuration('PT0.001S')).toBe(1);
+    expect(parseIsoDuration('-PT1.5S')).toBe(-1500);
+    expect(parseIsoDuration('+P1D')).toBe(86400000);
+    expect(parseIsoDuration('P0Y0M1D')).toBe(86400000);
+  });
+
+  it('rejects calendar units and malformed durations', () => {
+    expect(() => parseIsoDuration('P1Y')).toThrow('Ambiguous ISO 8601 duration');
+    expect(() => parseIsoDuration('P2M')).toThrow('Ambiguous ISO 8601 duration');
+    for (const duration of ['P', 'PT', '-P', 'P1DT', 'PT1.5M30S', 'P1H', 'PT-1S', 'PT1S1M', 'pt1s']) {
+      expect(() => parseIsoDuration(duration)).toThrow('Invalid ISO 8601 duration');
+    }
+  });
+
   it('generates a valid UUID v4', () => {
     const uuid = generateUUID();
     expect(uuid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i);
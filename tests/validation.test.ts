@@ -1,4 +1,15 @@
-import { validateEnvelope } from '../src/validation';
+import { validateEnvelope, validateEnvelopeEnhanced, SimpleValidator, EnhancedValidator } from '../src/validation';
+import {
+  SchemaRegistry,
+  createBundledSchemaRegistry,
+  CONVERSATION_ENVELOPE_SCHEMA_ID,
+  DIALOG_EVENT_SCHEMA_ID
+} from '../src/schema-registry';
+import Ajv2020 from 'ajv/dist/2020';
+
+const newAjv = () => new Ajv2020({ allErrors: true, verbose: true, strict: false, validateSchema: false });
+
+afterEach(() => EnhancedValidator.use(null));
 
 describe('OFP Envelope and Event Validation Errors', () => {
   it('fails validation for envelope missing required fields', () => {
@@ -36,3 +47,352 @@ describe('OFP Envelope and Event Validation Errors', () => {
   //   expect(result.valid).toBe(true);
   // });
 });
+
+describe('OFP SimpleValidator Keywords', () => {
+  const errorsFor = (data: unknown, schema: Record<string, any>) => SimpleValidator.validate(data, schema).errors;
+
+  it('applies allOf with if/then per discriminator value', () => {
+    const schema = {
+      type: 'object',
+      allOf: [
+        { if: { properties: { kind: { const: 'a' } }, required: ['kind'] }, then: { required: ['alpha'] } },
+        { if: { properties: { kind: { const: 'b' } }, required: ['kind'] }, then: { required: ['beta'] }, else: { maxProperties: 2 } }
+      ]
+    };
+    expect(errorsFor({ kind: 'a', alpha: 1 }, schema)).toEqual([]);
+    expect(errorsFor({ kind: 'a' }, schema)).toEqual(["root: missing required property 'alpha'"]);
+    expect(errorsFor({ kind: 'b' }, schema)).toEqual(["root: missing required property 'beta'"]);
+    expect(errorsFor({ kind: 'c', x: 1, y: 2 }, schema)).toEqual(['root: expected at most 2 properties, got 3']);
+  });
+
+  it('resolves local $ref into $defs', () => {
+    const schema = {
+      type: 'object',
+      properties: { speakerUri: { $ref: '#/$defs/uri' } },
+      $defs: { uri: { type: 'string', format: 'uri' } }
+    };
+    expect(errorsFor({ speakerUri: 'tag:example.com,2025:bot' }, schema)).toEqual([]);
+    expect(errorsFor({ speakerUri: 42 }, schema)).toEqual(['speakerUri: expected string, got number']);
+    expect(errorsFor({ speakerUri: 'not a uri' }, schema)).toEqual(['speakerUri: string is not a valid uri']);
+  });
+
+  it('reports unexpected properties and validates additional ones', () => {
+    const closed = { properties: { a: {} }, patternProperties: { '^x-': {} }, additionalProperties: false };
+    expect(errorsFor({ a: 1, 'x-ext': 2 }, closed)).toEqual([]);
+    expect(errorsFor({ a: 1, b: 2 }, closed)).toEqual(["root: unexpected property 'b'"]);
+
+    const typed = { additionalProperties: { type: 'number' } };
+    expect(errorsFor({ a: 1, b: 'two' }, typed)).toEqual(['b: expected number, got string']);
+  });
+
+  it('checks oneOf, not, const and type lists', () => {
+    const oneOf = { oneOf: [{ type: 'integer' }, { type: 'number', minimum: 5 }] };
+    expect(errorsFor(1.5, oneOf)).toEqual(['root: value must match exactly one schema, matched 0']);
+    expect(errorsFor(2, oneOf)).toEqual([]);
+    expect(errorsFor(7, oneOf)).toEqual(['root: value must match exactly one schema, matched 2']);
+
+    expect(errorsFor('x', { not: { const: 'x' } })).toEqual(['root: value must not match the disallowed schema']);
+    expect(errorsFor({ a: [1] }, { const: { a: [1] } })).toEqual([]);
+    expect(errorsFor(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(errorsFor([], { type: 'object' })).toEqual(['root: expected object, got array']);
+  });
+
+  it('checks array and string limits and formats', () => {
+    expect(errorsFor([], { minItems: 1 })).toEqual(['root: expected at least 1 items, got 0']);
+    expect(errorsFor([1, 2], { maxItems: 1 })).toEqual(['root: expected at most 1 items, got 2']);
+    expect(errorsFor('', { minLength: 1 })).toEqual(['root: string is shorter than 1 characters']);
+    expect(errorsFor('2025-01-01T00:00:00Z', { format: 'date-time' })).toEqual([]);
+    expect(errorsFor('yesterday', { format: 'date-time' })).toEqual(['root: string is not a valid date-time']);
+    expect(errorsFor('PT1.5S', { format: 'duration' })).toEqual([]);
+    expect(errorsFor('anything', { format: 'x-custom' })).toEqual([]);
+  });
+
+  it('handles boolean schemas', () => {
+    expect(errorsFor({ a: 1 }, { properties: { a: true, b: false } })).toEqual([]);
+    expect(errorsFor({ b: 1 }, { properties: { b: false } })).toEqual(['b: no value is allowed here']);
+  });
+});
+
+describe('OFP Envelope Event Parameter Validation', () => {
+  const envelopeWith = (event: Record<string, unknown>) => ({
+    openFloor: {
+      schema: { version: '1.0.0' },
+      conversation: { id: 'conv-1' },
+      sender: { speakerUri: 'tag:example.com,2025:user-1' },
+      events: [event]
+    }
+  });
+
+  it('rejects utterance events with unexpected parameters', () => {
+    const result = validateEnvelope(envelopeWith({ eventType: 'utterance', parameters: { garbage: true } }));
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain("openFloor.events[0].parameters: unexpected property 'garbage'");
+  });
+
+  it('rejects parameters on events that take none', () => {
+    const result = validateEnvelope(envelopeWith({ eventType: 'invite', parameters: { extra: 1 } }));
+    expect(result.valid).toBe(false);
+    expect(result.errors.join(' ')).toMatch(/at most 0 properties/);
+  });
+
+  it('rejects unknown event types and unknown identification fields', () => {
+    expect(validateEnvelope(envelopeWith({ eventType: 'dance' })).valid).toBe(false);
+
+    const envelope = envelopeWith({ eventType: 'bye' });
+    (envelope.openFloor.conversation as any).conversants = [{
+      identification: {
+        speakerUri: 'tag:example.com,2025:bot',
+        serviceUrl: 'https://example.com/bot',
+        organization: 'Example',
+        conversationalName: 'Bot',
+        synopsis: 'A bot',
+        nickname: 'Botty'
+      }
+    }];
+    expect(validateEnvelope(envelope).errors).toEqual([
+      "openFloor.conversation.conversants[0].identification: unexpected property 'nickname'"
+    ]);
+  });
+});
+
+describe('OFP Cross-Schema References', () => {
+  const speakerUri = 'tag:example.com,2025:user-1';
+  const dialogEvent = (overrides: Record<string, unknown> = {}) => ({
+    id: 'de-1',
+    speakerUri,
+    span: { startTime: '2025-01-01T00:00:00Z' },
+    features: { text: { mimeType: 'text/plain', tokens: [{ value: 'Hello' }] } },
+    ...overrides
+  });
+  const envelopeWith = (event: Record<string, unknown>) => ({
+    openFloor: {
+      schema: { version: '1.0.0' },
+      conversation: { id: 'conv-1' },
+      sender: { speakerUri },
+      events: [event]
+    }
+  });
+  const manifest = {
+    identification: {
+      speakerUri: 'tag:example.com,2025:bot',
+      serviceUrl: 'https://example.com/bot',
+      organization: 'Example',
+      conversationalName: 'Bot',
+      synopsis: 'A bot'
+    },
+    capabilities: [{ keyphrases: ['weather'], descriptions: ['Weather reports'] }]
+  };
+
+  it('validates the dialog event inside an utterance against the dialog event schema', () => {
+    expect(validateEnvelope(envelopeWith({
+      eventType: 'utterance',
+      parameters: { dialogEvent: dialogEvent() }
+    })).valid).toBe(true);
+
+    const result = validateEnvelope(envelopeWith({
+      eventType: 'utterance',
+      parameters: { dialogEvent: dialogEvent({ span: { endTime: '2025-01-01T00:00:00Z' } }) }
+    }));
+    expect(result.valid).toBe(false);
+    expect(result.errors.join(' ')).toMatch(/openFloor\.events\[0\]\.parameters\.dialogEvent\.span/);
+  });
+
+  it('rejects malformed tokens in utterances and context dialog history', () => {
+    const badFeatures = { text: { mimeType: 'text/plain', tokens: [{ confidence: 0.5 }] } };
+
+    expect(validateEnvelope(envelopeWith({
+      eventType: 'utterance',
+      parameters: { dialogEvent: dialogEvent({ features: badFeatures }) }
+    })).valid).toBe(false);
+
+    const result = validateEnvelope(envelopeWith({
+      eventType: 'context',
+      parameters: { dialogHistory: [dialogEvent(), dialogEvent({ features: badFeatures })] }
+    }));
+    expect(result.valid).toBe(false);
+    expect(result.errors.join(' ')).toMatch(/dialogHistory\[1\]\.features\.text\.tokens\[0\]/);
+  });
+
+  it('validates each manifest in publishManifests against the manifest schema', () => {
+    expect(validateEnvelope(envelopeWith({
+      eventType: 'publishManifests',
+      parameters: { servicingManifests: [manifest], discoveryManifests: [] }
+    })).valid).toBe(true);
+
+    const result = validateEnvelope(envelopeWith({
+      eventType: 'publishManifests',
+      parameters: { servicingManifests: [{ ...manifest, identification: { speakerUri: 'tag:x' } }] }
+    }));
+    expect(result.valid).toBe(false);
+    expect(result.errors.join(' ')).toMatch(/servicingManifests\[0\]\.identification/);
+  });
+
+  it('follows the same references with the enhanced validator', () => {
+    EnhancedValidator.use(newAjv());
+    expect(validateEnvelopeEnhanced(envelopeWith({
+      eventType: 'utterance',
+      parameters: { dialogEvent: dialogEvent() }
+    })).valid).toBe(true);
+    expect(validateEnvelopeEnhanced(envelopeWith({
+      eventType: 'utterance',
+      parameters: { dialogEvent: dialogEvent({ span: {} }) }
+    })).valid).toBe(false);
+  });
+
+  it('resolves schemas by $id and alias, ignoring fragments', () => {
+    const registry = createBundledSchemaRegistry();
+    const alias = 'https://github.com/open-voice-interoperability/lib-interop/tree/main/schemas/dialog-event/1.0.2/dialog-event-schema.json';
+
+    expect(registry.ids).toContain(CONVERSATION_ENVELOPE_SCHEMA_ID);
+    expect(registry.idOf(`${alias}#/$defs/span`)).toBe(DIALOG_EVENT_SCHEMA_ID);
+    expect(registry.get('https://example.com/unknown.json')).toBeUndefined();
+  });
+
+  it('resolves relative references to registered schemas', () => {
+    const registry = new SchemaRegistry();
+    registry.register({ $id: 'https://example.com/schemas/name.json', type: 'string', minLength: 1 });
+    const schema = {
+      $id: 'https://example.com/schemas/person.json',
+      type: 'object',
+      properties: { name: { $ref: 'name.json' } }
+    };
+
+    expect(SimpleValidator.validate({ name: 'Ada' }, schema, registry).valid).toBe(true);
+    expect(SimpleValidator.validate({ name: '' }, schema, registry).errors).toEqual([
+      'name: string is shorter than 1 characters'
+    ]);
+    expect(SimpleValidator.validate({ name: 'Ada' }, { $ref: 'https://example.com/missing.json' }, registry).errors)
+      .toEqual(['Validation error: Unresolvable schema reference: https://example.com/missing.json']);
+    expect(() => registry.register({ type: 'string' })).toThrow(/\$id/);
+  });
+});
+
+describe('OFP Structured Validation Errors', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      'a/b': { type: 'object', properties: { items: { type: 'array', items: { type: 'integer', maximum: 5 } } } },
+      name: { type: 'string', minLength: 2 }
+    },
+    required: ['id'],
+    additionalProperties: false
+  };
+  const data = { 'a/b': { items: [1, 7] }, name: 'x', extra: true };
+
+  it('reports a JSON Pointer, keyword, code and expected and actual values for each error', () => {
+    const result = SimpleValidator.validate(data, schema);
+
+    expect(result.errors).toEqual([
+      "root: missing required property 'id'",
+      'a/b.items[1]: value 7 is above maximum 5',
+      'name: string is shorter than 2 characters',
+      "root: unexpected property 'extra'"
+    ]);
+    expect(result.details).toEqual([
+      { pointer: '', keyword: 'required', code: 'missing_property', expected: 'id', message: "missing required property 'id'" },
+      { pointer: '/a~1b/items/1', keyword: 'maximum', code: 'out_of_range', expected: 5, actual: 7, message: 'value 7 is above maximum 5' },
+      { pointer: '/name', keyword: 'minLength', code: 'invalid_length', expected: 2, actual: 1, message: 'string is shorter than 2 characters' },
+      { pointer: '/extra', keyword: 'additionalProperties', code: 'unexpected_property', expected: false, actual: true, message: "unexpected property 'extra'" }
+    ]);
+  });
+
+  it('reports type mismatches and schema errors', () => {
+    expect(SimpleValidator.validate('x', { type: ['object', 'null'] }).details).toEqual([
+      { pointer: '', keyword: 'type', code: 'invalid_type', expected: ['object', 'null'], actual: 'string', message: 'expected object or null, got string' }
+    ]);
+    expect(SimpleValidator.validate(1, { $ref: '#/$defs/missing' }).details).toEqual([
+      { pointer: '', keyword: '$schema', code: 'invalid_schema', message: 'Unresolvable schema reference: #/$defs/missing' }
+    ]);
+  });
+
+  it('reports the same structure from the enhanced validator', () => {
+    EnhancedValidator.use(newAjv());
+    const result = EnhancedValidator.validate(data, schema);
+
+    expect(result.details).toHaveLength(result.errors.length);
+    expect(result.details).toEqual(expect.arrayContaining([
+      expect.objectContaining({ pointer: '', keyword: 'required', code: 'missing_property', expected: 'id' }),
+      expect.objectContaining({ pointer: '/a~1b/items/1', keyword: 'maximum', code: 'out_of_range', expected: 5, actual: 7 }),
+      expect.objectContaining({ pointer: '/extra', keyword: 'additionalProperties', code: 'unexpected_property' })
+    ]));
+  });
+});
+
+describe('OFP EnhancedValidator Compilation Cache', () => {
+  const envelope = {
+    openFloor: {
+      schema: { version: '1.0.0' },
+      conversation: { id: 'conv-1' },
+      sender: { speakerUri: 'tag:example.com,2025:user-1' },
+      events: [{ eventType: 'bye' }]
+    }
+  };
+
+  it('falls back to the simple validator with a one-time warning until a compiler is set', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      jest.isolateModules(() => {
+        // A fresh module, on which use() has not been called yet
+        const fresh: typeof import('../src/validation') = require('../src/validation');
+        const result = fresh.validateEnvelopeEnhanced({ openFloor: {} });
+        expect(result.errors).toEqual(validateEnvelope({ openFloor: {} }).errors);
+        fresh.validateEnvelopeEnhanced(envelope);
+      });
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0]?.[0]).toMatch(/EnhancedValidator\.use\(\)/);
+
+      // Choosing the simple validator explicitly does not warn
+      validateEnvelopeEnhanced(envelope);
+      expect(warn).toHaveBeenCalledTimes(1);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('compiles each schema once across repeated validations', () => {
+    const ajv = newAjv();
+    const compile = jest.spyOn(ajv, 'compile');
+    const getSchema = jest.spyOn(ajv, 'getSchema');
+    EnhancedValidator.use(ajv);
+
+    const schema = { $id: 'https://example.com/schemas/name.json', type: 'string' };
+    const anonymous = { type: 'integer' };
+    for (let i = 0; i < 1000; i++) {
+      expect(validateEnvelopeEnhanced(envelope).valid).toBe(true);
+      expect(EnhancedValidator.validate('Ada', schema).valid).toBe(true);
+      expect(EnhancedValidator.validate(i, anonymous).valid).toBe(true);
+    }
+
+    // One lookup of the registered envelope schema, one lookup and compilation per other schema
+    expect(getSchema).toHaveBeenCalledTimes(2);
+    expect(compile).toHaveBeenCalledTimes(2);
+  });
+
+  it('accepts any compiler implementing the SchemaCompiler interface', () => {
+    const compiler = {
+      compile: jest.fn(() => Object.assign((data: unknown) => data === 'ok', {
+        errors: [{ instancePath: '', keyword: 'const', params: { allowedValue: 'ok' }, message: 'must be ok', data: 'nope' }]
+      }))
+    };
+    EnhancedValidator.use(compiler);
+
+    expect(EnhancedValidator.validate('ok', { const: 'ok' }).valid).toBe(true);
+    expect(EnhancedValidator.validate('nope', { const: 'ok' })).toEqual({
+      valid: false,
+      errors: ['root: must be ok'],
+      details: [{ pointer: '', keyword: 'const', code: 'invalid_value', expected: 'ok', actual: 'nope', message: 'must be ok' }]
+    });
+    // Schemas without $id are cached by identity
+    expect(compiler.compile).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the simple validator when a schema does not compile', () => {
+    const compiler = { compile: jest.fn(() => { throw new Error('unsupported'); }) };
+    EnhancedValidator.use(compiler);
+    const schema = { $id: 'https://example.com/schemas/broken.json', type: 'string' };
+
+    expect(EnhancedValidator.validate(1, schema).errors).toEqual(['root: expected string, got number']);
+    expect(EnhancedValidator.validate(2, schema).valid).toBe(false);
+    expect(compiler.compile).toHaveBeenCalledTimes(1);
+  });
+});